@@ -14,9 +14,15 @@ import {
   WeightedConnectionPool,
   ClusterConnectionPool,
   CloudConnectionPool,
-  BaseConnectionPool
+  BaseConnectionPool,
+  CircuitState
 } from './lib/pool'
 import Serializer from './lib/Serializer'
+import { DefaultRetryPolicy } from './lib/RetryPolicy'
+import { defaultRequestKey } from './lib/RequestCoalescer'
+import { MemoryCacheStore } from './lib/ResponseCache'
+import { sigV4Signer, hmacSigner } from './lib/Signer'
+import { MiddlewareEngine, MiddlewareException, MiddlewareName, MiddlewarePriority, OpenTelemetryMetricsMiddleware } from './lib/middleware'
 import * as errors from './lib/errors'
 
 export type {
@@ -31,7 +37,10 @@ export type {
 
 export type {
   ConnectionPoolOptions,
-  GetConnectionOptions
+  ClusterConnectionPoolOptions,
+  GetConnectionOptions,
+  CircuitBreakerOptions,
+  CircuitBreakerEvent
 } from './lib/pool'
 
 export type {
@@ -41,17 +50,71 @@ export type {
   TransportRequestOptions,
   TransportRequestOptionsWithMeta,
   TransportRequestOptionsWithOutMeta,
-  SniffOptions
+  SniffOptions,
+  HedgingOptions,
+  CompressionCodec,
+  BulkOperation,
+  BulkSplitOptions,
+  TransportCloseOptions,
+  AuthProviderOptions,
+  AuthCredentials,
+  TokenSourceOptions,
+  ClientCredentialsGrant,
+  JwtBearerGrant,
+  TokenEvent,
+  RequestSigner,
+  AwsCredentials,
+  SigV4SignerOptions,
+  HmacSignerOptions
 } from './lib/Transport'
 
+export type {
+  RetryPolicy,
+  RetryContext,
+  DefaultRetryPolicyOptions
+} from './lib/RetryPolicy'
+
+export type { QueueEvent } from './lib/RequestQueue'
+
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareRequest,
+  MiddlewareRetry,
+  MiddlewareErrorResult,
+  MiddlewareNext,
+  OpenTelemetryOptions,
+  OpenTelemetryMetricsOptions
+} from './lib/middleware'
+
+export type { LargeIntegers } from './lib/BinaryFormats'
+
+export type {
+  ArrowTable,
+  RecordBatch,
+  ArrowColumn,
+  ArrowSchema,
+  ArrowField,
+  ArrowType
+} from './lib/Arrow'
+
+export type {
+  ResponseCacheOptions,
+  ResponseCacheStore,
+  ResponseCacheEntry
+} from './lib/ResponseCache'
+
 export type {
   RequestBody,
+  RequestBodyFactory,
   RequestNDBody,
   DiagnosticResult,
   TransportResult,
   HttpAgentOptions,
   UndiciAgentOptions,
   ApiKeyAuth,
+  BasicAuth,
   BearerAuth
 } from './lib/types'
 
@@ -62,10 +125,21 @@ export {
   ClusterConnectionPool,
   BaseConnectionPool,
   CloudConnectionPool,
+  CircuitState,
   BaseConnection,
   HttpConnection,
   UndiciConnection,
   Serializer,
+  DefaultRetryPolicy,
+  defaultRequestKey,
+  MemoryCacheStore,
+  sigV4Signer,
+  hmacSigner,
+  MiddlewareEngine,
+  MiddlewareException,
+  MiddlewareName,
+  MiddlewarePriority,
+  OpenTelemetryMetricsMiddleware,
   errors,
   events
 }
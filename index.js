@@ -16,9 +16,21 @@ const {
   BaseConnectionPool,
   ClusterConnectionPool,
   CloudConnectionPool,
-  WeightedConnectionPool
+  WeightedConnectionPool,
+  CircuitState
 } = require('./lib/pool')
 const Serializer = require('./lib/Serializer').default
+const { DefaultRetryPolicy } = require('./lib/RetryPolicy')
+const { defaultRequestKey } = require('./lib/RequestCoalescer')
+const { MemoryCacheStore } = require('./lib/ResponseCache')
+const { sigV4Signer, hmacSigner } = require('./lib/Signer')
+const {
+  MiddlewareEngine,
+  MiddlewareException,
+  MiddlewareName,
+  MiddlewarePriority,
+  OpenTelemetryMetricsMiddleware
+} = require('./lib/middleware')
 const errors = require('./lib/errors')
 
 module.exports = {
@@ -31,7 +43,18 @@ module.exports = {
   ClusterConnectionPool,
   CloudConnectionPool,
   WeightedConnectionPool,
+  CircuitState,
   Serializer,
+  DefaultRetryPolicy,
+  defaultRequestKey,
+  MemoryCacheStore,
+  sigV4Signer,
+  hmacSigner,
+  MiddlewareEngine,
+  MiddlewareException,
+  MiddlewareName,
+  MiddlewarePriority,
+  OpenTelemetryMetricsMiddleware,
   errors,
   events
 }
@@ -0,0 +1,685 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DeserializationError } from './errors'
+import { readFloat16 } from './BinaryFormats'
+
+/**
+ * A decoder for the Apache Arrow IPC streaming format
+ * (https://arrow.apache.org/docs/format/Columnar.html#ipc-streaming-format),
+ * which ES|QL uses for its `arrow` response format.
+ */
+
+const CONTINUATION = 0xffffffff
+
+const MESSAGE_SCHEMA = 1
+const MESSAGE_DICTIONARY_BATCH = 2
+const MESSAGE_RECORD_BATCH = 3
+
+/** The `Type` union of Schema.fbs, indexed by type id */
+const TYPE_NAMES = [
+  'NONE', 'Null', 'Int', 'FloatingPoint', 'Binary', 'Utf8', 'Bool', 'Decimal', 'Date',
+  'Time', 'Timestamp', 'Interval', 'List', 'Struct', 'Union', 'FixedSizeBinary',
+  'FixedSizeList', 'Map', 'Duration', 'LargeBinary', 'LargeUtf8', 'LargeList',
+  'RunEndEncoded', 'BinaryView', 'Utf8View', 'ListView', 'LargeListView'
+]
+const TIME_UNITS = ['SECOND', 'MILLISECOND', 'MICROSECOND', 'NANOSECOND']
+const MS_PER_DAY = 86400000
+
+export interface ArrowType {
+  /** The name of the Arrow type, for example `Int`, `Utf8` or `Timestamp`. */
+  name: string
+  bitWidth?: number
+  signed?: boolean
+  precision?: string | number
+  scale?: number
+  unit?: string
+  timezone?: string | null
+  byteWidth?: number
+  listSize?: number
+}
+
+export interface ArrowField {
+  name: string
+  nullable: boolean
+  type: ArrowType
+  children: ArrowField[]
+  /** Set if the values of the field are indexes into a dictionary. */
+  dictionary?: {
+    id: number
+    indexType: ArrowType
+    ordered: boolean
+  }
+  metadata: Record<string, string>
+}
+
+export interface ArrowSchema {
+  fields: ArrowField[]
+  metadata: Record<string, string>
+}
+
+/**
+ * A minimal FlatBuffers table reader, enough for the Arrow metadata.
+ */
+class Table {
+  private readonly bytes: Buffer
+  private readonly position: number
+  private readonly vtable: number
+  private readonly vtableSize: number
+
+  constructor (bytes: Buffer, position: number) {
+    this.bytes = bytes
+    this.position = position
+    this.vtable = position - bytes.readInt32LE(position)
+    this.vtableSize = bytes.readUInt16LE(this.vtable)
+  }
+
+  static root (bytes: Buffer): Table {
+    return new Table(bytes, bytes.readUInt32LE(0))
+  }
+
+  /** A table without fields, so that every field has its default value. */
+  static empty (): Table {
+    return new Table(Buffer.from([4, 0, 4, 0, 4, 0, 0, 0]), 4)
+  }
+
+  private offset (field: number): number {
+    const entry = 4 + field * 2
+    return entry < this.vtableSize ? this.bytes.readUInt16LE(this.vtable + entry) : 0
+  }
+
+  bool (field: number, defaultValue: boolean): boolean {
+    const offset = this.offset(field)
+    return offset === 0 ? defaultValue : this.bytes[this.position + offset] !== 0
+  }
+
+  uint8 (field: number, defaultValue: number): number {
+    const offset = this.offset(field)
+    return offset === 0 ? defaultValue : this.bytes.readUInt8(this.position + offset)
+  }
+
+  int16 (field: number, defaultValue: number): number {
+    const offset = this.offset(field)
+    return offset === 0 ? defaultValue : this.bytes.readInt16LE(this.position + offset)
+  }
+
+  int32 (field: number, defaultValue: number): number {
+    const offset = this.offset(field)
+    return offset === 0 ? defaultValue : this.bytes.readInt32LE(this.position + offset)
+  }
+
+  int64 (field: number, defaultValue: number): number {
+    const offset = this.offset(field)
+    return offset === 0 ? defaultValue : Number(this.bytes.readBigInt64LE(this.position + offset))
+  }
+
+  private indirect (field: number): number | null {
+    const offset = this.offset(field)
+    if (offset === 0) return null
+    const position = this.position + offset
+    return position + this.bytes.readUInt32LE(position)
+  }
+
+  table (field: number): Table | null {
+    const position = this.indirect(field)
+    return position == null ? null : new Table(this.bytes, position)
+  }
+
+  string (field: number): string | null {
+    const position = this.indirect(field)
+    if (position == null) return null
+    const length = this.bytes.readUInt32LE(position)
+    return this.bytes.toString('utf8', position + 4, position + 4 + length)
+  }
+
+  tables (field: number): Table[] {
+    const position = this.indirect(field)
+    if (position == null) return []
+    const tables: Table[] = []
+    const length = this.bytes.readUInt32LE(position)
+    for (let i = 0; i < length; i++) {
+      const element = position + 4 + i * 4
+      tables.push(new Table(this.bytes, element + this.bytes.readUInt32LE(element)))
+    }
+    return tables
+  }
+
+  /** The positions of the structs of a vector, which are stored inline. */
+  structs (field: number, size: number): number[] {
+    const position = this.indirect(field)
+    if (position == null) return []
+    const length = this.bytes.readUInt32LE(position)
+    return Array.from({ length }, (_, i) => position + 4 + i * size)
+  }
+
+  get buffer (): Buffer {
+    return this.bytes
+  }
+}
+
+function readMetadata (tables: Table[]): Record<string, string> {
+  const metadata: Record<string, string> = {}
+  for (const table of tables) {
+    metadata[table.string(0) ?? ''] = table.string(1) ?? ''
+  }
+  return metadata
+}
+
+function readType (typeId: number, table: Table): ArrowType {
+  const name = TYPE_NAMES[typeId]
+  if (name == null || name === 'NONE') {
+    throw new Error(`Unknown Arrow type ${typeId}`)
+  }
+  switch (name) {
+    case 'Int':
+      return { name, bitWidth: table.int32(0, 0), signed: table.bool(1, false) }
+    case 'FloatingPoint':
+      return { name, precision: ['HALF', 'SINGLE', 'DOUBLE'][table.int16(0, 0)] }
+    case 'Decimal':
+      return { name, precision: table.int32(0, 0), scale: table.int32(1, 0), bitWidth: table.int32(2, 128) }
+    case 'Date':
+      return { name, unit: ['DAY', 'MILLISECOND'][table.int16(0, 1)] }
+    case 'Time':
+      return { name, unit: TIME_UNITS[table.int16(0, 1)], bitWidth: table.int32(1, 32) }
+    case 'Timestamp':
+      return { name, unit: TIME_UNITS[table.int16(0, 0)], timezone: table.string(1) }
+    case 'Duration':
+      return { name, unit: TIME_UNITS[table.int16(0, 1)] }
+    case 'Interval':
+      return { name, unit: ['YEAR_MONTH', 'DAY_TIME', 'MONTH_DAY_NANO'][table.int16(0, 0)] }
+    case 'FixedSizeBinary':
+      return { name, byteWidth: table.int32(0, 0) }
+    case 'FixedSizeList':
+      return { name, listSize: table.int32(0, 0) }
+    default:
+      return { name }
+  }
+}
+
+function readField (table: Table): ArrowField {
+  const field: ArrowField = {
+    name: table.string(0) ?? '',
+    nullable: table.bool(1, false),
+    type: readType(table.uint8(2, 0), table.table(3) ?? Table.empty()),
+    children: table.tables(5).map(readField),
+    metadata: readMetadata(table.tables(6))
+  }
+  const dictionary = table.table(4)
+  if (dictionary != null) {
+    field.dictionary = {
+      id: dictionary.int64(0, 0),
+      indexType: readType(2, dictionary.table(1) ?? Table.empty()),
+      ordered: dictionary.bool(2, false)
+    }
+  }
+  return field
+}
+
+function readSchema (table: Table): ArrowSchema {
+  if (table.int16(0, 0) !== 0) {
+    throw new Error('Big endian Arrow streams are not supported')
+  }
+  return {
+    fields: table.tables(1).map(readField),
+    metadata: readMetadata(table.tables(2))
+  }
+}
+
+/**
+ * A column of a record batch. Null values are returned as `null`; 64 bit integers
+ * and durations as `bigint`, dates and timestamps as `Date`, decimals as strings,
+ * lists as arrays and structs as objects.
+ */
+export class ArrowColumn {
+  readonly field: ArrowField
+  readonly length: number
+  readonly nullCount: number
+  private readonly isValid: (index: number) => boolean
+  private readonly getValue: (index: number) => unknown
+
+  constructor (field: ArrowField, length: number, nullCount: number, isValid: (index: number) => boolean, getValue: (index: number) => unknown) {
+    this.field = field
+    this.length = length
+    this.nullCount = nullCount
+    this.isValid = isValid
+    this.getValue = getValue
+  }
+
+  get name (): string {
+    return this.field.name
+  }
+
+  get (index: number): unknown {
+    if (index < 0 || index >= this.length) return undefined
+    return this.isValid(index) ? this.getValue(index) : null
+  }
+
+  * [Symbol.iterator] (): IterableIterator<unknown> {
+    for (let i = 0; i < this.length; i++) yield this.get(i)
+  }
+
+  toArray (): unknown[] {
+    return Array.from(this)
+  }
+}
+
+/**
+ * A set of columns of the same length, iterable row by row.
+ */
+export class RecordBatch<T = Record<string, unknown>> {
+  readonly schema: ArrowSchema
+  readonly length: number
+  readonly columns: ArrowColumn[]
+
+  constructor (schema: ArrowSchema, length: number, columns: ArrowColumn[]) {
+    this.schema = schema
+    this.length = length
+    this.columns = columns
+  }
+
+  getChild (name: string): ArrowColumn | null {
+    return this.columns.find(column => column.name === name) ?? null
+  }
+
+  get (index: number): T | undefined {
+    if (index < 0 || index >= this.length) return undefined
+    const row: Record<string, unknown> = {}
+    for (const column of this.columns) row[column.name] = column.get(index)
+    return row as T
+  }
+
+  * [Symbol.iterator] (): IterableIterator<T> {
+    for (let i = 0; i < this.length; i++) yield this.get(i) as T
+  }
+
+  toArray (): T[] {
+    return Array.from(this)
+  }
+}
+
+/**
+ * The record batches of a whole Arrow stream.
+ */
+export class ArrowTable<T = Record<string, unknown>> {
+  readonly schema: ArrowSchema
+  readonly batches: Array<RecordBatch<T>>
+
+  constructor (schema: ArrowSchema, batches: Array<RecordBatch<T>>) {
+    this.schema = schema
+    this.batches = batches
+  }
+
+  get length (): number {
+    return this.batches.reduce((length, batch) => length + batch.length, 0)
+  }
+
+  * [Symbol.iterator] (): IterableIterator<T> {
+    for (const batch of this.batches) yield * batch
+  }
+
+  toArray (): T[] {
+    return Array.from(this)
+  }
+}
+
+/**
+ * Reads the field nodes and buffers of a record batch in order.
+ */
+class BodyReader {
+  private readonly batch: Table
+  private readonly body: Buffer
+  private readonly nodes: number[]
+  private readonly buffers: number[]
+  private nodeIndex: number
+  private bufferIndex: number
+
+  constructor (batch: Table, body: Buffer) {
+    if (batch.table(3) != null) {
+      throw new Error('Compressed Arrow record batches are not supported')
+    }
+    this.batch = batch
+    this.body = body
+    // FieldNode and Buffer are both structs of two longs
+    this.nodes = batch.structs(1, 16)
+    this.buffers = batch.structs(2, 16)
+    this.nodeIndex = 0
+    this.bufferIndex = 0
+  }
+
+  get length (): number {
+    return this.batch.int64(0, 0)
+  }
+
+  node (): { length: number, nullCount: number } {
+    const position = this.nodes[this.nodeIndex++]
+    if (position == null) throw new Error('Missing Arrow field node')
+    const bytes = this.batch.buffer
+    return {
+      length: Number(bytes.readBigInt64LE(position)),
+      nullCount: Number(bytes.readBigInt64LE(position + 8))
+    }
+  }
+
+  buffer (): Buffer {
+    const position = this.buffers[this.bufferIndex++]
+    if (position == null) throw new Error('Missing Arrow buffer')
+    const bytes = this.batch.buffer
+    const offset = Number(bytes.readBigInt64LE(position))
+    const length = Number(bytes.readBigInt64LE(position + 8))
+    if (offset + length > this.body.length) {
+      throw new Error('An Arrow buffer is out of the bounds of the message body')
+    }
+    return this.body.subarray(offset, offset + length)
+  }
+}
+
+function integerReader (type: ArrowType, data: Buffer): (index: number) => number | bigint {
+  switch (type.bitWidth) {
+    case 8:
+      return type.signed === true ? i => data.readInt8(i) : i => data.readUInt8(i)
+    case 16:
+      return type.signed === true ? i => data.readInt16LE(i * 2) : i => data.readUInt16LE(i * 2)
+    case 32:
+      return type.signed === true ? i => data.readInt32LE(i * 4) : i => data.readUInt32LE(i * 4)
+    case 64:
+      return type.signed === true ? i => data.readBigInt64LE(i * 8) : i => data.readBigUInt64LE(i * 8)
+    default:
+      throw new Error(`Unsupported Arrow integer width ${String(type.bitWidth)}`)
+  }
+}
+
+function offsetReader (large: boolean, offsets: Buffer): (index: number) => number {
+  return large ? i => Number(offsets.readBigInt64LE(i * 8)) : i => offsets.readInt32LE(i * 4)
+}
+
+function formatDecimal (value: bigint, scale: number): string {
+  if (scale <= 0) return (value * BigInt(10) ** BigInt(-scale)).toString()
+  const negative = value < BigInt(0)
+  const digits = (negative ? -value : value).toString().padStart(scale + 1, '0')
+  return `${negative ? '-' : ''}${digits.slice(0, -scale)}.${digits.slice(-scale)}`
+}
+
+function timestampToDate (value: bigint, unit: string | undefined): Date {
+  switch (unit) {
+    case 'SECOND':
+      return new Date(Number(value) * 1000)
+    case 'MICROSECOND':
+      return new Date(Number(value / BigInt(1000)))
+    case 'NANOSECOND':
+      return new Date(Number(value / BigInt(1000000)))
+    default:
+      return new Date(Number(value))
+  }
+}
+
+function readColumn (field: ArrowField, reader: BodyReader, dictionaries: Map<number, unknown[]>): ArrowColumn {
+  const { length, nullCount } = reader.node()
+  const { type } = field
+
+  if (type.name === 'Null') {
+    return new ArrowColumn(field, length, length, () => false, () => null)
+  }
+
+  const validity = reader.buffer()
+  const isValid = nullCount === 0 || validity.length === 0
+    ? () => true
+    : (i: number) => ((validity[i >> 3] >> (i & 7)) & 1) === 1
+  const column = (getValue: (index: number) => unknown): ArrowColumn =>
+    new ArrowColumn(field, length, nullCount, isValid, getValue)
+
+  if (field.dictionary != null) {
+    const dictionary = dictionaries.get(field.dictionary.id)
+    if (dictionary == null) {
+      throw new Error(`Missing Arrow dictionary ${field.dictionary.id}`)
+    }
+    const index = integerReader(field.dictionary.indexType, reader.buffer())
+    return column(i => dictionary[Number(index(i))])
+  }
+
+  switch (type.name) {
+    case 'Int':
+      return column(integerReader(type, reader.buffer()))
+    case 'FloatingPoint': {
+      const data = reader.buffer()
+      if (type.precision === 'HALF') return column(i => readFloat16(data.readUInt16LE(i * 2)))
+      if (type.precision === 'SINGLE') return column(i => data.readFloatLE(i * 4))
+      return column(i => data.readDoubleLE(i * 8))
+    }
+    case 'Bool': {
+      const data = reader.buffer()
+      return column(i => ((data[i >> 3] >> (i & 7)) & 1) === 1)
+    }
+    case 'Binary':
+    case 'Utf8':
+    case 'LargeBinary':
+    case 'LargeUtf8': {
+      const offset = offsetReader(type.name.startsWith('Large'), reader.buffer())
+      const data = reader.buffer()
+      return type.name.endsWith('Utf8')
+        ? column(i => data.toString('utf8', offset(i), offset(i + 1)))
+        : column(i => Buffer.from(data.subarray(offset(i), offset(i + 1))))
+    }
+    case 'FixedSizeBinary': {
+      const data = reader.buffer()
+      const width = type.byteWidth as number
+      return column(i => Buffer.from(data.subarray(i * width, (i + 1) * width)))
+    }
+    case 'Decimal': {
+      const data = reader.buffer()
+      const width = (type.bitWidth as number) / 8
+      return column(i => {
+        // little endian two's complement
+        const bytes = Buffer.from(data.subarray(i * width, (i + 1) * width)).reverse()
+        const value = BigInt.asIntN(width * 8, BigInt(`0x${bytes.toString('hex')}`))
+        return formatDecimal(value, type.scale as number)
+      })
+    }
+    case 'Date': {
+      const data = reader.buffer()
+      return type.unit === 'DAY'
+        ? column(i => new Date(data.readInt32LE(i * 4) * MS_PER_DAY))
+        : column(i => new Date(Number(data.readBigInt64LE(i * 8))))
+    }
+    case 'Time': {
+      const data = reader.buffer()
+      return type.bitWidth === 64
+        ? column(i => data.readBigInt64LE(i * 8))
+        : column(i => data.readInt32LE(i * 4))
+    }
+    case 'Timestamp': {
+      const data = reader.buffer()
+      return column(i => timestampToDate(data.readBigInt64LE(i * 8), type.unit))
+    }
+    case 'Duration': {
+      const data = reader.buffer()
+      return column(i => data.readBigInt64LE(i * 8))
+    }
+    case 'List':
+    case 'LargeList':
+    case 'Map': {
+      const offset = offsetReader(type.name === 'LargeList', reader.buffer())
+      const child = readColumn(field.children[0], reader, dictionaries)
+      return column(i => {
+        const values: unknown[] = []
+        for (let j = offset(i); j < offset(i + 1); j++) values.push(child.get(j))
+        return values
+      })
+    }
+    case 'FixedSizeList': {
+      const size = type.listSize as number
+      const child = readColumn(field.children[0], reader, dictionaries)
+      return column(i => {
+        const values: unknown[] = []
+        for (let j = i * size; j < (i + 1) * size; j++) values.push(child.get(j))
+        return values
+      })
+    }
+    case 'Struct': {
+      const children = field.children.map(child => readColumn(child, reader, dictionaries))
+      return column(i => {
+        const value: Record<string, unknown> = {}
+        for (const child of children) value[child.name] = child.get(i)
+        return value
+      })
+    }
+    default:
+      throw new Error(`Unsupported Arrow type ${type.name}`)
+  }
+}
+
+function collectDictionaries (fields: ArrowField[], byId: Map<number, ArrowField>): void {
+  for (const field of fields) {
+    if (field.dictionary != null) byId.set(field.dictionary.id, field)
+    collectDictionaries(field.children, byId)
+  }
+}
+
+/**
+ * Decodes an Arrow IPC stream chunk by chunk: each message is buffered
+ * until it is complete, so memory is bounded by the size of the largest
+ * record batch. Dictionary batches are kept for the following record batches.
+ */
+export class ArrowStreamDecoder {
+  private readonly maxMessageSize: number
+  private pending: Buffer[]
+  private pendingLength: number
+  private schema: ArrowSchema | null
+  private readonly dictionaryFields: Map<number, ArrowField>
+  private readonly dictionaries: Map<number, unknown[]>
+  private done: boolean
+
+  constructor (maxMessageSize: number) {
+    this.maxMessageSize = maxMessageSize
+    this.pending = []
+    this.pendingLength = 0
+    this.schema = null
+    this.dictionaryFields = new Map()
+    this.dictionaries = new Map()
+    this.done = false
+  }
+
+  /**
+   * Returns the record batches that have been completed by the given chunk.
+   */
+  write (chunk: Buffer): RecordBatch[] {
+    const batches: RecordBatch[] = []
+    if (this.done) return batches
+    this.pending.push(chunk)
+    this.pendingLength += chunk.length
+
+    while (this.pendingLength >= 4) {
+      let prefix = 4
+      let metadataLength = this.peek(4).readUInt32LE(0)
+      // streams written before Arrow 0.15 have no continuation marker
+      if (metadataLength === CONTINUATION) {
+        if (this.pendingLength < 8) break
+        prefix = 8
+        metadataLength = this.peek(8).readInt32LE(4)
+      }
+      if (metadataLength === 0) {
+        // the end of stream marker, anything after it is ignored
+        this.done = true
+        this.pending = []
+        this.pendingLength = 0
+        break
+      }
+      if (prefix + metadataLength > this.pendingLength) break
+
+      let metadata: Buffer
+      let message: Table
+      let bodyLength: number
+      try {
+        metadata = this.peek(prefix + metadataLength).subarray(prefix, prefix + metadataLength)
+        message = Table.root(metadata)
+        bodyLength = message.int64(3, 0)
+      } catch (err: any) {
+        throw new DeserializationError(`Invalid Arrow message: ${err.message as string}`, '')
+      }
+      if (metadataLength + bodyLength > this.maxMessageSize) {
+        throw new DeserializationError(`The Arrow message is bigger than the maximum allowed size (${this.maxMessageSize})`, '')
+      }
+      const size = prefix + metadataLength + bodyLength
+      if (size > this.pendingLength) break
+
+      const body = this.peek(size).subarray(prefix + metadataLength, size)
+      try {
+        const batch = this.message(message, body)
+        if (batch != null) batches.push(batch)
+      } catch (err: any) {
+        if (err instanceof DeserializationError) throw err
+        throw new DeserializationError(`Invalid Arrow message: ${err.message as string}`, '')
+      }
+      this.consume(size)
+    }
+    return batches
+  }
+
+  /**
+   * Returns the schema of the stream, and throws if the stream
+   * ended in the middle of a message or had no schema.
+   */
+  end (): ArrowSchema {
+    if (this.pendingLength > 0) {
+      throw new DeserializationError('The Arrow stream ended in the middle of a message', '')
+    }
+    if (this.schema == null) {
+      throw new DeserializationError('The Arrow stream has no schema', '')
+    }
+    return this.schema
+  }
+
+  /** The first `size` pending bytes, which must be available, as a single buffer. */
+  private peek (size: number): Buffer {
+    if (this.pending[0].length < size) {
+      this.pending = [Buffer.concat(this.pending)]
+    }
+    return this.pending[0]
+  }
+
+  private consume (size: number): void {
+    const first = this.peek(size)
+    if (first.length === size) {
+      this.pending.shift()
+    } else {
+      this.pending[0] = first.subarray(size)
+    }
+    this.pendingLength -= size
+  }
+
+  private message (message: Table, body: Buffer): RecordBatch | null {
+    const header = message.table(2)
+    const headerType = message.uint8(1, 0)
+    if (header == null) throw new Error('Missing message header')
+
+    switch (headerType) {
+      case MESSAGE_SCHEMA:
+        this.schema = readSchema(header)
+        this.dictionaryFields.clear()
+        collectDictionaries(this.schema.fields, this.dictionaryFields)
+        return null
+      case MESSAGE_DICTIONARY_BATCH: {
+        const id = header.int64(0, 0)
+        const field = this.dictionaryFields.get(id)
+        const data = header.table(1)
+        if (field == null || data == null) throw new Error(`Unexpected dictionary ${id}`)
+        // the dictionary holds the values, not their indexes
+        const { dictionary, ...valueField } = field
+        const values = readColumn(valueField, new BodyReader(data, body), this.dictionaries).toArray()
+        const isDelta = header.bool(2, false)
+        this.dictionaries.set(id, isDelta ? [...(this.dictionaries.get(id) ?? []), ...values] : values)
+        return null
+      }
+      case MESSAGE_RECORD_BATCH: {
+        const schema = this.schema
+        if (schema == null) throw new Error('A record batch came before the schema')
+        const reader = new BodyReader(header, body)
+        const columns = schema.fields.map(field => readColumn(field, reader, this.dictionaries))
+        return new RecordBatch(schema, reader.length, columns)
+      }
+      default:
+        throw new Error(`Unsupported Arrow message type ${headerType}`)
+    }
+  }
+}
@@ -0,0 +1,124 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Debug from 'debug'
+import { ConfigurationError } from './errors'
+import { prepareHeaders } from './connection/BaseConnection'
+import { ApiKeyAuth, BasicAuth, BearerAuth } from './types'
+
+const debug = Debug('elasticsearch')
+
+/** Default time before the credentials expire at which they are refreshed, in milliseconds. */
+export const DEFAULT_REFRESH_BEFORE = 60 * 1000
+
+/**
+ * Credentials resolved by an auth provider. With `expiresAt`, a timestamp in
+ * milliseconds, they are refreshed shortly before expiring.
+ */
+export type AuthCredentials = (BasicAuth | ApiKeyAuth | BearerAuth) & { expiresAt?: number }
+
+export interface AuthProviderOptions {
+  /**
+   * Resolves the credentials of the requests. It is called on the first request,
+   * once the credentials are about to expire, and again once a request has
+   * been rejected with a 401 status code.
+   */
+  provider: () => Promise<AuthCredentials>
+  /**
+   * How long before `expiresAt` the credentials are refreshed, in milliseconds
+   * or as a duration string. At most half of their lifetime. Defaults to 1 minute.
+   */
+  refreshBefore?: number | string
+}
+
+interface CachedAuthorization {
+  header: string
+  // when to refresh the header in the background, and when to stop using it
+  refreshAt: number | null
+  expiresAt: number | null
+}
+
+/**
+ * Caches the `authorization` header built from the credentials of a provider.
+ * Concurrent requests share a single call to the provider, and a call that
+ * fails is not cached, so that the next request calls it again. Credentials
+ * about to expire are refreshed in the background, while the requests keep
+ * using them until they do.
+ */
+export default class AuthProvider {
+  private readonly provider: AuthProviderOptions['provider']
+  private readonly refreshBefore: number
+  private cached: CachedAuthorization | null
+  private pending: Promise<CachedAuthorization> | null
+
+  constructor (provider: AuthProviderOptions['provider'], refreshBefore = DEFAULT_REFRESH_BEFORE) {
+    if (typeof provider !== 'function') {
+      throw new ConfigurationError('The auth provider must be a function')
+    }
+    this.provider = provider
+    this.refreshBefore = refreshBefore
+    this.cached = null
+    this.pending = null
+  }
+
+  async authorization (): Promise<string> {
+    const cached = this.cached
+    if (cached != null) {
+      const now = Date.now()
+      if (cached.expiresAt == null || cached.refreshAt == null || now < cached.refreshAt) {
+        return cached.header
+      }
+      if (now < cached.expiresAt) {
+        this.refresh().catch(err => debug('Failed to refresh the credentials in the background', err))
+        return cached.header
+      }
+      this.cached = null
+    }
+    return (await this.refresh()).header
+  }
+
+  /**
+   * Drops the cached header if it is still `authorization`, so that the next
+   * request calls the provider again. A header that has already been
+   * refreshed by another request is kept.
+   */
+  invalidate (authorization: string): void {
+    if (this.cached?.header === authorization) {
+      debug('Refreshing the credentials of the auth provider')
+      this.cached = null
+    }
+  }
+
+  private async refresh (): Promise<CachedAuthorization> {
+    if (this.pending == null) {
+      this.pending = this.resolve().then(cached => {
+        this.cached = cached
+        this.pending = null
+        return cached
+      }, err => {
+        this.pending = null
+        throw err
+      })
+    }
+    return await this.pending
+  }
+
+  private async resolve (): Promise<CachedAuthorization> {
+    const { expiresAt, ...credentials } = await this.provider()
+    const { authorization } = prepareHeaders({}, credentials as BasicAuth | ApiKeyAuth | BearerAuth)
+    if (typeof authorization !== 'string') {
+      throw new ConfigurationError('The auth provider must resolve to basic, API key or bearer credentials')
+    }
+    if (expiresAt == null) {
+      return { header: authorization, refreshAt: null, expiresAt: null }
+    }
+    const lifetime = Math.max(expiresAt - Date.now(), 0)
+    return {
+      header: authorization,
+      refreshAt: expiresAt - Math.min(this.refreshBefore, lifetime / 2),
+      expiresAt
+    }
+  }
+}
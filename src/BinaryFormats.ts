@@ -0,0 +1,883 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Encoders and decoders for the binary formats Elasticsearch can use instead of JSON:
+ * CBOR (RFC 8949) and Smile (https://github.com/FasterXML/smile-format-specification).
+ * Both map to the same values as JSON, so byte strings are the only addition.
+ */
+
+/**
+ * How integers outside of the safe integer range are decoded: as a `number`
+ * that loses precision, as a `BigInt`, or as the string of their digits.
+ */
+export type LargeIntegers = 'number' | 'bigint' | 'string'
+
+export interface DecodeOptions {
+  protoAction: 'error' | 'ignore'
+  constructorAction: 'error' | 'ignore'
+  largeIntegers?: LargeIntegers
+}
+
+/** The magic bytes every Smile document starts with, `:)\n`. */
+const SMILE_HEADER = [0x3a, 0x29, 0x0a]
+/** The size of the Smile back-reference tables, which are cleared once full. */
+const SMILE_MAX_SHARED = 1024
+const SMILE_END_OF_STRING = 0xfc
+
+const MIN_INT32 = -0x80000000
+const MAX_INT32 = 0x7fffffff
+const MAX_UINT64 = BigInt('0xffffffffffffffff')
+
+class Writer {
+  private buffer: Buffer
+  private length: number
+
+  constructor () {
+    this.buffer = Buffer.allocUnsafe(256)
+    this.length = 0
+  }
+
+  private ensure (size: number): void {
+    if (this.length + size <= this.buffer.length) return
+    const buffer = Buffer.allocUnsafe(Math.max(this.buffer.length * 2, this.length + size))
+    this.buffer.copy(buffer, 0, 0, this.length)
+    this.buffer = buffer
+  }
+
+  byte (value: number): void {
+    this.ensure(1)
+    this.buffer[this.length++] = value
+  }
+
+  bytes (value: Uint8Array): void {
+    this.ensure(value.length)
+    this.buffer.set(value, this.length)
+    this.length += value.length
+  }
+
+  utf8 (value: string, byteLength: number): void {
+    this.ensure(byteLength)
+    this.length += this.buffer.write(value, this.length, 'utf8')
+  }
+
+  uint16 (value: number): void {
+    this.ensure(2)
+    this.length = this.buffer.writeUInt16BE(value, this.length)
+  }
+
+  uint32 (value: number): void {
+    this.ensure(4)
+    this.length = this.buffer.writeUInt32BE(value, this.length)
+  }
+
+  uint64 (value: bigint): void {
+    this.ensure(8)
+    this.length = this.buffer.writeBigUInt64BE(value, this.length)
+  }
+
+  double (value: number): void {
+    this.ensure(8)
+    this.length = this.buffer.writeDoubleBE(value, this.length)
+  }
+
+  toBuffer (): Buffer {
+    return this.buffer.subarray(0, this.length)
+  }
+}
+
+class Reader {
+  readonly data: Buffer
+  offset: number
+
+  constructor (data: Buffer) {
+    this.data = data
+    this.offset = 0
+  }
+
+  ensure (size: number): void {
+    if (this.offset + size > this.data.length) {
+      throw new Error('Unexpected end of data')
+    }
+  }
+
+  byte (): number {
+    this.ensure(1)
+    return this.data[this.offset++]
+  }
+
+  peek (): number {
+    this.ensure(1)
+    return this.data[this.offset]
+  }
+
+  bytes (size: number): Buffer {
+    this.ensure(size)
+    // copied, so that the decoded value does not retain the whole response
+    const bytes = Buffer.from(this.data.subarray(this.offset, this.offset + size))
+    this.offset += size
+    return bytes
+  }
+
+  utf8 (size: number): string {
+    this.ensure(size)
+    const value = this.data.toString('utf8', this.offset, this.offset + size)
+    this.offset += size
+    return value
+  }
+
+  /** Reads a string terminated by `marker`, which is consumed. */
+  utf8Until (marker: number): string {
+    const end = this.data.indexOf(marker, this.offset)
+    if (end === -1) throw new Error('Unexpected end of data')
+    const value = this.data.toString('utf8', this.offset, end)
+    this.offset = end + 1
+    return value
+  }
+
+  end (): void {
+    if (this.offset !== this.data.length) {
+      throw new Error(`Unexpected data after the end of the document at offset ${this.offset}`)
+    }
+  }
+}
+
+const MIN_SAFE_INTEGER = BigInt(Number.MIN_SAFE_INTEGER)
+const MAX_SAFE_INTEGER = BigInt(Number.MAX_SAFE_INTEGER)
+
+/**
+ * Converts a decoded integer to a number, unless it is out of the safe range
+ * and another `largeIntegers` strategy is set.
+ */
+export function toInteger (value: bigint, options: DecodeOptions): number | bigint | string {
+  if (value >= MIN_SAFE_INTEGER && value <= MAX_SAFE_INTEGER) return Number(value)
+  switch (options.largeIntegers) {
+    case 'bigint':
+      return value
+    case 'string':
+      return value.toString()
+    default:
+      return Number(value)
+  }
+}
+
+/**
+ * Sets a decoded property with the same prototype poisoning protection as `secure-json-parse`.
+ */
+export function setProperty (object: Record<string, any>, key: string, value: unknown, options: DecodeOptions): void {
+  if (key === '__proto__') {
+    if (options.protoAction === 'error') {
+      throw new SyntaxError('Object contains forbidden prototype property')
+    }
+    // an own property, as JSON.parse does, rather than a new prototype
+    Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true })
+    return
+  }
+  if (key === 'constructor' && options.constructorAction === 'error' &&
+      value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, 'prototype')) {
+    throw new SyntaxError('Object contains forbidden prototype property')
+  }
+  object[key] = value
+}
+
+/**
+ * Returns the value as JSON.stringify would see it: `toJSON` is applied,
+ * and values JSON cannot represent are undefined. Byte strings are kept.
+ */
+function toJsonValue (value: any): any {
+  if (value == null) return value
+  if (value instanceof Uint8Array) return value
+  if (typeof value === 'function' || typeof value === 'symbol') return undefined
+  if (typeof value.toJSON === 'function') return value.toJSON()
+  return value
+}
+
+function bigIntFromBytes (bytes: Buffer, signed: boolean): bigint {
+  if (bytes.length === 0) return BigInt(0)
+  const value = BigInt(`0x${bytes.toString('hex')}`)
+  return signed ? BigInt.asIntN(bytes.length * 8, value) : value
+}
+
+/** The minimal two's complement representation of a big integer. */
+function bigIntToBytes (value: bigint): Buffer {
+  let size = 1
+  while (BigInt.asIntN(size * 8, value) !== value) size++
+  let hex = BigInt.asUintN(size * 8, value).toString(16)
+  hex = hex.padStart(size * 2, '0')
+  return Buffer.from(hex, 'hex')
+}
+
+function isInteger (value: number): boolean {
+  return Number.isInteger(value) && !Object.is(value, -0)
+}
+
+// --- CBOR ---
+
+export function readFloat16 (bits: number): number {
+  const exponent = (bits >> 10) & 0x1f
+  const fraction = bits & 0x3ff
+  const sign = (bits & 0x8000) !== 0 ? -1 : 1
+  if (exponent === 0) return sign * fraction * 2 ** -24
+  if (exponent === 0x1f) return fraction === 0 ? sign * Infinity : NaN
+  return sign * (1024 + fraction) * 2 ** (exponent - 25)
+}
+
+class CborDecoder {
+  private readonly reader: Reader
+  private readonly options: DecodeOptions
+
+  constructor (data: Buffer, options: DecodeOptions) {
+    this.reader = new Reader(data)
+    this.options = options
+  }
+
+  decode (): unknown {
+    const value = this.item(this.reader.byte())
+    this.reader.end()
+    return value
+  }
+
+  /** Reads the argument of a head, -1 stands for an indefinite length. */
+  private argument (info: number): number | bigint {
+    const reader = this.reader
+    if (info < 24) return info
+    switch (info) {
+      case 24:
+        return reader.byte()
+      case 25:
+        reader.ensure(2)
+        reader.offset += 2
+        return reader.data.readUInt16BE(reader.offset - 2)
+      case 26:
+        reader.ensure(4)
+        reader.offset += 4
+        return reader.data.readUInt32BE(reader.offset - 4)
+      case 27: {
+        reader.ensure(8)
+        reader.offset += 8
+        const value = reader.data.readBigUInt64BE(reader.offset - 8)
+        return value <= MAX_SAFE_INTEGER ? Number(value) : value
+      }
+      case 31:
+        return -1
+      default:
+        throw new Error(`Invalid CBOR additional information ${info} at offset ${reader.offset - 1}`)
+    }
+  }
+
+  private length (info: number): number {
+    const length = this.argument(info)
+    if (typeof length === 'bigint') {
+      throw new Error(`Invalid CBOR length at offset ${this.reader.offset}`)
+    }
+    return length
+  }
+
+  private item (head: number): unknown {
+    const major = head >> 5
+    const info = head & 0x1f
+
+    switch (major) {
+      case 0: {
+        if (info === 31) break
+        const value = this.argument(info)
+        return typeof value === 'bigint' ? toInteger(value, this.options) : value
+      }
+      case 1: {
+        if (info === 31) break
+        const value = this.argument(info)
+        return typeof value === 'bigint' ? toInteger(-BigInt(1) - value, this.options) : -1 - value
+      }
+      case 2:
+        return this.byteString(info)
+      case 3:
+        return info === 31 ? this.chunks(3).join('') : this.reader.utf8(this.length(info))
+      case 4: {
+        const length = this.length(info)
+        const array: unknown[] = []
+        if (length === -1) {
+          while (this.reader.peek() !== 0xff) array.push(this.item(this.reader.byte()))
+          this.reader.offset++
+        } else {
+          for (let i = 0; i < length; i++) array.push(this.item(this.reader.byte()))
+        }
+        return array
+      }
+      case 5: {
+        const length = this.length(info)
+        const object: Record<string, any> = {}
+        if (length === -1) {
+          while (this.reader.peek() !== 0xff) this.entry(object)
+          this.reader.offset++
+        } else {
+          for (let i = 0; i < length; i++) this.entry(object)
+        }
+        return object
+      }
+      case 6: {
+        const tag = this.argument(info)
+        const value = this.item(this.reader.byte())
+        // big integers, any other tag is transparent
+        if ((tag === 2 || tag === 3) && Buffer.isBuffer(value)) {
+          const integer = bigIntFromBytes(value, false)
+          return toInteger(tag === 2 ? integer : -BigInt(1) - integer, this.options)
+        }
+        return value
+      }
+      case 7:
+        return this.simple(info)
+    }
+    throw new Error(`Invalid CBOR item 0x${head.toString(16)} at offset ${this.reader.offset - 1}`)
+  }
+
+  private byteString (info: number): Buffer {
+    return info === 31 ? Buffer.concat(this.chunks(2)) : this.reader.bytes(this.length(info))
+  }
+
+  /** The definite length chunks of an indefinite length byte or text string. */
+  private chunks (major: 2): Buffer[]
+  private chunks (major: 3): string[]
+  private chunks (major: 2 | 3): Array<Buffer | string> {
+    const chunks: Array<Buffer | string> = []
+    for (let head = this.reader.byte(); head !== 0xff; head = this.reader.byte()) {
+      if (head >> 5 !== major || (head & 0x1f) === 31) {
+        throw new Error(`Invalid CBOR string chunk at offset ${this.reader.offset - 1}`)
+      }
+      const length = this.length(head & 0x1f)
+      chunks.push(major === 2 ? this.reader.bytes(length) : this.reader.utf8(length))
+    }
+    return chunks
+  }
+
+  private entry (object: Record<string, any>): void {
+    const key = this.item(this.reader.byte())
+    setProperty(object, String(key), this.item(this.reader.byte()), this.options)
+  }
+
+  private simple (info: number): unknown {
+    const reader = this.reader
+    switch (info) {
+      case 20:
+        return false
+      case 21:
+        return true
+      case 22:
+      case 23:
+        return null
+      case 25:
+        reader.ensure(2)
+        reader.offset += 2
+        return readFloat16(reader.data.readUInt16BE(reader.offset - 2))
+      case 26:
+        reader.ensure(4)
+        reader.offset += 4
+        return reader.data.readFloatBE(reader.offset - 4)
+      case 27:
+        reader.ensure(8)
+        reader.offset += 8
+        return reader.data.readDoubleBE(reader.offset - 8)
+      default:
+        throw new Error(`Unsupported CBOR simple value ${info} at offset ${reader.offset - 1}`)
+    }
+  }
+}
+
+class CborEncoder {
+  private readonly writer: Writer
+  private readonly stack: Set<object>
+
+  constructor () {
+    this.writer = new Writer()
+    this.stack = new Set()
+  }
+
+  encode (value: unknown): Buffer {
+    this.value(value)
+    return this.writer.toBuffer()
+  }
+
+  private head (major: number, argument: number | bigint): void {
+    const type = major << 5
+    const writer = this.writer
+    if (argument < 24) {
+      writer.byte(type | Number(argument))
+    } else if (argument <= 0xff) {
+      writer.byte(type | 24)
+      writer.byte(Number(argument))
+    } else if (argument <= 0xffff) {
+      writer.byte(type | 25)
+      writer.uint16(Number(argument))
+    } else if (argument <= 0xffffffff) {
+      writer.byte(type | 26)
+      writer.uint32(Number(argument))
+    } else {
+      writer.byte(type | 27)
+      writer.uint64(BigInt(argument))
+    }
+  }
+
+  private value (value: any): void {
+    value = toJsonValue(value)
+    if (value == null) {
+      this.writer.byte(0xf6)
+      return
+    }
+    switch (typeof value) {
+      case 'boolean':
+        this.writer.byte(value ? 0xf5 : 0xf4)
+        return
+      case 'number':
+        if (isInteger(value) && Number.isSafeInteger(value)) {
+          if (value >= 0) this.head(0, value)
+          else this.head(1, -1 - value)
+        } else {
+          this.writer.byte(0xfb)
+          this.writer.double(value)
+        }
+        return
+      case 'bigint':
+        if (value >= BigInt(0) && value <= MAX_UINT64) {
+          this.head(0, value)
+        } else if (value < BigInt(0) && -BigInt(1) - value <= MAX_UINT64) {
+          this.head(1, -BigInt(1) - value)
+        } else {
+          const bytes = bigIntToBytes(value >= BigInt(0) ? value : -BigInt(1) - value)
+          this.head(6, value >= BigInt(0) ? 2 : 3)
+          this.head(2, bytes.length)
+          this.writer.bytes(bytes)
+        }
+        return
+      case 'string': {
+        const length = Buffer.byteLength(value)
+        this.head(3, length)
+        this.writer.utf8(value, length)
+        return
+      }
+    }
+    if (value instanceof Uint8Array) {
+      this.head(2, value.length)
+      this.writer.bytes(value)
+      return
+    }
+    if (this.stack.has(value)) {
+      throw new TypeError('Converting circular structure to CBOR')
+    }
+    this.stack.add(value)
+    if (Array.isArray(value)) {
+      this.head(4, value.length)
+      for (const item of value) this.value(item)
+    } else {
+      const entries = Object.keys(value)
+        .map(key => [key, toJsonValue(value[key])])
+        .filter(([, item]) => item !== undefined)
+      this.head(5, entries.length)
+      for (const [key, item] of entries) {
+        this.value(key)
+        this.value(item)
+      }
+    }
+    this.stack.delete(value)
+  }
+}
+
+/**
+ * Encodes a value to CBOR, following the JSON.stringify rules.
+ */
+export function encodeCbor (value: unknown): Buffer {
+  return new CborEncoder().encode(value)
+}
+
+/**
+ * Decodes a single CBOR data item. Integers out of the safe integer range
+ * follow the `largeIntegers` strategy.
+ */
+export function decodeCbor<T = unknown> (data: Buffer, options: DecodeOptions): T {
+  return new CborDecoder(data, options).decode() as T
+}
+
+// --- Smile ---
+
+function zigzagDecode32 (value: number): number {
+  return (value >>> 1) ^ -(value & 1)
+}
+
+function zigzagEncode32 (value: number): number {
+  return ((value << 1) ^ (value >> 31)) >>> 0
+}
+
+class SmileDecoder {
+  private readonly reader: Reader
+  private readonly options: DecodeOptions
+  private sharedNames: string[] | null
+  private sharedValues: string[] | null
+
+  constructor (data: Buffer, options: DecodeOptions) {
+    this.reader = new Reader(data)
+    this.options = options
+    this.sharedNames = null
+    this.sharedValues = null
+  }
+
+  decode (): unknown {
+    const reader = this.reader
+    for (const byte of SMILE_HEADER) {
+      if (reader.byte() !== byte) throw new Error('Invalid Smile header')
+    }
+    const flags = reader.byte()
+    if (flags >> 4 !== 0) {
+      throw new Error(`Unsupported Smile version ${flags >> 4}`)
+    }
+    if ((flags & 0x01) !== 0) this.sharedNames = []
+    if ((flags & 0x02) !== 0) this.sharedValues = []
+
+    const value = this.value(reader.byte())
+    // the optional end of content marker
+    if (reader.offset < reader.data.length && reader.peek() === 0xff) reader.offset++
+    reader.end()
+    return value
+  }
+
+  private vint (): number {
+    let value = 0
+    for (let i = 0; i < 5; i++) {
+      const byte = this.reader.byte()
+      if ((byte & 0x80) !== 0) return value * 64 + (byte & 0x3f)
+      value = value * 128 + byte
+    }
+    throw new Error(`Invalid Smile variable length integer at offset ${this.reader.offset}`)
+  }
+
+  private vlong (): bigint {
+    let value = BigInt(0)
+    for (let i = 0; i < 10; i++) {
+      const byte = this.reader.byte()
+      if ((byte & 0x80) !== 0) return (value << BigInt(6)) | BigInt(byte & 0x3f)
+      value = (value << BigInt(7)) | BigInt(byte)
+    }
+    throw new Error(`Invalid Smile variable length integer at offset ${this.reader.offset}`)
+  }
+
+  /** Reads `count` bytes holding 7 bits each, as a single big-endian integer. */
+  private sevenBits (count: number): bigint {
+    let value = BigInt(0)
+    for (let i = 0; i < count; i++) value = (value << BigInt(7)) | BigInt(this.reader.byte() & 0x7f)
+    return value
+  }
+
+  /** Reads binary data encoded in 7 bit bytes; each 7 bytes take 8 bytes. */
+  private sevenBitBinary (length: number): Buffer {
+    const bytes = Buffer.allocUnsafe(length)
+    for (let offset = 0; offset < length; offset += 7) {
+      const size = Math.min(7, length - offset)
+      // `size` bytes of 7 bits, then a byte holding the `size` remaining bits
+      let value = this.sevenBits(size)
+      value = (value << BigInt(size)) | BigInt(this.reader.byte() & ((1 << size) - 1))
+      for (let i = size - 1; i >= 0; i--) {
+        bytes[offset + i] = Number(value & BigInt(0xff))
+        value >>= BigInt(8)
+      }
+    }
+    return bytes
+  }
+
+  private addShared (table: string[] | null, value: string): void {
+    if (table == null) return
+    if (table.length === SMILE_MAX_SHARED) table.length = 0
+    table.push(value)
+  }
+
+  private shared (table: string[] | null, index: number): string {
+    if (table == null || index >= table.length) {
+      throw new Error(`Invalid Smile back reference ${index} at offset ${this.reader.offset}`)
+    }
+    return table[index]
+  }
+
+  private sharedString (size: number): string {
+    const value = this.reader.utf8(size)
+    this.addShared(this.sharedValues, value)
+    return value
+  }
+
+  private value (token: number): unknown {
+    const reader = this.reader
+    if (token < 0x20) {
+      // short back references start at 0x01, for the first shared value
+      if (token === 0x00) throw new Error(`Invalid Smile token 0x00 at offset ${reader.offset - 1}`)
+      return this.shared(this.sharedValues, token - 1)
+    }
+    switch (token >> 5) {
+      case 0x02:
+        // tiny and short ASCII
+        return this.sharedString((token & 0x1f) + 1)
+      case 0x03:
+        return this.sharedString((token & 0x1f) + 33)
+      case 0x04:
+        // tiny and short Unicode
+        return this.sharedString((token & 0x1f) + 2)
+      case 0x05:
+        return this.sharedString((token & 0x1f) + 34)
+      case 0x06:
+        // small integers, from -16 to 15
+        return zigzagDecode32(token & 0x1f)
+    }
+
+    switch (token) {
+      case 0x20:
+        return ''
+      case 0x21:
+        return null
+      case 0x22:
+        return false
+      case 0x23:
+        return true
+      case 0x24:
+        return zigzagDecode32(this.vint())
+      case 0x25: {
+        const value = this.vlong()
+        return toInteger((value >> BigInt(1)) ^ -(value & BigInt(1)), this.options)
+      }
+      case 0x26:
+        return toInteger(bigIntFromBytes(this.sevenBitBinary(this.vint()), true), this.options)
+      case 0x28: {
+        const bits = Buffer.allocUnsafe(4)
+        bits.writeUInt32BE(Number(this.sevenBits(5) & BigInt(0xffffffff)))
+        return bits.readFloatBE()
+      }
+      case 0x29: {
+        const bits = Buffer.allocUnsafe(8)
+        bits.writeBigUInt64BE(BigInt.asUintN(64, this.sevenBits(10)))
+        return bits.readDoubleBE()
+      }
+      case 0x2a: {
+        const scale = zigzagDecode32(this.vint())
+        const unscaled = bigIntFromBytes(this.sevenBitBinary(this.vint()), true)
+        return Number(`${unscaled}e${-scale}`)
+      }
+      case 0xe0:
+      case 0xe4:
+        return reader.utf8Until(SMILE_END_OF_STRING)
+      case 0xe8:
+        return this.sevenBitBinary(this.vint())
+      case 0xec:
+      case 0xed:
+      case 0xee:
+      case 0xef:
+        return this.shared(this.sharedValues, ((token & 0x03) << 8) | reader.byte())
+      case 0xf8: {
+        const array: unknown[] = []
+        for (let next = reader.byte(); next !== 0xf9; next = reader.byte()) {
+          array.push(this.value(next))
+        }
+        return array
+      }
+      case 0xfa: {
+        const object: Record<string, any> = {}
+        for (let next = reader.byte(); next !== 0xfb; next = reader.byte()) {
+          const key = this.key(next)
+          setProperty(object, key, this.value(reader.byte()), this.options)
+        }
+        return object
+      }
+      case 0xfd:
+        return reader.bytes(this.vint())
+    }
+    throw new Error(`Invalid Smile token 0x${token.toString(16)} at offset ${reader.offset - 1}`)
+  }
+
+  private key (token: number): string {
+    const reader = this.reader
+    let key: string
+    if (token === 0x20) {
+      return ''
+    } else if (token >= 0x30 && token <= 0x33) {
+      return this.shared(this.sharedNames, ((token & 0x03) << 8) | reader.byte())
+    } else if (token === 0x34) {
+      key = reader.utf8Until(SMILE_END_OF_STRING)
+    } else if (token >= 0x40 && token <= 0x7f) {
+      return this.shared(this.sharedNames, token & 0x3f)
+    } else if (token >= 0x80 && token <= 0xbf) {
+      key = reader.utf8((token & 0x3f) + 1)
+    } else if (token >= 0xc0 && token <= 0xf7) {
+      key = reader.utf8((token & 0x3f) + 2)
+    } else {
+      throw new Error(`Invalid Smile key token 0x${token.toString(16)} at offset ${reader.offset - 1}`)
+    }
+    this.addShared(this.sharedNames, key)
+    return key
+  }
+}
+
+/**
+ * Writes Smile without back references, which are optional for the encoder.
+ */
+class SmileEncoder {
+  private readonly writer: Writer
+  private readonly stack: Set<object>
+
+  constructor () {
+    this.writer = new Writer()
+    this.stack = new Set()
+  }
+
+  encode (value: unknown): Buffer {
+    for (const byte of SMILE_HEADER) this.writer.byte(byte)
+    // version 0, 7 bit binary, no shared names or values
+    this.writer.byte(0x00)
+    this.value(value)
+    return this.writer.toBuffer()
+  }
+
+  private vint (value: bigint): void {
+    const bytes = [0x80 | Number(value & BigInt(0x3f))]
+    for (value >>= BigInt(6); value > BigInt(0); value >>= BigInt(7)) bytes.unshift(Number(value & BigInt(0x7f)))
+    for (const byte of bytes) this.writer.byte(byte)
+  }
+
+  /** Writes `count` bytes holding 7 bits each of a big-endian integer. */
+  private sevenBits (value: bigint, count: number): void {
+    for (let i = count - 1; i >= 0; i--) {
+      this.writer.byte(Number((value >> BigInt(i * 7)) & BigInt(0x7f)))
+    }
+  }
+
+  private sevenBitBinary (bytes: Uint8Array): void {
+    this.vint(BigInt(bytes.length))
+    for (let offset = 0; offset < bytes.length; offset += 7) {
+      const size = Math.min(7, bytes.length - offset)
+      let value = BigInt(0)
+      for (let i = 0; i < size; i++) value = (value << BigInt(8)) | BigInt(bytes[offset + i])
+      this.sevenBits(value >> BigInt(size), size)
+      this.writer.byte(Number(value & BigInt((1 << size) - 1)))
+    }
+  }
+
+  private string (value: string): void {
+    const length = Buffer.byteLength(value)
+    const ascii = length === value.length
+    if (length === 0) {
+      this.writer.byte(0x20)
+      return
+    }
+    if (ascii && length <= 32) {
+      this.writer.byte(0x40 + length - 1)
+    } else if (ascii && length <= 64) {
+      this.writer.byte(0x60 + length - 33)
+    } else if (!ascii && length <= 33) {
+      this.writer.byte(0x80 + length - 2)
+    } else if (!ascii && length <= 65) {
+      this.writer.byte(0xa0 + length - 34)
+    } else {
+      this.writer.byte(ascii ? 0xe0 : 0xe4)
+      this.writer.utf8(value, length)
+      this.writer.byte(SMILE_END_OF_STRING)
+      return
+    }
+    this.writer.utf8(value, length)
+  }
+
+  private key (value: string): void {
+    const length = Buffer.byteLength(value)
+    const ascii = length === value.length
+    if (length === 0) {
+      this.writer.byte(0x20)
+      return
+    }
+    if (ascii && length <= 64) {
+      this.writer.byte(0x80 + length - 1)
+    } else if (!ascii && length <= 57) {
+      this.writer.byte(0xc0 + length - 2)
+    } else {
+      this.writer.byte(0x34)
+      this.writer.utf8(value, length)
+      this.writer.byte(SMILE_END_OF_STRING)
+      return
+    }
+    this.writer.utf8(value, length)
+  }
+
+  private integer (value: bigint): void {
+    if (value >= -BigInt(16) && value <= BigInt(15)) {
+      this.writer.byte(0xc0 + zigzagEncode32(Number(value)))
+    } else if (value >= BigInt(MIN_INT32) && value <= BigInt(MAX_INT32)) {
+      this.writer.byte(0x24)
+      this.vint(BigInt(zigzagEncode32(Number(value))))
+    } else if (BigInt.asIntN(64, value) === value) {
+      this.writer.byte(0x25)
+      this.vint(BigInt.asUintN(64, (value << BigInt(1)) ^ (value >> BigInt(63))))
+    } else {
+      this.writer.byte(0x26)
+      this.sevenBitBinary(bigIntToBytes(value))
+    }
+  }
+
+  private value (value: any): void {
+    value = toJsonValue(value)
+    if (value == null) {
+      this.writer.byte(0x21)
+      return
+    }
+    switch (typeof value) {
+      case 'boolean':
+        this.writer.byte(value ? 0x23 : 0x22)
+        return
+      case 'number':
+        if (isInteger(value) && Number.isSafeInteger(value)) {
+          this.integer(BigInt(value))
+        } else {
+          const bits = Buffer.allocUnsafe(8)
+          bits.writeDoubleBE(value)
+          this.writer.byte(0x29)
+          this.sevenBits(bits.readBigUInt64BE(), 10)
+        }
+        return
+      case 'bigint':
+        this.integer(value)
+        return
+      case 'string':
+        this.string(value)
+        return
+    }
+    if (value instanceof Uint8Array) {
+      this.writer.byte(0xe8)
+      this.sevenBitBinary(value)
+      return
+    }
+    if (this.stack.has(value)) {
+      throw new TypeError('Converting circular structure to Smile')
+    }
+    this.stack.add(value)
+    if (Array.isArray(value)) {
+      this.writer.byte(0xf8)
+      for (const item of value) this.value(item)
+      this.writer.byte(0xf9)
+    } else {
+      this.writer.byte(0xfa)
+      for (const key of Object.keys(value)) {
+        const item = toJsonValue(value[key])
+        if (item === undefined) continue
+        this.key(key)
+        this.value(item)
+      }
+      this.writer.byte(0xfb)
+    }
+    this.stack.delete(value)
+  }
+}
+
+/**
+ * Encodes a value to Smile, following the JSON.stringify rules.
+ */
+export function encodeSmile (value: unknown): Buffer {
+  return new SmileEncoder().encode(value)
+}
+
+/**
+ * Decodes a Smile document, including its shared names and values.
+ * Integers out of the safe integer range follow the `largeIntegers` strategy.
+ */
+export function decodeSmile<T = unknown> (data: Buffer, options: DecodeOptions): T {
+  return new SmileDecoder(data, options).decode() as T
+}
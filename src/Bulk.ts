@@ -0,0 +1,83 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Debug from 'debug'
+import { ConfigurationError } from './errors'
+import type Serializer from './Serializer'
+
+const debug = Debug('elasticsearch')
+
+/** Default size of a bulk body, in bytes, before it is sent. */
+export const DEFAULT_FLUSH_BYTES = 5 * 1024 * 1024
+
+/**
+ * A single bulk operation: the action line, followed by the source line
+ * for `index`, `create` and `update` actions.
+ */
+export type BulkOperation = [action: Record<string, any> | string] | [action: Record<string, any> | string, source: Record<string, any> | string]
+
+export interface BulkSplitOptions {
+  /**
+   * Sends the bulk body once it reaches this many bytes. An operation bigger
+   * than this is sent on its own. Defaults to 5 MiB.
+   */
+  flushBytes?: number
+  /**
+   * Sends the bulk body once it holds this many operations. Unlimited by default.
+   */
+  flushOperations?: number
+}
+
+/**
+ * Groups a stream of bulk operations into ndjson bodies of at most `flushBytes`
+ * bytes and `flushOperations` operations. An action and its source always end
+ * up in the same body. Only one body is buffered at a time.
+ */
+export async function * splitBulk (
+  operations: AsyncIterable<BulkOperation> | Iterable<BulkOperation>,
+  serializer: Serializer,
+  opts: BulkSplitOptions = {}
+): AsyncGenerator<string, void, undefined> {
+  const flushBytes = opts.flushBytes ?? DEFAULT_FLUSH_BYTES
+  const flushOperations = opts.flushOperations ?? Infinity
+  if (!Number.isInteger(flushBytes) || flushBytes < 1) {
+    throw new ConfigurationError('The flushBytes option must be a positive integer')
+  }
+  if (flushOperations !== Infinity && (!Number.isInteger(flushOperations) || flushOperations < 1)) {
+    throw new ConfigurationError('The flushOperations option must be a positive integer')
+  }
+
+  let body = ''
+  let bytes = 0
+  let count = 0
+  for await (const operation of operations) {
+    if (!Array.isArray(operation) || operation[0] == null || operation.length > 2) {
+      throw new ConfigurationError('A bulk operation must be an array of an action and an optional source')
+    }
+    const ndjson = serializer.ndserialize(operation)
+    const size = Buffer.byteLength(ndjson)
+    if (count > 0 && bytes + size > flushBytes) {
+      debug('Flushing bulk body of %d operations and %d bytes', count, bytes)
+      yield body
+      body = ''
+      bytes = 0
+      count = 0
+    }
+    body += ndjson
+    bytes += size
+    count++
+    if (count >= flushOperations) {
+      debug('Flushing bulk body of %d operations and %d bytes', count, bytes)
+      yield body
+      body = ''
+      bytes = 0
+      count = 0
+    }
+  }
+  if (count > 0) {
+    debug('Flushing bulk body of %d operations and %d bytes', count, bytes)
+    yield body
+  }
+}
@@ -0,0 +1,130 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import zlib from 'node:zlib'
+import { Transform } from 'node:stream'
+import { promisify } from 'node:util'
+import { ConfigurationError } from './errors'
+
+const unzip = promisify(zlib.unzip)
+const brotliDecompress = promisify(zlib.brotliDecompress)
+
+export interface CompressionCodec {
+  /** The `content-encoding` token of the codec, for example `br`. */
+  name: string
+  compress: (data: string | Buffer) => Promise<Buffer>
+  /**
+   * Must stop and reject with a `RangeError` whose code is `ERR_BUFFER_TOO_LARGE`
+   * as soon as the output grows bigger than `maxOutputLength` bytes, like `node:zlib` does.
+   */
+  decompress: (data: Buffer, maxOutputLength: number) => Promise<Buffer>
+  createCompressStream: () => Transform
+  createDecompressStream: () => Transform
+}
+
+export const gzipCodec: CompressionCodec = {
+  name: 'gzip',
+  compress: promisify(zlib.gzip),
+  // also accepts deflate data, as the previous behavior
+  decompress: async (data, maxOutputLength) => await unzip(data, { maxOutputLength }),
+  createCompressStream: () => zlib.createGzip(),
+  createDecompressStream: () => zlib.createUnzip()
+}
+
+export const deflateCodec: CompressionCodec = {
+  name: 'deflate',
+  compress: promisify(zlib.deflate),
+  decompress: async (data, maxOutputLength) => await unzip(data, { maxOutputLength }),
+  createCompressStream: () => zlib.createDeflate(),
+  createDecompressStream: () => zlib.createUnzip()
+}
+
+export const brotliCodec: CompressionCodec = {
+  name: 'br',
+  compress: promisify(zlib.brotliCompress),
+  decompress: async (data, maxOutputLength) => await brotliDecompress(data, { maxOutputLength }),
+  createCompressStream: () => zlib.createBrotliCompress(),
+  createDecompressStream: () => zlib.createBrotliDecompress()
+}
+
+/** Zstandard is only available in `node:zlib` since Node.js v22.15.0. */
+export const zstdCodec: CompressionCodec | null = typeof zlib.zstdCompress === 'function'
+  ? {
+      name: 'zstd',
+      compress: promisify(zlib.zstdCompress),
+      decompress: async (data, maxOutputLength) => await promisify(zlib.zstdDecompress)(data, { maxOutputLength }),
+      createCompressStream: () => zlib.createZstdCompress(),
+      createDecompressStream: () => zlib.createZstdDecompress()
+    }
+  : null
+
+/**
+ * The codecs Transport can compress requests and decompress responses with,
+ * indexed by their `content-encoding` token.
+ */
+export class CompressionRegistry {
+  private readonly codecs: Map<string, CompressionCodec>
+
+  constructor (codecs: CompressionCodec[] = []) {
+    this.codecs = new Map()
+    for (const codec of [gzipCodec, deflateCodec, brotliCodec, zstdCodec]) {
+      if (codec != null) this.register(codec)
+    }
+    for (const codec of codecs) {
+      this.register(codec)
+    }
+  }
+
+  /**
+   * Adds a codec, replacing the codec with the same name if any.
+   */
+  register (codec: CompressionCodec): this {
+    this.codecs.set(codec.name.toLowerCase(), codec)
+    return this
+  }
+
+  unregister (name: string): this {
+    this.codecs.delete(name.toLowerCase())
+    return this
+  }
+
+  has (name: string): boolean {
+    return this.codecs.has(name.toLowerCase())
+  }
+
+  get (name: string): CompressionCodec {
+    const codec = this.codecs.get(name.toLowerCase())
+    if (codec == null) {
+      throw new ConfigurationError(`The compression codec '${name}' is not registered`)
+    }
+    return codec
+  }
+
+  /**
+   * Returns the codec needed to decode a response with the given `content-encoding`,
+   * or null if the response is not compressed or no codec is registered for it.
+   * Only a single encoding is supported.
+   */
+  fromContentEncoding (contentEncoding: string | string[] | undefined): CompressionCodec | null {
+    if (Array.isArray(contentEncoding)) contentEncoding = contentEncoding[0]
+    if (contentEncoding == null) return null
+    const name = contentEncoding.trim().toLowerCase()
+    if (name === '' || name === 'identity') return null
+    const codec = this.codecs.get(name)
+    if (codec != null) return codec
+    // kept for backward compatibility, as the header used to be matched with `includes`
+    if (name.includes('gzip')) return gzipCodec
+    if (name.includes('deflate')) return deflateCodec
+    return null
+  }
+
+  /**
+   * The `accept-encoding` header advertising the given codec first.
+   */
+  acceptEncoding (name: string): string {
+    const names = [name.toLowerCase(), 'gzip', 'deflate']
+    return [...new Set(names)].join(',')
+  }
+}
@@ -6,7 +6,9 @@
 import { EventEmitter } from 'node:events'
 import { ElasticsearchClientError, ConfigurationError } from './errors'
 import { ConnectionRequestOptions } from './connection'
-import { ResurrectEvent } from './pool'
+import { ResurrectEvent, CircuitBreakerEvent } from './pool'
+import { QueueEvent } from './RequestQueue'
+import { TokenEvent } from './TokenSource'
 import { DiagnosticResult, DiagnosticResultResponse } from './types'
 
 export type DiagnosticListener = (err: ElasticsearchClientError | null, meta: any | null) => void
@@ -14,6 +16,9 @@ export type DiagnosticListenerFull = (err: ElasticsearchClientError | null, meta
 export type DiagnosticListenerFullResponse = (err: ElasticsearchClientError | null, meta: DiagnosticResultResponse | null) => void
 export type DiagnosticListenerLight = (err: ElasticsearchClientError | null, meta: ConnectionRequestOptions | null) => void
 export type DiagnosticListenerResurrect = (err: ElasticsearchClientError | null, meta: ResurrectEvent | null) => void
+export type DiagnosticListenerCircuitBreaker = (err: ElasticsearchClientError | null, meta: CircuitBreakerEvent | null) => void
+export type DiagnosticListenerQueue = (err: ElasticsearchClientError | null, meta: QueueEvent | null) => void
+export type DiagnosticListenerToken = (err: ElasticsearchClientError | null, meta: TokenEvent | null) => void
 
 export enum events {
   RESPONSE = 'response',
@@ -21,7 +26,11 @@ export enum events {
   SNIFF = 'sniff',
   RESURRECT = 'resurrect',
   SERIALIZATION = 'serialization',
-  DESERIALIZATION = 'deserialization'
+  DESERIALIZATION = 'deserialization',
+  CIRCUIT_BREAKER = 'circuit-breaker',
+  QUEUE = 'queue',
+  DEQUEUE = 'dequeue',
+  TOKEN = 'token'
 }
 
 export default class Diagnostic extends EventEmitter {
@@ -31,6 +40,10 @@ export default class Diagnostic extends EventEmitter {
   on (event: 'sniff', listener: DiagnosticListenerFull): this
   on (event: 'deserialization', listener: DiagnosticListenerLight): this
   on (event: 'resurrect', listener: DiagnosticListenerResurrect): this
+  on (event: 'circuit-breaker', listener: DiagnosticListenerCircuitBreaker): this
+  on (event: 'queue', listener: DiagnosticListenerQueue): this
+  on (event: 'dequeue', listener: DiagnosticListenerQueue): this
+  on (event: 'token', listener: DiagnosticListenerToken): this
   on (event: string, listener: DiagnosticListener): this {
     assertSupportedEvent(event)
     super.on(event, listener)
@@ -43,6 +56,10 @@ export default class Diagnostic extends EventEmitter {
   once (event: 'sniff', listener: DiagnosticListenerFull): this
   once (event: 'deserialization', listener: DiagnosticListenerLight): this
   once (event: 'resurrect', listener: DiagnosticListenerResurrect): this
+  once (event: 'circuit-breaker', listener: DiagnosticListenerCircuitBreaker): this
+  once (event: 'queue', listener: DiagnosticListenerQueue): this
+  once (event: 'dequeue', listener: DiagnosticListenerQueue): this
+  once (event: 'token', listener: DiagnosticListenerToken): this
   once (event: string, listener: DiagnosticListener): this {
     assertSupportedEvent(event)
     super.once(event, listener)
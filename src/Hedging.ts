@@ -0,0 +1,194 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Debug from 'debug'
+import {
+  Connection,
+  ConnectionRequestParams,
+  ConnectionRequestOptions,
+  ConnectionRequestResponse
+} from './connection'
+import { isStream } from './connection/BaseConnection'
+
+const debug = Debug('elasticsearch')
+
+/** Read-only endpoints that can be safely sent twice, in addition to GET and HEAD requests. */
+export const HEDGEABLE_ENDPOINTS: ReadonlySet<string> = new Set([
+  'count', 'fleet.msearch', 'fleet.search', 'knn_search', 'msearch',
+  'rollup.rollup_search', 'search', 'search_mvt'
+])
+
+/** Number of recorded latencies needed before `percentile` is used. */
+export const HEDGING_MIN_SAMPLES = 20
+
+/** Number of recent latencies kept to compute `percentile`. */
+export const HEDGING_WINDOW_SIZE = 1000
+
+export interface HedgingOptions {
+  /**
+   * How long to wait for the first connection, in milliseconds, before sending
+   * a copy of the request to another connection. When `percentile` is also set,
+   * it is used until enough latencies have been recorded.
+   */
+  delay?: number | string
+  /**
+   * Uses the given percentile (between 0 and 100) of the recent latencies of
+   * hedgeable requests as the delay, for example `95`. Only the requests answered
+   * by their first connection are recorded.
+   */
+  percentile?: number
+  /**
+   * Endpoint names (`params.meta.name`) that can be hedged regardless of the
+   * HTTP method. Defaults to {@link HEDGEABLE_ENDPOINTS}.
+   */
+  endpoints?: Iterable<string>
+}
+
+export interface HedgedResponse {
+  connection: Connection
+  response: ConnectionRequestResponse
+  hedged: boolean
+}
+
+/** The outcome of a request of the race that is not returned or thrown by {@link hedgedRequest}. */
+export interface HedgeLoser {
+  connection: Connection
+  /** The error of the request, if it failed. */
+  error: Error | null
+  /** The response of the request, if it answered after the winner. */
+  response: ConnectionRequestResponse | null
+  /** How long the request took, in milliseconds. */
+  latency: number
+}
+
+export interface HedgedRequestOptions {
+  /** How long to wait for the primary connection before hedging, in milliseconds. */
+  delay: number
+  /** Returns the connection the copy of the request is sent to, or null to not hedge. */
+  getAlternate: () => Connection | null
+  /**
+   * Returns the request sent to the alternate connection, for example signed for
+   * it. Defaults to the request sent to the primary connection.
+   */
+  prepare?: (connection: Connection) => ConnectionRequestParams | Promise<ConnectionRequestParams>
+  /**
+   * Called with the outcome of every request that does not win the race, once it
+   * settles, so that its connection can be reported to the pool. The error of the
+   * primary connection is thrown instead when every request fails. A request
+   * aborted because the other one won has neither an error nor a response.
+   */
+  onLoser?: (loser: HedgeLoser) => void
+}
+
+/**
+ * Keeps a sliding window of request latencies to compute percentiles.
+ */
+export class LatencyTracker {
+  private readonly samples: Float64Array
+  private count: number
+  private next: number
+
+  constructor (size: number = HEDGING_WINDOW_SIZE) {
+    this.samples = new Float64Array(size)
+    this.count = 0
+    this.next = 0
+  }
+
+  record (latency: number): void {
+    this.samples[this.next] = latency
+    this.next = (this.next + 1) % this.samples.length
+    if (this.count < this.samples.length) this.count++
+  }
+
+  /**
+   * Returns the given percentile of the recorded latencies,
+   * or null if fewer than `minSamples` have been recorded.
+   */
+  percentile (percentile: number, minSamples: number = HEDGING_MIN_SAMPLES): number | null {
+    if (this.count === 0 || this.count < minSamples) return null
+    const sorted = this.samples.slice(0, this.count).sort()
+    const index = Math.min(this.count - 1, Math.max(0, Math.ceil(percentile / 100 * this.count) - 1))
+    return sorted[index]
+  }
+}
+
+/**
+ * Sends the request to `primary` and, if it has not answered within `delay`,
+ * sends a copy to the connection returned by `getAlternate`. The first response
+ * wins and the other request is aborted. If both requests fail, the error of the
+ * primary connection is thrown.
+ */
+export async function hedgedRequest (
+  primary: Connection,
+  params: ConnectionRequestParams,
+  options: ConnectionRequestOptions,
+  hedge: HedgedRequestOptions
+): Promise<HedgedResponse> {
+  const { delay, getAlternate, prepare, onLoser } = hedge
+  return await new Promise((resolve, reject) => {
+    const controllers: AbortController[] = []
+    let settled = false
+    let hedged = false
+    let pending = 0
+    const failures: HedgeLoser[] = []
+
+    const send = (connection: Connection, request: ConnectionRequestParams | Promise<ConnectionRequestParams>): void => {
+      const controller = new AbortController()
+      controllers.push(controller)
+      pending++
+      const start = Date.now()
+      const signal = options.signal != null
+        ? AbortSignal.any([options.signal, controller.signal])
+        : controller.signal
+      Promise.resolve(request)
+        .then(async request => await connection.request(request, { ...options, signal }))
+        .then(response => {
+          pending--
+          if (settled) {
+            // the loser may still resolve if the abort came too late
+            if (isStream(response.body)) response.body.destroy()
+            onLoser?.({ connection, error: null, response, latency: Date.now() - start })
+            return
+          }
+          settled = true
+          clearTimeout(timer)
+          for (const c of controllers) {
+            if (c !== controller) c.abort()
+          }
+          for (const failure of failures) onLoser?.(failure)
+          resolve({ connection, response, hedged })
+        }, err => {
+          pending--
+          const latency = Date.now() - start
+          if (settled) {
+            // aborted because the other request won
+            onLoser?.({ connection, error: null, response: null, latency })
+            return
+          }
+          failures.push({ connection, error: err, response: null, latency })
+          if (pending === 0) {
+            settled = true
+            clearTimeout(timer)
+            const primaryFailure = failures.find(failure => failure.connection === primary) as HedgeLoser
+            for (const failure of failures) {
+              if (failure !== primaryFailure) onLoser?.(failure)
+            }
+            reject(primaryFailure.error)
+          }
+        })
+    }
+
+    const timer = setTimeout(() => {
+      if (settled) return
+      const alternate = getAlternate()
+      if (alternate == null) return
+      debug(`Hedging request to connection '${alternate.id}' after ${delay}ms`)
+      hedged = true
+      send(alternate, prepare != null ? new Promise(resolve => resolve(prepare(alternate))) : params)
+    }, delay)
+
+    send(primary, params)
+  })
+}
@@ -0,0 +1,220 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { DeserializationError } from './errors'
+
+const QUOTE = 0x22
+const BACKSLASH = 0x5c
+const COMMA = 0x2c
+const COLON = 0x3a
+const OPEN_OBJECT = 0x7b
+const CLOSE_OBJECT = 0x7d
+const OPEN_ARRAY = 0x5b
+const CLOSE_ARRAY = 0x5d
+
+/** Number of characters of an oversized element kept in the error */
+const ELEMENT_PREVIEW_LENGTH = 1024
+
+interface Frame {
+  array: boolean
+  /** The key of the value being read, for objects. */
+  key: string | null
+  expectKey: boolean
+}
+
+function isWhitespace (c: number): boolean {
+  return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09
+}
+
+/**
+ * Scans a JSON document chunk by chunk and returns the raw bytes of each element
+ * of the array found at `path`, a list of object keys (an empty list selects a
+ * root array). Everything else is skipped without being buffered, so memory is
+ * bounded by the size of the largest element. The elements are not validated,
+ * that is left to the parser of each element.
+ */
+export class JsonArrayScanner {
+  private readonly path: string[]
+  private readonly maxElementSize: number
+  private readonly stack: Frame[]
+  private inString: boolean
+  private escape: boolean
+  /** Whether the string being read is a key that must be recorded. */
+  private inKey: boolean
+  private keyParts: Buffer[]
+  /** Stack size while inside the selected array, or -1. */
+  private targetDepth: number
+  private elementParts: Buffer[] | null
+  private elementSize: number
+  private primitive: boolean
+  private done: boolean
+
+  constructor (path: string[], maxElementSize: number) {
+    this.path = path
+    this.maxElementSize = maxElementSize
+    this.stack = []
+    this.inString = false
+    this.escape = false
+    this.inKey = false
+    this.keyParts = []
+    this.targetDepth = -1
+    this.elementParts = null
+    this.elementSize = 0
+    this.primitive = false
+    this.done = false
+  }
+
+  /**
+   * Returns the elements that have been completed by the given chunk.
+   */
+  write (chunk: Buffer): Buffer[] {
+    const elements: Buffer[] = []
+    let keyStart = 0
+    let elementStart = 0
+
+    const endElement = (end: number): void => {
+      const parts = this.elementParts as Buffer[]
+      parts.push(chunk.subarray(elementStart, end))
+      this.checkSize(this.elementSize + end - elementStart, parts)
+      elements.push(Buffer.concat(parts))
+      this.elementParts = null
+      this.elementSize = 0
+      this.primitive = false
+    }
+
+    for (let i = 0; i < chunk.length; i++) {
+      if (this.done) break
+      const c = chunk[i]
+
+      if (this.inString) {
+        if (this.escape) {
+          this.escape = false
+        } else if (c === BACKSLASH) {
+          this.escape = true
+        } else if (c === QUOTE) {
+          this.inString = false
+          if (this.inKey) {
+            this.inKey = false
+            this.keyParts.push(chunk.subarray(keyStart, i + 1))
+            this.top().key = JSON.parse(Buffer.concat(this.keyParts).toString())
+            this.keyParts = []
+          } else if (this.elementParts != null && this.stack.length === this.targetDepth) {
+            endElement(i + 1)
+          }
+        }
+        continue
+      }
+
+      if (this.elementParts != null && this.primitive &&
+          (c === COMMA || c === CLOSE_ARRAY || isWhitespace(c))) {
+        endElement(i)
+      }
+
+      if (isWhitespace(c)) continue
+
+      const frame = this.stack[this.stack.length - 1] as Frame | undefined
+
+      // the beginning of an element of the selected array
+      if (this.elementParts == null && this.stack.length === this.targetDepth &&
+          c !== COMMA && c !== CLOSE_ARRAY) {
+        this.elementParts = []
+        this.elementSize = 0
+        elementStart = i
+        this.primitive = c !== OPEN_OBJECT && c !== OPEN_ARRAY && c !== QUOTE
+      }
+
+      switch (c) {
+        case QUOTE:
+          this.inString = true
+          if (frame != null && !frame.array && frame.expectKey) {
+            frame.expectKey = false
+            // keys deeper than the path are never compared
+            if (this.stack.length <= this.path.length) {
+              this.inKey = true
+              keyStart = i
+            }
+          }
+          break
+        case COLON:
+          break
+        case COMMA:
+          if (frame != null && !frame.array) {
+            frame.expectKey = true
+            frame.key = null
+          }
+          break
+        case OPEN_OBJECT:
+          this.stack.push({ array: false, key: null, expectKey: true })
+          break
+        case OPEN_ARRAY:
+          if (this.targetDepth === -1 && this.matchesPath()) {
+            this.targetDepth = this.stack.length + 1
+          }
+          this.stack.push({ array: true, key: null, expectKey: false })
+          break
+        case CLOSE_OBJECT:
+        case CLOSE_ARRAY:
+          if (this.stack.length === this.targetDepth && c === CLOSE_ARRAY) {
+            // the end of the selected array, the rest of the document is skipped
+            this.done = true
+          }
+          this.stack.pop()
+          if (this.elementParts != null && !this.primitive && this.stack.length === this.targetDepth) {
+            endElement(i + 1)
+          }
+          break
+      }
+    }
+
+    if (this.inKey) {
+      this.keyParts.push(chunk.subarray(keyStart))
+    }
+    if (this.elementParts != null) {
+      const part = chunk.subarray(elementStart)
+      this.checkSize(this.elementSize + part.length, this.elementParts.concat(part))
+      this.elementParts.push(part)
+      this.elementSize += part.length
+    }
+    return elements
+  }
+
+  /**
+   * Returns the last element if the document ends with a primitive, and throws
+   * if the document has no array at the path or ended in the middle of it.
+   */
+  end (): Buffer[] {
+    if (this.elementParts != null && this.primitive) {
+      const element = Buffer.concat(this.elementParts)
+      this.elementParts = null
+      return [element]
+    }
+    if (this.targetDepth === -1) {
+      throw new DeserializationError(`The JSON document has no array at the path '${this.path.join('.')}'`, '')
+    }
+    if (!this.done) {
+      throw new DeserializationError('The JSON document ended before the end of the selected array', '')
+    }
+    return []
+  }
+
+  private top (): Frame {
+    return this.stack[this.stack.length - 1]
+  }
+
+  private matchesPath (): boolean {
+    if (this.stack.length !== this.path.length) return false
+    for (let i = 0; i < this.path.length; i++) {
+      if (this.stack[i].array || this.stack[i].key !== this.path[i]) return false
+    }
+    return true
+  }
+
+  private checkSize (size: number, parts: Buffer[]): void {
+    if (size > this.maxElementSize) {
+      const preview = Buffer.concat(parts).toString('utf8', 0, ELEMENT_PREVIEW_LENGTH)
+      throw new DeserializationError(`The JSON element is bigger than the maximum allowed size (${this.maxElementSize})`, preview)
+    }
+  }
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomBytes } from 'node:crypto'
+import { DecodeOptions, setProperty, toInteger } from './BinaryFormats'
+
+const QUOTE = 0x22
+const BACKSLASH = 0x5c
+const COMMA = 0x2c
+const COLON = 0x3a
+const OPEN_OBJECT = 0x7b
+const CLOSE_OBJECT = 0x7d
+const OPEN_ARRAY = 0x5b
+const CLOSE_ARRAY = 0x5d
+
+const NUMBER = /-?(?:0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y
+
+function isWhitespace (c: number): boolean {
+  return c === 0x20 || c === 0x0a || c === 0x0d || c === 0x09
+}
+
+/**
+ * A JSON parser that keeps the precision of integers out of the safe integer
+ * range, following the `largeIntegers` strategy, which JSON.parse cannot do
+ * before the source text access proposal. Keys go through the same prototype
+ * poisoning checks as the binary formats.
+ */
+class LosslessParser {
+  private readonly text: string
+  private readonly options: DecodeOptions
+  private position: number
+
+  constructor (text: string, options: DecodeOptions) {
+    this.text = text
+    this.options = options
+    this.position = 0
+  }
+
+  parse (): unknown {
+    const value = this.value()
+    this.skipWhitespace()
+    if (this.position < this.text.length) this.unexpected()
+    return value
+  }
+
+  private skipWhitespace (): void {
+    while (isWhitespace(this.text.charCodeAt(this.position))) this.position++
+  }
+
+  private unexpected (): never {
+    if (this.position >= this.text.length) {
+      throw new SyntaxError('Unexpected end of JSON input')
+    }
+    throw new SyntaxError(`Unexpected token ${this.text[this.position]} in JSON at position ${this.position}`)
+  }
+
+  private expect (c: number): void {
+    this.skipWhitespace()
+    if (this.text.charCodeAt(this.position) !== c) this.unexpected()
+    this.position++
+  }
+
+  private value (): unknown {
+    this.skipWhitespace()
+    switch (this.text.charCodeAt(this.position)) {
+      case OPEN_OBJECT:
+        return this.object()
+      case OPEN_ARRAY:
+        return this.array()
+      case QUOTE:
+        return this.string()
+      case 0x74: // t
+        return this.literal('true', true)
+      case 0x66: // f
+        return this.literal('false', false)
+      case 0x6e: // n
+        return this.literal('null', null)
+      default:
+        return this.number()
+    }
+  }
+
+  private object (): Record<string, unknown> {
+    const object: Record<string, unknown> = {}
+    this.position++
+    this.skipWhitespace()
+    if (this.text.charCodeAt(this.position) === CLOSE_OBJECT) {
+      this.position++
+      return object
+    }
+    while (true) {
+      this.skipWhitespace()
+      if (this.text.charCodeAt(this.position) !== QUOTE) this.unexpected()
+      const key = this.string()
+      this.expect(COLON)
+      setProperty(object, key, this.value(), this.options)
+      this.skipWhitespace()
+      const c = this.text.charCodeAt(this.position++)
+      if (c === CLOSE_OBJECT) return object
+      if (c !== COMMA) {
+        this.position--
+        this.unexpected()
+      }
+    }
+  }
+
+  private array (): unknown[] {
+    const array: unknown[] = []
+    this.position++
+    this.skipWhitespace()
+    if (this.text.charCodeAt(this.position) === CLOSE_ARRAY) {
+      this.position++
+      return array
+    }
+    while (true) {
+      array.push(this.value())
+      this.skipWhitespace()
+      const c = this.text.charCodeAt(this.position++)
+      if (c === CLOSE_ARRAY) return array
+      if (c !== COMMA) {
+        this.position--
+        this.unexpected()
+      }
+    }
+  }
+
+  private string (): string {
+    const start = this.position++
+    let escaped = false
+    while (this.position < this.text.length) {
+      const c = this.text.charCodeAt(this.position)
+      if (c === QUOTE) {
+        this.position++
+        // escape sequences are rare, leave them to JSON.parse
+        return escaped
+          ? JSON.parse(this.text.slice(start, this.position))
+          : this.text.slice(start + 1, this.position - 1)
+      }
+      if (c < 0x20) this.unexpected()
+      if (c === BACKSLASH) {
+        escaped = true
+        this.position++
+      }
+      this.position++
+    }
+    return this.unexpected()
+  }
+
+  private literal<T> (name: string, value: T): T {
+    if (!this.text.startsWith(name, this.position)) this.unexpected()
+    this.position += name.length
+    return value
+  }
+
+  private number (): number | bigint | string {
+    NUMBER.lastIndex = this.position
+    const match = NUMBER.exec(this.text)
+    if (match == null) return this.unexpected()
+    this.position = NUMBER.lastIndex
+    const value = Number(match[0])
+    if (match[1] != null || match[2] != null || Number.isSafeInteger(value)) {
+      return value
+    }
+    return toInteger(BigInt(match[0]), this.options)
+  }
+}
+
+/**
+ * Parses a JSON document, decoding the integers out of the safe integer range
+ * with the `largeIntegers` strategy of `options`.
+ */
+export function parseLossless<T = unknown> (text: string, options: DecodeOptions): T {
+  return new LosslessParser(text, options).parse() as T
+}
+
+/**
+ * Serializes a value to JSON like JSON.stringify, writing `BigInt` values as
+ * bare integers instead of throwing.
+ */
+export function stringifyLossless (value: unknown): string {
+  // bigints are written as strings behind a random marker, which are then unquoted
+  const marker = `__bigint_${randomBytes(8).toString('hex')}__`
+  let found = false
+  const json = JSON.stringify(value, (_key, value) => {
+    if (typeof value !== 'bigint') return value
+    found = true
+    return marker + value.toString()
+  })
+  if (!found) return json
+  return json.replace(new RegExp(`"${marker}(-?\\d+)"`, 'g'), '$1')
+}
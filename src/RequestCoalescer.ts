@@ -0,0 +1,128 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Debug from 'debug'
+import { RequestAbortedError } from './errors'
+import { TransportRequestParams, TransportRequestOptions } from './Transport'
+import { TransportResult } from './types'
+
+const debug = Debug('elasticsearch')
+
+interface SharedRequest {
+  promise: Promise<TransportResult>
+  controller: AbortController
+  callers: number
+}
+
+// the request options that change how the request is sent or how its result is read
+const RESULT_OPTIONS = [
+  'ignore', 'asArrow', 'compression', 'maxRetries', 'retryOnTimeout', 'retryOnTooManyRequests',
+  'requestTimeout', 'connectTimeout', 'headersTimeout', 'bodyIdleTimeout', 'totalTimeout',
+  'queueTimeout', 'maxResponseSize', 'maxCompressedResponseSize', 'maxPathLength', 'hedging',
+  'responseCache', 'redaction'
+] as const
+
+/**
+ * The default `requestKey` function. Only GET requests without a body
+ * that are not read as a stream are coalesced; the key is made of the
+ * method, path, querystring, headers, opaque id and the options that change
+ * the result, such as `ignore` or `maxRetries`. Requests with a `context`,
+ * a `retryPolicy` or a `retryBackoff` are not coalesced, since they cannot be compared.
+ */
+export function defaultRequestKey (params: TransportRequestParams, options: TransportRequestOptions): string | null {
+  if (params.method !== 'GET' || params.body != null || params.bulkBody != null) {
+    return null
+  }
+  // a streamed body can only be read once
+  if (options.asStream === true || options.asNdjson === true || options.asJsonStream != null ||
+      options.asArrowStream === true) {
+    return null
+  }
+  if (options.context != null || options.retryPolicy != null || options.retryBackoff != null) {
+    return null
+  }
+  return JSON.stringify([
+    params.method,
+    params.path,
+    sortKeys(params.querystring),
+    sortKeys(options.querystring),
+    sortKeys(options.headers, true),
+    options.opaqueId ?? null,
+    RESULT_OPTIONS.map(name => options[name] ?? null)
+  ])
+}
+
+/**
+ * Shares a single in-flight request between every caller that asks for the same key.
+ */
+export default class RequestCoalescer {
+  private readonly inFlight: Map<string, SharedRequest>
+
+  constructor () {
+    this.inFlight = new Map()
+  }
+
+  get size (): number {
+    return this.inFlight.size
+  }
+
+  /**
+   * Runs `send` unless a request with the same key is already in flight, in which case
+   * its result is shared. Aborting `signal` only rejects this caller; the shared request
+   * is aborted through the signal given to `send` once every caller has aborted.
+   */
+  async run (key: string, signal: AbortSignal | undefined, send: (signal: AbortSignal) => Promise<TransportResult>): Promise<TransportResult> {
+    let shared = this.inFlight.get(key)
+    if (shared == null) {
+      const controller = new AbortController()
+      const promise = send(controller.signal)
+      const entry: SharedRequest = { promise, controller, callers: 0 }
+      const cleanup = (): void => {
+        if (this.inFlight.get(key) === entry) this.inFlight.delete(key)
+      }
+      promise.then(cleanup, cleanup)
+      this.inFlight.set(key, entry)
+      shared = entry
+    } else {
+      debug(`Coalescing request with key ${key}`)
+    }
+
+    const entry = shared
+    entry.callers++
+    if (signal == null) {
+      return await entry.promise
+    }
+
+    return await new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        entry.callers--
+        if (entry.callers === 0) {
+          // nobody is waiting for the response anymore
+          if (this.inFlight.get(key) === entry) this.inFlight.delete(key)
+          entry.controller.abort()
+        }
+        reject(new RequestAbortedError('Request has been aborted by the user'))
+      }
+      if (signal.aborted) return onAbort()
+      signal.addEventListener('abort', onAbort, { once: true })
+      entry.promise.then(result => {
+        signal.removeEventListener('abort', onAbort)
+        resolve(result)
+      }, err => {
+        signal.removeEventListener('abort', onAbort)
+        reject(err)
+      })
+    })
+  }
+}
+
+function sortKeys (obj?: Record<string, any> | string, lowerCase: boolean = false): Array<[string, any]> | string | null {
+  if (obj == null) return null
+  if (typeof obj === 'string') return obj
+  return Object.keys(obj)
+    .filter(key => obj[key] !== undefined)
+    .map((key): [string, any] => [lowerCase ? key.toLowerCase() : key, obj[key]])
+    .sort((a, b) => a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0)
+}
@@ -0,0 +1,130 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Diagnostic from './Diagnostic'
+import { ElasticsearchClientError, ErrorOptions, QueueTimeoutError, RequestAbortedError } from './errors'
+import { DiagnosticResult } from './types'
+
+export interface QueueEvent {
+  name: string | symbol
+  request: { id: any }
+  context: any
+  /** Number of requests waiting in the queue, including this one when it is queued. */
+  queued: number
+  /** Number of requests currently running. */
+  inFlight: number
+  /** How long the request waited in the queue, in milliseconds. Only set on `dequeue`. */
+  waitTime?: number
+}
+
+export interface AcquireOptions {
+  result: DiagnosticResult
+  /** How long the request can wait in the queue, in milliseconds, or null to wait forever. */
+  timeout: number | null
+  signal?: AbortSignal
+  errorOptions?: ErrorOptions
+}
+
+interface Waiter {
+  resolve: () => void
+  reject: (err: ElasticsearchClientError) => void
+}
+
+/**
+ * Limits how many requests run at the same time; the others
+ * wait in a FIFO queue until a running request completes.
+ */
+export default class RequestQueue {
+  maxConcurrentRequests: number
+  inFlight: number
+  private readonly waiters: Waiter[]
+  private readonly diagnostic: Diagnostic
+
+  constructor (maxConcurrentRequests: number, diagnostic: Diagnostic) {
+    this.maxConcurrentRequests = maxConcurrentRequests
+    this.inFlight = 0
+    this.waiters = []
+    this.diagnostic = diagnostic
+  }
+
+  get queued (): number {
+    return this.waiters.length
+  }
+
+  /**
+   * Resolves once the request can run. Rejects with a `QueueTimeoutError` if it
+   * waited longer than `timeout`, or with a `RequestAbortedError` if `signal` aborts.
+   * Every successful call must be followed by a call to `release`.
+   */
+  async acquire (opts: AcquireOptions): Promise<void> {
+    if (this.inFlight < this.maxConcurrentRequests && this.waiters.length === 0) {
+      this.inFlight++
+      return
+    }
+
+    const { result, errorOptions } = opts
+    const { meta } = result
+    const enqueuedAt = Date.now()
+    const event = (): QueueEvent => ({
+      name: meta.name,
+      request: { id: meta.request.id },
+      context: meta.context,
+      queued: this.waiters.length,
+      inFlight: this.inFlight
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const done = (err: ElasticsearchClientError | null): void => {
+        if (timer !== undefined) clearTimeout(timer)
+        opts.signal?.removeEventListener('abort', onAbort)
+        const index = this.waiters.indexOf(waiter)
+        if (index > -1) this.waiters.splice(index, 1)
+        this.diagnostic.emit('dequeue', err, { ...event(), waitTime: Date.now() - enqueuedAt })
+        if (err != null) {
+          reject(err)
+        } else {
+          resolve()
+        }
+      }
+
+      const onAbort = (): void => done(new RequestAbortedError('Request has been aborted by the user', result, errorOptions))
+
+      const waiter: Waiter = {
+        resolve: () => done(null),
+        reject: done
+      }
+
+      if (opts.signal?.aborted === true) {
+        return reject(new RequestAbortedError('Request has been aborted by the user', result, errorOptions))
+      }
+
+      this.waiters.push(waiter)
+      this.diagnostic.emit('queue', null, event())
+
+      if (opts.timeout != null) {
+        const timeout = opts.timeout
+        timer = setTimeout(() => {
+          done(new QueueTimeoutError(`Request waited in the queue for more than ${timeout}ms`, result, errorOptions))
+        }, timeout)
+      }
+      opts.signal?.addEventListener('abort', onAbort, { once: true })
+    })
+  }
+
+  /**
+   * Hands the slot of a completed request to the next queued request, if any.
+   */
+  release (): void {
+    const waiter = this.waiters[0]
+    if (waiter != null) {
+      // the slot is handed over, so `inFlight` does not change
+      waiter.resolve()
+    } else {
+      this.inFlight--
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'node:http'
+import Debug from 'debug'
+import { ConnectionRequestParams } from './connection'
+import { TransportResult } from './types'
+import { toMs } from './time'
+
+const debug = Debug('elasticsearch')
+
+export interface ResponseCacheEntry {
+  body: any
+  statusCode: number
+  headers: http.IncomingHttpHeaders
+  /** When the entry expires, in milliseconds since the epoch. */
+  expires: number
+}
+
+/**
+ * Storage backend of the response cache. Every method can be synchronous or
+ * return a promise. Stores are expected to drop entries once `ttl` has elapsed,
+ * but Transport also ignores entries whose `expires` is in the past.
+ */
+export interface ResponseCacheStore {
+  get: (key: string) => ResponseCacheEntry | undefined | Promise<ResponseCacheEntry | undefined>
+  /** @param ttl How long the entry should be kept, in milliseconds. */
+  set: (key: string, entry: ResponseCacheEntry, ttl: number) => void | Promise<void>
+  delete: (key: string) => void | Promise<void>
+  clear: () => void | Promise<void>
+}
+
+export interface ResponseCacheOptions {
+  /** Where the responses are stored. Defaults to a {@link MemoryCacheStore}. */
+  store?: ResponseCacheStore
+  /** Maximum number of entries of the default store. Defaults to 1000. */
+  maxEntries?: number
+  /** How long GET responses are cached. When unset, only the endpoints listed in `ttls` are cached. */
+  ttl?: number | string | null
+  /** How long responses are cached per endpoint name (`params.meta.name`), overriding `ttl`. */
+  ttls?: Record<string, number | string | null>
+}
+
+// structuredClone turns a Buffer into a plain Uint8Array, so binary bodies are copied as Buffers
+function cloneBody (body: unknown): unknown {
+  return Buffer.isBuffer(body) ? Buffer.from(body) : structuredClone(body)
+}
+
+/**
+ * An in-memory least recently used cache.
+ */
+export class MemoryCacheStore implements ResponseCacheStore {
+  maxEntries: number
+  private readonly entries: Map<string, ResponseCacheEntry>
+
+  constructor (maxEntries: number = 1000) {
+    this.maxEntries = maxEntries
+    this.entries = new Map()
+  }
+
+  get size (): number {
+    return this.entries.size
+  }
+
+  get (key: string): ResponseCacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (entry == null) return undefined
+    this.entries.delete(key)
+    if (entry.expires <= Date.now()) return undefined
+    // move the entry to the most recently used position
+    this.entries.set(key, entry)
+    // callers can mutate the body they receive
+    return { ...entry, body: cloneBody(entry.body) }
+  }
+
+  set (key: string, entry: ResponseCacheEntry, ttl: number): void {
+    this.entries.delete(key)
+    this.entries.set(key, { ...entry, body: cloneBody(entry.body) })
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string
+      this.entries.delete(oldest)
+    }
+  }
+
+  delete (key: string): void {
+    this.entries.delete(key)
+  }
+
+  clear (): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * Caches the responses of GET requests, keyed on the method,
+ * path and serialized querystring.
+ */
+export default class ResponseCache {
+  store: ResponseCacheStore
+  private readonly ttl: number | null
+  private readonly ttls: Map<string, number | null>
+
+  constructor (opts: ResponseCacheOptions = {}) {
+    this.store = opts.store ?? new MemoryCacheStore(opts.maxEntries)
+    this.ttl = opts.ttl != null ? toMs(opts.ttl) : null
+    this.ttls = new Map()
+    for (const [name, ttl] of Object.entries(opts.ttls ?? {})) {
+      this.ttls.set(name, ttl != null ? toMs(ttl) : null)
+    }
+  }
+
+  /**
+   * Returns how long the response of a request should be cached, in milliseconds,
+   * or null if it should not be cached.
+   */
+  getTtl (params: ConnectionRequestParams, name?: string): number | null {
+    if (params.method !== 'GET') return null
+    if (params.body != null && params.body !== '') return null
+    const ttl = name != null && this.ttls.has(name) ? this.ttls.get(name) as number | null : this.ttl
+    return ttl != null && ttl > 0 ? ttl : null
+  }
+
+  getKey (params: ConnectionRequestParams): string {
+    const querystring = params.querystring != null && params.querystring !== ''
+      ? `?${params.querystring}`
+      : ''
+    return `${params.method} ${params.path}${querystring}`
+  }
+
+  /**
+   * Returns the cached entry, if any. A failing store is treated as a cache miss.
+   */
+  async get (key: string): Promise<ResponseCacheEntry | undefined> {
+    try {
+      const entry = await this.store.get(key)
+      if (entry == null || entry.expires <= Date.now()) return undefined
+      return entry
+    } catch (err: any) {
+      debug(`Could not read the response cache: ${err.message as string}`)
+      return undefined
+    }
+  }
+
+  /**
+   * Stores the response of a request. A failing store does not fail the request.
+   */
+  async set (key: string, result: TransportResult, ttl: number): Promise<void> {
+    try {
+      await this.store.set(key, {
+        body: result.body,
+        statusCode: result.statusCode,
+        headers: result.headers ?? {},
+        expires: Date.now() + ttl
+      }, ttl)
+    } catch (err: any) {
+      debug(`Could not write the response cache: ${err.message as string}`)
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'node:http'
+import { Connection } from './connection'
+
+export interface RetryContext {
+  /** How many retries have already been made, the same value as `meta.attempts`. */
+  attempts: number
+  maxRetries: number
+  /** The response status code, or `0` if the attempt failed before receiving a response. */
+  statusCode: number
+  headers: http.IncomingHttpHeaders
+  /** The error raised by the connection, or `null` if a response was received. */
+  error: Error | null
+  method: string
+  /** The endpoint name from `params.meta.name`, if any. */
+  name: string | null
+  connection: Connection
+  /** Number of connections in the pool. */
+  poolSize: number
+  retryOnTimeout: boolean
+  retryOnTooManyRequests: boolean
+  retryBackoff: (min: number, max: number, attempt: number) => number
+}
+
+/**
+ * Decides how Transport reacts to a failed attempt. It is consulted for every
+ * `ConnectionError` and `TimeoutError`, and for every HTTP response whose status
+ * code is not listed in the `ignore` request option.
+ */
+export interface RetryPolicy {
+  /**
+   * Whether the request should be retried. Transport only retries
+   * while `attempts` is lower than `maxRetries`.
+   */
+  shouldRetry: (ctx: RetryContext) => boolean
+  /**
+   * Whether the connection should be marked as dead. When a response has been
+   * received and this returns false, the connection is marked as alive.
+   */
+  shouldMarkDead: (ctx: RetryContext) => boolean
+  /**
+   * How long to wait, in milliseconds, before the next attempt.
+   * Only called when the request is going to be retried.
+   */
+  getDelay: (ctx: RetryContext) => number
+}
+
+/** The longest delay of the exponential backoff, in seconds. */
+const MAX_BACKOFF = 4
+
+export interface DefaultRetryPolicyOptions {
+  /**
+   * The longest delay honored for a `Retry-After` header, in milliseconds, so that
+   * a server cannot hold a request for hours. Defaults to the longest backoff, 4 seconds.
+   */
+  maxRetryAfter?: number
+}
+
+/**
+ * The default retry policy:
+ *   - `ConnectionError`, connect and TLS handshake timeouts included, marks the
+ *     connection as dead and is retried
+ *   - `TimeoutError` marks the connection as dead and is retried only if `retryOnTimeout` is enabled
+ *   - 502, 503 and 504 responses mark the connection as dead and are retried immediately
+ *   - 429 responses are retried only if `retryOnTooManyRequests` is enabled,
+ *     waiting for the `Retry-After` header, up to `maxRetryAfter`, or `retryBackoff`
+ * Connection errors are not delayed until every node in the pool has been tried.
+ */
+export class DefaultRetryPolicy implements RetryPolicy {
+  private readonly maxRetryAfter: number
+
+  constructor (opts: DefaultRetryPolicyOptions = {}) {
+    this.maxRetryAfter = opts.maxRetryAfter ?? MAX_BACKOFF * 1000
+  }
+
+  shouldRetry (ctx: RetryContext): boolean {
+    if (ctx.error != null) {
+      return ctx.error.name === 'ConnectionError' ||
+        (ctx.error.name === 'TimeoutError' && ctx.retryOnTimeout)
+    }
+    return isBadGateway(ctx.statusCode) ||
+      (ctx.statusCode === 429 && ctx.retryOnTooManyRequests)
+  }
+
+  shouldMarkDead (ctx: RetryContext): boolean {
+    if (ctx.error != null) {
+      return ctx.error.name === 'ConnectionError' || ctx.error.name === 'TimeoutError'
+    }
+    return isBadGateway(ctx.statusCode)
+  }
+
+  getDelay (ctx: RetryContext): number {
+    const attempt = ctx.attempts + 1
+    if (ctx.error == null && ctx.statusCode === 429) {
+      const retryAfter = parseRetryAfter(ctx.headers['retry-after'])
+      if (retryAfter != null) return Math.min(retryAfter * 1000, this.maxRetryAfter)
+      return ctx.retryBackoff(0, MAX_BACKOFF, attempt) * 1000
+    }
+    if (ctx.error == null || attempt < ctx.poolSize) {
+      // don't use exponential backoff until retrying on each node
+      return 0
+    }
+    // exponential backoff on retries, with jitter
+    return ctx.retryBackoff(0, MAX_BACKOFF, attempt) * 1000
+  }
+}
+
+function isBadGateway (statusCode: number): boolean {
+  return statusCode === 502 || statusCode === 503 || statusCode === 504
+}
+
+/**
+ * Parses the value of a `Retry-After` header, which can be either
+ * a number of seconds or an HTTP date.
+ * @param value The header value
+ * @returns The number of seconds to wait, or null if the header is missing or invalid
+ */
+export function parseRetryAfter (value?: string | string[]): number | null {
+  if (Array.isArray(value)) value = value[0]
+  if (value == null || value.trim() === '') return null
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim())
+  }
+  const date = Date.parse(value)
+  if (Number.isNaN(date)) return null
+  return Math.max(0, (date - Date.now()) / 1000)
+}
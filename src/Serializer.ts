@@ -4,18 +4,48 @@
  */
 
 import { stringify } from 'node:querystring'
+import buffer from 'node:buffer'
+import { Readable } from 'node:stream'
 import Debug from 'debug'
 import sjson from 'secure-json-parse'
 import { SerializationError, DeserializationError } from './errors'
-import { kJsonOptions } from './symbols'
+import { JsonArrayScanner } from './JsonStream'
+import { encodeCbor, decodeCbor, encodeSmile, decodeSmile, LargeIntegers } from './BinaryFormats'
+import { parseLossless, stringifyLossless } from './LosslessJson'
+import { ArrowStreamDecoder, ArrowTable, RecordBatch } from './Arrow'
+import { kJsonOptions, kLargeIntegers } from './symbols'
 
 const debug = Debug('elasticsearch')
 
 /** Number of bytes per IEEE-754 float32 value */
 const FLOAT32_BYTES = 4
 
+/** Number of characters of an oversized ndjson line kept in the error */
+const LINE_PREVIEW_LENGTH = 1024
+
+/** Integers out of the safe integer range have at least this many digits */
+const UNSAFE_INTEGER = /\d{16}/
+
 export interface SerializerOptions {
   enablePrototypePoisoningProtection?: boolean | 'proto' | 'constructor'
+  /**
+   * How integers out of the safe integer range, such as `long` and `unsigned_long`
+   * values, are deserialized: as a `number` that loses precision (the default),
+   * as a `BigInt`, or as a string. `BigInt` values are serialized as JSON integers.
+   */
+  largeIntegers?: LargeIntegers
+}
+
+/**
+ * The binary format of a content type that `encode` and `decode` support, if any.
+ */
+export function binaryFormat (contentType: string | string[] | undefined): 'cbor' | 'smile' | null {
+  if (Array.isArray(contentType)) contentType = contentType[0]
+  if (contentType == null) return null
+  contentType = contentType.toLowerCase()
+  if (contentType.includes('cbor')) return 'cbor'
+  if (contentType.includes('smile')) return 'smile'
+  return null
 }
 
 export default class Serializer {
@@ -24,12 +54,15 @@ export default class Serializer {
     constructorAction: 'error' | 'ignore'
   }
 
+  [kLargeIntegers]: LargeIntegers
+
   constructor (opts: SerializerOptions = {}) {
     const enabled = opts.enablePrototypePoisoningProtection ?? false
     this[kJsonOptions] = {
       protoAction: enabled === true || enabled === 'proto' ? 'error' : 'ignore',
       constructorAction: enabled === true || enabled === 'constructor' ? 'error' : 'ignore'
     }
+    this[kLargeIntegers] = opts.largeIntegers ?? 'number'
   }
 
   /**
@@ -38,7 +71,7 @@ export default class Serializer {
   serialize (object: Record<string, any>): string {
     debug('Serializing', object)
     try {
-      return JSON.stringify(object)
+      return this[kLargeIntegers] === 'number' ? JSON.stringify(object) : stringifyLossless(object)
     } catch (err: any) {
       throw new SerializationError(err.message, object)
     }
@@ -50,12 +83,51 @@ export default class Serializer {
   deserialize<T = unknown> (json: string): T {
     debug('Deserializing', json)
     try {
+      if (this[kLargeIntegers] !== 'number' && UNSAFE_INTEGER.test(json)) {
+        return parseLossless<T>(json, { ...this[kJsonOptions], largeIntegers: this[kLargeIntegers] })
+      }
       return sjson.parse(json, this[kJsonOptions])
     } catch (err: any) {
       throw new DeserializationError(err.message, json)
     }
   }
 
+  /**
+   * Serializes a record into the format of the given content type:
+   * a CBOR or Smile buffer, or a JSON string for any other content type
+   */
+  encode (object: Record<string, any>, contentType: string): string | Buffer {
+    const format = binaryFormat(contentType)
+    if (format == null) return this.serialize(object)
+    debug('Encoding', format, object)
+    try {
+      return format === 'cbor' ? encodeCbor(object) : encodeSmile(object)
+    } catch (err: any) {
+      throw new SerializationError(err.message, object)
+    }
+  }
+
+  /**
+   * Parses a body in the format of the given content type: CBOR, Smile,
+   * or JSON for any other content type, with the same prototype poisoning
+   * protection as `deserialize`
+   */
+  decode<T = unknown> (data: string | Buffer, contentType: string): T {
+    const format = binaryFormat(contentType)
+    if (format == null || typeof data === 'string') {
+      return this.deserialize<T>(data.toString())
+    }
+    debug('Decoding', format, data)
+    try {
+      const options = { ...this[kJsonOptions], largeIntegers: this[kLargeIntegers] }
+      return format === 'cbor'
+        ? decodeCbor<T>(data, options)
+        : decodeSmile<T>(data, options)
+    } catch (err: any) {
+      throw new DeserializationError(err.message, data.toString('base64'))
+    }
+  }
+
   /**
    * Serializes an array of records into a ndjson string
    */
@@ -76,6 +148,128 @@ export default class Serializer {
     return ndjson
   }
 
+  /**
+   * Serializes an iterable of records into a stream of ndjson, one line per record,
+   * without building the whole body in memory. Strings are written as they are, and
+   * arrays, such as bulk operations, are written one line per element.
+   * A record that cannot be serialized destroys the stream with a `SerializationError`.
+   */
+  ndserializeStream (
+    source: AsyncIterable<Record<string, any> | string | Array<Record<string, any> | string>> |
+    Iterable<Record<string, any> | string | Array<Record<string, any> | string>>
+  ): Readable {
+    debug('ndserializeStream')
+    const serializer = this // eslint-disable-line @typescript-eslint/no-this-alias
+    async function * lines (): AsyncGenerator<string, void, undefined> {
+      for await (const record of source) {
+        yield serializer.ndserialize(Array.isArray(record) ? record : [record])
+      }
+    }
+    return Readable.from(lines(), { objectMode: false })
+  }
+
+  /**
+   * Parses a stream of ndjson into an async iterable of records, one per line.
+   * Each line is parsed with the same prototype poisoning protection as `deserialize`,
+   * and a line longer than `maxLineSize` bytes throws a `DeserializationError`.
+   */
+  async * ndeserialize<T = unknown> (
+    source: AsyncIterable<Buffer | string>,
+    maxLineSize: number = buffer.constants.MAX_STRING_LENGTH
+  ): AsyncGenerator<T, void, undefined> {
+    debug('ndeserialize')
+    let pending: Buffer[] = []
+    let pendingSize = 0
+
+    const checkSize = (size: number, segment: Buffer): void => {
+      if (size > maxLineSize) {
+        const preview = Buffer.concat([...pending, segment]).toString('utf8', 0, LINE_PREVIEW_LENGTH)
+        throw new DeserializationError(`The ndjson line is bigger than the maximum allowed size (${maxLineSize})`, preview)
+      }
+    }
+
+    for await (const data of source) {
+      const chunk = typeof data === 'string' ? Buffer.from(data) : data
+      let start = 0
+      let end = chunk.indexOf(10)
+      while (end !== -1) {
+        const segment = chunk.subarray(start, end)
+        checkSize(pendingSize + segment.length, segment)
+        pending.push(segment)
+        const line = Buffer.concat(pending).toString().trim()
+        pending = []
+        pendingSize = 0
+        if (line !== '') yield this.deserialize<T>(line)
+        start = end + 1
+        end = chunk.indexOf(10, start)
+      }
+      if (start < chunk.length) {
+        const segment = chunk.subarray(start)
+        checkSize(pendingSize + segment.length, segment)
+        pending.push(segment)
+        pendingSize += segment.length
+      }
+    }
+
+    // the last line might not be terminated by a newline
+    const line = Buffer.concat(pending).toString().trim()
+    if (line !== '') yield this.deserialize<T>(line)
+  }
+
+  /**
+   * Parses the elements of the array found at `path` in a stream of JSON, for example
+   * `hits.hits`, without buffering the rest of the document. `path` is a dot separated
+   * list of object keys; an empty string selects a root array. Each element is parsed
+   * with the same prototype poisoning protection as `deserialize`, and an element
+   * longer than `maxElementSize` bytes throws a `DeserializationError`.
+   */
+  async * deserializeStream<T = unknown> (
+    source: AsyncIterable<Buffer | string>,
+    path: string,
+    maxElementSize: number = buffer.constants.MAX_STRING_LENGTH
+  ): AsyncGenerator<T, void, undefined> {
+    debug('deserializeStream', path)
+    const scanner = new JsonArrayScanner(path === '' ? [] : path.split('.'), maxElementSize)
+    for await (const data of source) {
+      const chunk = typeof data === 'string' ? Buffer.from(data) : data
+      for (const element of scanner.write(chunk)) {
+        yield this.deserialize<T>(element.toString())
+      }
+    }
+    for (const element of scanner.end()) {
+      yield this.deserialize<T>(element.toString())
+    }
+  }
+
+  /**
+   * Decodes a whole Arrow IPC stream, such as an ES|QL response in the `arrow` format,
+   * into its schema and record batches
+   */
+  decodeArrow<T = Record<string, unknown>> (data: Buffer): ArrowTable<T> {
+    debug('decodeArrow')
+    const decoder = new ArrowStreamDecoder(buffer.constants.MAX_LENGTH)
+    const batches = decoder.write(data) as Array<RecordBatch<T>>
+    return new ArrowTable<T>(decoder.end(), batches)
+  }
+
+  /**
+   * Decodes a stream of Arrow IPC messages into an async iterable of record batches,
+   * without buffering the whole stream. A message longer than `maxMessageSize`
+   * bytes throws a `DeserializationError`.
+   */
+  async * deserializeArrowStream<T = Record<string, unknown>> (
+    source: AsyncIterable<Buffer | string>,
+    maxMessageSize: number = buffer.constants.MAX_LENGTH
+  ): AsyncGenerator<RecordBatch<T>, void, undefined> {
+    debug('deserializeArrowStream')
+    const decoder = new ArrowStreamDecoder(maxMessageSize)
+    for await (const data of source) {
+      const chunk = typeof data === 'string' ? Buffer.from(data) : data
+      yield * decoder.write(chunk) as Array<RecordBatch<T>>
+    }
+    decoder.end()
+  }
+
   qserialize (object?: Record<string, any> | string): string {
     debug('qserialize', object)
     if (object == null) return ''
@@ -0,0 +1,246 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash, createHmac } from 'node:crypto'
+import * as http from 'node:http'
+import { ConfigurationError } from './errors'
+import { Connection, ConnectionRequestParams } from './connection'
+import { isStream } from './connection/BaseConnection'
+
+/**
+ * Signs the request of an attempt, right before it is sent, by changing its
+ * headers. It gets the final request, serialized and compressed, and the
+ * connection it is sent to, so a hedged copy sent to another node is signed again.
+ */
+export type RequestSigner = (request: ConnectionRequestParams, connection: Connection) => void | Promise<void>
+
+/** The payload hash of the bodies that cannot be read in advance, such as streams. */
+export const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+// headers that proxies may add, remove or change
+const UNSIGNABLE_HEADERS = new Set([
+  'authorization',
+  'cache-control',
+  'connection',
+  'expect',
+  'from',
+  'keep-alive',
+  'max-forwards',
+  'pragma',
+  'proxy-authorization',
+  'referer',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'x-amzn-trace-id'
+])
+
+export interface AwsCredentials {
+  accessKeyId: string
+  secretAccessKey: string
+  sessionToken?: string
+}
+
+export interface SigV4SignerOptions {
+  region: string
+  /** The signing name of the service, `es` for Amazon OpenSearch Service, `aoss` for Serverless. Defaults to `es`. */
+  service?: string
+  /** Static credentials, or a function resolving them before each signature so that they can rotate. */
+  credentials: AwsCredentials | (() => AwsCredentials | Promise<AwsCredentials>)
+}
+
+export interface HmacSignerOptions {
+  keyId: string
+  secret: string | Buffer
+  /** Defaults to `sha256`. */
+  algorithm?: 'sha256' | 'sha512'
+  /** The header carrying the signature. Defaults to `authorization`. */
+  header?: string
+}
+
+/** The parts of a request covered by a signature. */
+export interface CanonicalRequest {
+  method: string
+  /** The path as sent, already URI-encoded. */
+  path: string
+  querystring?: string
+  headers: http.IncomingHttpHeaders
+  /** The hex SHA-256 hash of the body, or `UNSIGNED-PAYLOAD`. */
+  payloadHash: string
+}
+
+export interface SigV4Scope {
+  date: Date
+  region: string
+  service: string
+}
+
+/** Encodes a string as specified by RFC 3986, leaving only the unreserved characters. */
+function encodeRfc3986 (value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+}
+
+function safeDecode (value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function sha256 (data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+/** The SHA-256 hash of a request body, or `UNSIGNED-PAYLOAD` for a stream. */
+export function payloadHash (body: ConnectionRequestParams['body']): string {
+  if (body == null || body === '') return sha256('')
+  if (isStream(body)) return UNSIGNED_PAYLOAD
+  return sha256(body)
+}
+
+/** The path sent by `connection`, with its path prefix. */
+function requestPath (request: ConnectionRequestParams, connection: Connection): string {
+  const pathPrefix = connection.url.pathname === '/' ? '' : connection.url.pathname.replace(/\/$/, '')
+  const path = pathPrefix + request.path
+  return path[0] === '/' ? path : `/${path}`
+}
+
+function canonicalQuery (querystring: string | undefined): string {
+  if (querystring == null || querystring === '') return ''
+  return querystring
+    .split('&')
+    .filter(pair => pair !== '')
+    .map(pair => {
+      const index = pair.indexOf('=')
+      const key = index === -1 ? pair : pair.slice(0, index)
+      const value = index === -1 ? '' : pair.slice(index + 1)
+      return [encodeRfc3986(safeDecode(key)), encodeRfc3986(safeDecode(value))]
+    })
+    .sort(([keyA, valueA], [keyB, valueB]) => keyA < keyB ? -1 : keyA > keyB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&')
+}
+
+function canonicalHeaders (headers: http.IncomingHttpHeaders): { canonical: string, signed: string } {
+  const values = new Map<string, string>()
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase()
+    if (value == null || UNSIGNABLE_HEADERS.has(key)) continue
+    const trimmed = (Array.isArray(value) ? value : [value]).map(v => String(v).trim().replace(/\s+/g, ' ')).join(',')
+    values.set(key, values.has(key) ? `${values.get(key) as string},${trimmed}` : trimmed)
+  }
+  const names = [...values.keys()].sort()
+  return {
+    canonical: names.map(name => `${name}:${values.get(name) as string}\n`).join(''),
+    signed: names.join(';')
+  }
+}
+
+function amzDate (date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '')
+}
+
+/**
+ * Computes the `authorization` header of AWS Signature Version 4. The headers,
+ * with lowercase names, must include `host` and `x-amz-date`.
+ */
+export function signV4 (request: CanonicalRequest, credentials: AwsCredentials, scope: SigV4Scope): string {
+  // the path segments are encoded once more, for every service but S3
+  const canonicalPath = request.path.split('/').map(segment => encodeRfc3986(segment)).join('/')
+  const { canonical, signed } = canonicalHeaders(request.headers)
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalPath,
+    canonicalQuery(request.querystring),
+    canonical,
+    signed,
+    request.payloadHash
+  ].join('\n')
+
+  const datetime = amzDate(scope.date)
+  const day = datetime.slice(0, 8)
+  const credentialScope = `${day}/${scope.region}/${scope.service}/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', datetime, credentialScope, sha256(canonicalRequest)].join('\n')
+
+  let key: Buffer = createHmac('sha256', `AWS4${credentials.secretAccessKey}`).update(day).digest()
+  for (const part of [scope.region, scope.service, 'aws4_request']) {
+    key = createHmac('sha256', key).update(part).digest()
+  }
+  const signature = createHmac('sha256', key).update(stringToSign).digest('hex')
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${credentialScope}, SignedHeaders=${signed}, Signature=${signature}`
+}
+
+/**
+ * Signs the requests with AWS Signature Version 4, as required by Amazon
+ * OpenSearch Service. Streamed bodies are sent with an unsigned payload.
+ */
+export function sigV4Signer (opts: SigV4SignerOptions): RequestSigner {
+  if (typeof opts.region !== 'string' || opts.region === '') {
+    throw new ConfigurationError('The SigV4 signer needs a region')
+  }
+  if (opts.credentials == null) {
+    throw new ConfigurationError('The SigV4 signer needs credentials')
+  }
+  const service = opts.service ?? 'es'
+
+  return async (request, connection) => {
+    const credentials = typeof opts.credentials === 'function' ? await opts.credentials() : opts.credentials
+    const date = new Date()
+    const headers = request.headers ?? {}
+    delete headers.authorization
+    headers.host = connection.url.host
+    headers['x-amz-date'] = amzDate(date)
+    headers['x-amz-content-sha256'] = payloadHash(request.body)
+    if (credentials.sessionToken != null) {
+      headers['x-amz-security-token'] = credentials.sessionToken
+    } else {
+      delete headers['x-amz-security-token']
+    }
+    headers.authorization = signV4({
+      method: request.method,
+      path: requestPath(request, connection),
+      querystring: request.querystring,
+      headers,
+      payloadHash: headers['x-amz-content-sha256']
+    }, credentials, { date, region: opts.region, service })
+    request.headers = headers
+  }
+}
+
+/**
+ * Signs the requests with an HMAC of the method, path, querystring, signed
+ * headers and body hash, canonicalized like AWS Signature Version 4. The
+ * signature header holds `HMAC-SHA256 Credential=<keyId>, SignedHeaders=<names>,
+ * Signature=<hex>`, and the signed `x-date` header holds the time of the signature.
+ */
+export function hmacSigner (opts: HmacSignerOptions): RequestSigner {
+  if (typeof opts.keyId !== 'string' || opts.secret == null || opts.secret.length === 0) {
+    throw new ConfigurationError('The HMAC signer needs a keyId and a secret')
+  }
+  const algorithm = opts.algorithm ?? 'sha256'
+  const header = (opts.header ?? 'authorization').toLowerCase()
+
+  return (request, connection) => {
+    const headers = request.headers ?? {}
+    headers[header] = undefined
+    headers.host = connection.url.host
+    headers['x-date'] = new Date().toISOString()
+    const { canonical, signed } = canonicalHeaders(headers)
+    const stringToSign = [
+      request.method.toUpperCase(),
+      requestPath(request, connection),
+      canonicalQuery(request.querystring),
+      canonical,
+      signed,
+      payloadHash(request.body)
+    ].join('\n')
+    const signature = createHmac(algorithm, opts.secret).update(stringToSign).digest('hex')
+    headers[header] = `HMAC-${algorithm.toUpperCase()} Credential=${opts.keyId}, SignedHeaders=${signed}, Signature=${signature}`
+    request.headers = headers
+  }
+}
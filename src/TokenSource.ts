@@ -0,0 +1,194 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { request, Agent, ProxyAgent, Dispatcher } from 'undici'
+import { ConnectionOptions as TlsConnectionOptions } from 'node:tls'
+import Diagnostic from './Diagnostic'
+import { ConfigurationError, TokenRequestError } from './errors'
+import { AuthCredentials } from './AuthProvider'
+
+/** Default timeout of a token request, in milliseconds. */
+export const DEFAULT_TOKEN_TIMEOUT = 30 * 1000
+
+const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer'
+
+/** The OAuth2 client credentials grant (RFC 6749, section 4.4). */
+export interface ClientCredentialsGrant {
+  type: 'client_credentials'
+  clientId: string
+  clientSecret: string
+  /**
+   * How the client authenticates to the token endpoint: with a basic
+   * `authorization` header (the default), or in the form body.
+   */
+  clientAuthentication?: 'basic' | 'body'
+}
+
+/** Exchanges a signed JWT assertion for an access token (RFC 7523). */
+export interface JwtBearerGrant {
+  type: 'jwt_bearer'
+  /**
+   * The signed JWT, or a function returning a new one for each token request,
+   * since assertions are usually short-lived.
+   */
+  assertion: string | (() => string | Promise<string>)
+}
+
+export interface TokenSourceOptions {
+  /** The token endpoint of the authorization server. */
+  tokenUrl: string | URL
+  grant: ClientCredentialsGrant | JwtBearerGrant
+  scope?: string | string[]
+  audience?: string
+  /** Timeout of a token request, in milliseconds. Defaults to 30 seconds. */
+  timeout?: number
+  /**
+   * How long before the token expires it is refreshed, in milliseconds
+   * or as a duration string. At most half of its lifetime. Defaults to 1 minute.
+   */
+  refreshBefore?: number | string
+  /**
+   * The undici dispatcher of the token requests, for example an `Agent` with
+   * custom TLS options or a `ProxyAgent`. Defaults to one built from the `tls`
+   * and `proxy` options of the connection pool. The `caFingerprint` option
+   * pins the certificate of Elasticsearch, so it does not apply to the token endpoint.
+   */
+  dispatcher?: Dispatcher
+}
+
+/** The options of the connection pool the token requests default to. */
+export interface TokenConnectionOptions {
+  tls?: TlsConnectionOptions
+  proxy?: string | URL
+}
+
+export interface TokenEvent {
+  tokenUrl: string
+  grant: 'client_credentials' | 'jwt_bearer'
+  /** The status code of the token endpoint, if it answered. */
+  statusCode: number | null
+  /** The lifetime of the token in seconds, as sent by the token endpoint. */
+  expiresIn: number | null
+  /** How long the token request took, in milliseconds. */
+  duration: number
+}
+
+export function isTokenSourceOptions (opts: Record<string, any>): opts is TokenSourceOptions {
+  return opts.tokenUrl != null
+}
+
+/**
+ * Builds an auth provider that requests bearer tokens from an OAuth2 token
+ * endpoint. Every token request emits the `token` diagnostic event, with
+ * the error if it failed. Neither the secrets nor the tokens are part of it.
+ */
+export function tokenProvider (opts: TokenSourceOptions, diagnostic: Diagnostic, connection: TokenConnectionOptions = {}): () => Promise<AuthCredentials> {
+  const tokenUrl = new URL(opts.tokenUrl)
+  const { grant } = opts
+  if (grant?.type !== 'client_credentials' && grant?.type !== 'jwt_bearer') {
+    throw new ConfigurationError('The token grant type must be client_credentials or jwt_bearer')
+  }
+  const timeout = opts.timeout ?? DEFAULT_TOKEN_TIMEOUT
+  const dispatcher = opts.dispatcher ?? buildDispatcher(connection)
+
+  return async () => {
+    const start = Date.now()
+    const event: TokenEvent = {
+      tokenUrl: tokenUrl.toString(),
+      grant: grant.type,
+      statusCode: null,
+      expiresIn: null,
+      duration: 0
+    }
+    try {
+      const token = await requestToken(tokenUrl, opts, dispatcher, timeout, event)
+      event.duration = Date.now() - start
+      diagnostic.emit('token', null, event)
+      return token
+    } catch (err: any) {
+      event.duration = Date.now() - start
+      const error = err instanceof TokenRequestError
+        ? err
+        : new TokenRequestError(`Token request failed: ${err.message as string}`, undefined, undefined, { redaction: { type: 'replace' }, cause: err })
+      diagnostic.emit('token', error, event)
+      throw error
+    }
+  }
+}
+
+// without tls or proxy options, the global dispatcher of undici is used
+function buildDispatcher ({ tls, proxy }: TokenConnectionOptions): Dispatcher | undefined {
+  if (proxy != null) {
+    return new ProxyAgent({ uri: proxy.toString(), requestTls: tls as ProxyAgent.Options['requestTls'] })
+  }
+  if (tls != null) {
+    return new Agent({ connect: tls as Agent.Options['connect'] })
+  }
+  return undefined
+}
+
+async function requestToken (tokenUrl: URL, opts: TokenSourceOptions, dispatcher: Dispatcher | undefined, timeout: number, event: TokenEvent): Promise<AuthCredentials> {
+  const { grant } = opts
+  const form = new URLSearchParams()
+  const headers: Record<string, string> = {
+    'content-type': 'application/x-www-form-urlencoded',
+    accept: 'application/json'
+  }
+
+  if (grant.type === 'client_credentials') {
+    form.set('grant_type', 'client_credentials')
+    if (grant.clientAuthentication === 'body') {
+      form.set('client_id', grant.clientId)
+      form.set('client_secret', grant.clientSecret)
+    } else {
+      // the credentials are form-encoded before being encoded in base64 (RFC 6749, section 2.3.1)
+      const credentials = `${encodeURIComponent(grant.clientId)}:${encodeURIComponent(grant.clientSecret)}`
+      headers.authorization = `Basic ${Buffer.from(credentials).toString('base64')}`
+    }
+  } else {
+    form.set('grant_type', JWT_BEARER_GRANT_TYPE)
+    form.set('assertion', typeof grant.assertion === 'function' ? await grant.assertion() : grant.assertion)
+  }
+  if (opts.scope != null) {
+    form.set('scope', Array.isArray(opts.scope) ? opts.scope.join(' ') : opts.scope)
+  }
+  if (opts.audience != null) {
+    form.set('audience', opts.audience)
+  }
+
+  const response = await request(tokenUrl, {
+    method: 'POST',
+    headers,
+    body: form.toString(),
+    headersTimeout: timeout,
+    bodyTimeout: timeout,
+    dispatcher
+  })
+  event.statusCode = response.statusCode
+  const text = await response.body.text()
+  let body: any
+  try {
+    body = JSON.parse(text)
+  } catch {
+    body = text
+  }
+
+  if (response.statusCode < 200 || response.statusCode >= 300) {
+    const reason = typeof body === 'object' && body?.error != null
+      ? `${body.error as string}${body.error_description != null ? `: ${body.error_description as string}` : ''}`
+      : `status code ${response.statusCode}`
+    throw new TokenRequestError(`Token request failed with ${reason}`, response.statusCode, body)
+  }
+  if (typeof body?.access_token !== 'string') {
+    throw new TokenRequestError('The token endpoint did not return an access token', response.statusCode)
+  }
+
+  const expiresIn = Number(body.expires_in)
+  if (body.expires_in == null || !Number.isFinite(expiresIn)) {
+    return { bearer: body.access_token }
+  }
+  event.expiresIn = expiresIn
+  return { bearer: body.access_token, expiresAt: Date.now() + expiresIn * 1000 }
+}
@@ -6,11 +6,9 @@
 import Debug from 'debug'
 import os from 'node:os'
 import * as http from 'node:http'
-import zlib from 'node:zlib'
 import buffer from 'node:buffer'
-import { promisify } from 'node:util'
 import process from 'node:process'
-import ms from 'ms'
+import { setMaxListeners } from 'node:events'
 import {
   ConnectionError,
   RequestAbortedError,
@@ -18,19 +16,33 @@ import {
   ResponseError,
   ConfigurationError,
   TimeoutError,
+  DeadlineExceededError,
   ErrorOptions
 } from './errors'
 import { Connection, ConnectionRequestParams } from './connection'
-import { isBinary } from './connection/BaseConnection'
+import { isBinary, isStream } from './connection/BaseConnection'
 import Diagnostic from './Diagnostic'
-import Serializer from './Serializer'
-import { Readable as ReadableStream } from 'node:stream'
+import Serializer, { binaryFormat } from './Serializer'
+import { DefaultRetryPolicy, RetryPolicy, RetryContext } from './RetryPolicy'
+import { HedgingOptions, LatencyTracker, HEDGEABLE_ENDPOINTS, hedgedRequest } from './Hedging'
+import RequestQueue from './RequestQueue'
+import RequestCoalescer, { defaultRequestKey } from './RequestCoalescer'
+import ResponseCache, { ResponseCacheOptions } from './ResponseCache'
+import AuthProvider, { AuthProviderOptions } from './AuthProvider'
+import { TokenSourceOptions, isTokenSourceOptions, tokenProvider } from './TokenSource'
+import { RequestSigner } from './Signer'
+import { CompressionCodec, CompressionRegistry } from './Compression'
+import { BulkOperation, BulkSplitOptions, splitBulk } from './Bulk'
+import { toMs } from './time'
+import { Readable as ReadableStream, pipeline } from 'node:stream'
 import { BaseConnectionPool } from './pool'
 import {
   nodeFilterFn,
   nodeSelectorFn,
   generateRequestIdFn,
+  requestKeyFn,
   RequestBody,
+  RequestBodyFactory,
   RequestNDBody,
   TransportResult,
   Context
@@ -43,7 +55,9 @@ import {
   kSniffOnConnectionFault,
   kSniffEndpoint,
   kRequestTimeout,
+  kTotalTimeout,
   kRetryOnTimeout,
+  kRetryOnTooManyRequests,
   kCompression,
   kMaxRetries,
   kName,
@@ -65,21 +79,42 @@ import {
   kAcceptHeader,
   kRedaction,
   kRetryBackoff,
-  kMiddlewareEngine
+  kRetryPolicy,
+  kMiddlewareEngine,
+  kHedging,
+  kLatencyTracker,
+  kRequestQueue,
+  kQueueTimeout,
+  kCoalesceRequests,
+  kRequestKey,
+  kRequestCoalescer,
+  kResponseCache,
+  kCompressionRegistry,
+  kClosed,
+  kInFlight,
+  kCloseController,
+  kAuthProvider,
+  kSigner,
+  kOpenTelemetryMetrics
 } from './symbols'
 import { setTimeout } from 'node:timers/promises'
-import { MiddlewareEngine, ProductCheck, OpenTelemetryMiddleware, type OpenTelemetryOptions, MiddlewareContext } from './middleware'
+import { MiddlewareEngine, ProductCheck, OpenTelemetryMiddleware, type OpenTelemetryOptions, OpenTelemetryMetricsMiddleware, type OpenTelemetryMetricsOptions, MiddlewareContext, type Middleware } from './middleware'
 import { transportVersion } from './version.generated'
 
 const nodeVersion = process.versions.node
+const noop = (): void => {}
 const debug = Debug('elasticsearch')
-const gzip = promisify(zlib.gzip)
-const unzip = promisify(zlib.unzip)
-const { createGzip } = zlib
 
 const userAgent = `elastic-transport-js/${transportVersion} (${os.platform()} ${os.release()}-${os.arch()}; Node.js ${process.version})` // eslint-disable-line
 
-export type { OpenTelemetryOptions } from './middleware'
+export type { OpenTelemetryOptions, OpenTelemetryMetricsOptions } from './middleware'
+export type { HedgingOptions } from './Hedging'
+export type { ResponseCacheOptions, ResponseCacheStore, ResponseCacheEntry } from './ResponseCache'
+export type { CompressionCodec } from './Compression'
+export type { BulkOperation, BulkSplitOptions } from './Bulk'
+export type { AuthProviderOptions, AuthCredentials } from './AuthProvider'
+export type { TokenSourceOptions, ClientCredentialsGrant, JwtBearerGrant, TokenEvent } from './TokenSource'
+export type { RequestSigner, AwsCredentials, SigV4SignerOptions, HmacSignerOptions } from './Signer'
 
 export interface TransportOptions {
   diagnostic?: Diagnostic
@@ -87,8 +122,32 @@ export interface TransportOptions {
   serializer?: Serializer
   maxRetries?: number
   requestTimeout?: number | string | null
+  /**
+   * Caps the wall-clock time of a whole request, including every retry and the
+   * waits between them. Each attempt's timeout is reduced to the remaining budget,
+   * and the attempt still running when the budget runs out is aborted, even if its
+   * response is still being received. The request then fails with a `DeadlineExceededError`.
+   * Disabled when unset.
+   */
+  totalTimeout?: number | string | null
   retryOnTimeout?: boolean
-  compression?: boolean
+  /**
+   * Retries requests that receive a `429 Too Many Requests` response, waiting for
+   * the duration given by the `Retry-After` header, or for `retryBackoff` when the
+   * header is missing. The connection is not marked as dead. Disabled by default.
+   */
+  retryOnTooManyRequests?: boolean
+  /**
+   * Compresses the request bodies and asks for compressed responses. `true` uses
+   * gzip; a string selects a registered codec by its `content-encoding` name,
+   * for example `br` or `zstd`. Disabled by default.
+   */
+  compression?: boolean | string
+  /**
+   * Additional compression codecs, or replacements for the built-in gzip,
+   * deflate, brotli (`br`) and zstd codecs.
+   */
+  compressionCodecs?: CompressionCodec[]
   sniffInterval?: number | boolean
   sniffOnConnectionFault?: boolean
   sniffEndpoint?: string
@@ -119,7 +178,75 @@ export interface TransportOptions {
   }
   redaction?: RedactionOptions
   retryBackoff?: (min: number, max: number, attempt: number) => number
+  /**
+   * Decides which failures are retried, which mark the connection as dead and
+   * how long to wait between attempts. Defaults to {@link DefaultRetryPolicy}.
+   */
+  retryPolicy?: RetryPolicy
+  /**
+   * Sends a copy of slow idempotent reads (GET and HEAD requests, and the
+   * endpoints listed in `endpoints`) to a different connection; the first
+   * response wins and the other request is aborted. Disabled by default.
+   */
+  hedging?: HedgingOptions | false
+  /**
+   * Maximum number of requests that can run at the same time, retries included.
+   * Additional requests wait in a FIFO queue and emit the `queue` and `dequeue`
+   * diagnostic events. Unlimited by default.
+   */
+  maxConcurrentRequests?: number | null
+  /**
+   * How long a request can wait in the queue before failing with a
+   * `QueueTimeoutError`. Waits forever when unset.
+   */
+  queueTimeout?: number | string | null
+  /**
+   * Sends a single HTTP request for identical requests that are in flight at the
+   * same time and shares its result with every caller. Requests are identical
+   * when `requestKey` returns the same key for them. Disabled by default.
+   */
+  coalesceRequests?: boolean
+  /**
+   * Computes the key used by `coalesceRequests`; requests for which it returns
+   * null are never coalesced. Defaults to {@link defaultRequestKey}, which only
+   * coalesces GET requests without a body.
+   */
+  requestKey?: requestKeyFn
+  /**
+   * Caches the responses of successful GET requests, keyed on the method, path and
+   * serialized querystring; request headers are not part of the key. Cache hits
+   * return a result with `meta.cached` set to true and emit the `response`
+   * diagnostic event. Disabled by default.
+   */
+  responseCache?: ResponseCacheOptions | false
   openTelemetry?: OpenTelemetryOptions
+  /**
+   * Records the duration, count, retries, errors and body sizes of the requests, and
+   * the state of the connection pool, with the global OpenTelemetry `MeterProvider`.
+   * Independent of `openTelemetry`, so that metrics can be recorded without spans.
+   */
+  openTelemetryMetrics?: OpenTelemetryMetricsOptions
+  /**
+   * Middleware registered after the built-in ones, and ordered with them by their
+   * `priority`, `before` and `after` fields. See {@link Transport.middleware}
+   * to remove or replace middleware once the transport has been created.
+   */
+  middleware?: Middleware[]
+  /**
+   * Credentials resolved on the first request and cached, either by a `provider`
+   * function or from the token endpoint of an OAuth2 authorization server.
+   * When a request is rejected with a 401 status code, they are resolved again
+   * and the request is retried once, on top of `maxRetries`. They take precedence
+   * over the `auth` option of the connection pool, but not over an `authorization` header.
+   */
+  auth?: AuthProviderOptions | TokenSourceOptions
+  /**
+   * Signs every attempt of a request, after the `onRequest` middleware hooks, so
+   * that the signature covers its final headers, querystring and body. A retried
+   * request is signed again, and so is a hedged copy, for the node it is sent to.
+   * See `sigV4Signer` and `hmacSigner` for the built-in signers.
+   */
+  signer?: RequestSigner
   enableMetaHeader?: boolean
 }
 
@@ -141,12 +268,68 @@ export interface TransportRequestParams {
 export interface TransportRequestOptions {
   ignore?: number[]
   requestTimeout?: number | string | null
+  /**
+   * Per-request override for the `connectTimeout` of the connection: how long to
+   * wait for a new socket to connect, including the TLS handshake.
+   */
+  connectTimeout?: number | string | null
+  /**
+   * Per-request override for the `headersTimeout` of the connection: how long to
+   * wait for the response headers once the request has been sent.
+   */
+  headersTimeout?: number | string | null
+  /**
+   * Per-request override for the `bodyIdleTimeout` of the connection: how long to
+   * wait between two chunks of the response body.
+   */
+  bodyIdleTimeout?: number | string | null
+  /**
+   * Per-request override for {@link TransportOptions.totalTimeout}.
+   */
+  totalTimeout?: number | string | null
   retryOnTimeout?: boolean
+  /**
+   * Per-request override for {@link TransportOptions.retryOnTooManyRequests}.
+   */
+  retryOnTooManyRequests?: boolean
   maxRetries?: number
   asStream?: boolean
+  /**
+   * Returns the body of an ndjson response as an async iterable of the parsed
+   * records, instead of buffering it. Like `asStream`, the status code is not
+   * checked and the request is not retried. `maxResponseSize` limits the size
+   * of each line instead of the whole body.
+   */
+  asNdjson?: boolean
+  /**
+   * Returns the elements of the array found at the given path of a JSON response,
+   * for example `hits.hits`, as an async iterable that parses them one at a time,
+   * instead of buffering the whole body. `maxResponseSize` limits the size of each
+   * element instead of the whole body. An error response whose status code is not
+   * ignored is read whole and handled as usual, so it is retried or fails with a
+   * `ResponseError`, and the iterable throws a `DeserializationError` if the
+   * document has no array at the path.
+   */
+  asJsonStream?: string
+  /**
+   * Decodes an Arrow response, such as an ES|QL response in the `arrow` format,
+   * into an `ArrowTable` of record batches that can be iterated row by row.
+   * Other responses are handled as usual.
+   */
+  asArrow?: boolean
+  /**
+   * Returns the record batches of an Arrow response as an async iterable that
+   * decodes them one at a time, instead of buffering the whole body. Like `asStream`,
+   * the status code is not checked and the request is not retried.
+   * `maxCompressedResponseSize` limits the size of each batch instead of the whole body.
+   */
+  asArrowStream?: boolean
   headers?: http.IncomingHttpHeaders
   querystring?: Record<string, any>
-  compression?: boolean
+  /**
+   * Per-request override for {@link TransportOptions.compression}.
+   */
+  compression?: boolean | string
   id?: any
   context?: Context
   opaqueId?: string
@@ -180,7 +363,28 @@ export interface TransportRequestOptions {
   meta?: boolean
   redaction?: RedactionOptions
   retryBackoff?: (min: number, max: number, attempt: number) => number
+  /**
+   * Per-request override for {@link TransportOptions.retryPolicy}.
+   */
+  retryPolicy?: RetryPolicy
+  /**
+   * Per-request override for {@link TransportOptions.hedging}.
+   */
+  hedging?: HedgingOptions | false
+  /**
+   * Per-request override for {@link TransportOptions.queueTimeout}.
+   */
+  queueTimeout?: number | string | null
+  /**
+   * Per-request override for {@link TransportOptions.coalesceRequests}.
+   */
+  coalesceRequests?: boolean
+  /**
+   * Set to false to neither read from nor write to the {@link TransportOptions.responseCache}.
+   */
+  responseCache?: boolean
   openTelemetry?: OpenTelemetryOptions
+  openTelemetryMetrics?: OpenTelemetryMetricsOptions
 }
 
 export interface TransportRequestOptionsWithMeta extends TransportRequestOptions {
@@ -202,6 +406,15 @@ export interface SniffOptions {
   context: any
 }
 
+export interface TransportCloseOptions {
+  /**
+   * How long to wait for the requests in flight before aborting them,
+   * in milliseconds or as a duration string. They are awaited until they
+   * complete by default, and aborted right away with `0`.
+   */
+  timeout?: number | string
+}
+
 export interface RedactionOptions {
   type: 'off' | 'replace' | 'remove'
   additionalKeys?: string[]
@@ -219,9 +432,12 @@ export default class Transport {
   [kOpaqueIdPrefix]: string | null
   [kName]: string | symbol
   [kMaxRetries]: number
-  [kCompression]: boolean
+  [kCompression]: string | null
+  [kCompressionRegistry]: CompressionRegistry
   [kRequestTimeout]: number | null
+  [kTotalTimeout]: number | null
   [kRetryOnTimeout]: boolean
+  [kRetryOnTooManyRequests]: boolean
   [kSniffEnabled]: boolean
   [kNextSniff]: number
   [kIsSniffing]: boolean
@@ -237,7 +453,22 @@ export default class Transport {
   [kAcceptHeader]: string
   [kRedaction]: RedactionOptions
   [kRetryBackoff]: (min: number, max: number, attempt: number) => number
+  [kRetryPolicy]: RetryPolicy
   [kMiddlewareEngine]: MiddlewareEngine
+  [kHedging]: HedgingOptions | null
+  [kLatencyTracker]: LatencyTracker
+  [kRequestQueue]: RequestQueue | null
+  [kQueueTimeout]: number | null
+  [kCoalesceRequests]: boolean
+  [kRequestKey]: requestKeyFn
+  [kRequestCoalescer]: RequestCoalescer
+  [kResponseCache]: ResponseCache | null
+  [kClosed]: Promise<void> | null
+  [kInFlight]: Set<Promise<any>>
+  [kCloseController]: AbortController
+  [kAuthProvider]: AuthProvider | null
+  [kSigner]: RequestSigner | null
+  [kOpenTelemetryMetrics]: OpenTelemetryMetricsMiddleware
 
   static sniffReasons = {
     SNIFF_ON_START: 'sniff-on-start',
@@ -273,12 +504,22 @@ export default class Transport {
       throw new ConfigurationError('The maxPathLength option must be a positive integer')
     }
 
+    if (opts.maxConcurrentRequests != null &&
+        (!Number.isInteger(opts.maxConcurrentRequests) || opts.maxConcurrentRequests < 1)) {
+      throw new ConfigurationError('The maxConcurrentRequests option must be a positive integer')
+    }
+
+    const compressionRegistry = new CompressionRegistry(opts.compressionCodecs)
+    const compression = opts.compression === true
+      ? 'gzip'
+      : (typeof opts.compression === 'string' ? compressionRegistry.get(opts.compression).name : null)
+
     this[kNodeFilter] = opts.nodeFilter ?? defaultNodeFilter
     this[kNodeSelector] = opts.nodeSelector ?? roundRobinSelector()
     this[kHeaders] = Object.assign({},
       { 'user-agent': userAgent },
       (opts.enableMetaHeader == null ? true : opts.enableMetaHeader) ? { 'x-elastic-client-meta': `et=${transportVersion},js=${nodeVersion}` } : null,
-      opts.compression === true ? { 'accept-encoding': 'gzip,deflate' } : null,
+      compression != null ? { 'accept-encoding': compressionRegistry.acceptEncoding(compression) } : null,
       lowerCaseHeaders(opts.headers)
     )
     this[kDiagnostic] = opts.diagnostic ?? new Diagnostic()
@@ -289,9 +530,12 @@ export default class Transport {
     this[kOpaqueIdPrefix] = opts.opaqueIdPrefix ?? null
     this[kName] = opts.name ?? 'elastic-transport-js'
     this[kMaxRetries] = typeof opts.maxRetries === 'number' ? opts.maxRetries : 3
-    this[kCompression] = opts.compression === true
+    this[kCompression] = compression
+    this[kCompressionRegistry] = compressionRegistry
     this[kRequestTimeout] = opts.requestTimeout != null ? toMs(opts.requestTimeout) : null
+    this[kTotalTimeout] = opts.totalTimeout != null ? toMs(opts.totalTimeout) : null
     this[kRetryOnTimeout] = opts.retryOnTimeout != null ? opts.retryOnTimeout : false
+    this[kRetryOnTooManyRequests] = opts.retryOnTooManyRequests ?? false
     this[kSniffInterval] = opts.sniffInterval ?? false
     this[kSniffEnabled] = typeof this[kSniffInterval] === 'number'
     this[kNextSniff] = this[kSniffEnabled] ? (Date.now() + (this[kSniffInterval] as number)) : 0
@@ -307,6 +551,34 @@ export default class Transport {
     this[kAcceptHeader] = opts.vendoredHeaders?.accept ?? 'application/json, text/plain'
     this[kRedaction] = opts.redaction ?? { type: 'replace', additionalKeys: [] }
     this[kRetryBackoff] = opts.retryBackoff ?? retryBackoff
+    this[kRetryPolicy] = opts.retryPolicy ?? new DefaultRetryPolicy()
+    this[kHedging] = opts.hedging !== false && opts.hedging != null ? opts.hedging : null
+    this[kLatencyTracker] = new LatencyTracker()
+    this[kRequestQueue] = opts.maxConcurrentRequests != null
+      ? new RequestQueue(opts.maxConcurrentRequests, this[kDiagnostic])
+      : null
+    this[kQueueTimeout] = opts.queueTimeout != null ? toMs(opts.queueTimeout) : null
+    this[kCoalesceRequests] = opts.coalesceRequests ?? false
+    this[kRequestKey] = opts.requestKey ?? defaultRequestKey
+    this[kRequestCoalescer] = new RequestCoalescer()
+    this[kResponseCache] = opts.responseCache !== false && opts.responseCache != null
+      ? new ResponseCache(opts.responseCache)
+      : null
+    if (opts.auth != null) {
+      const provider = isTokenSourceOptions(opts.auth) ? tokenProvider(opts.auth, this[kDiagnostic], { tls: opts.connectionPool._tls, proxy: opts.connectionPool._proxy }) : opts.auth.provider
+      this[kAuthProvider] = new AuthProvider(provider, opts.auth.refreshBefore != null ? toMs(opts.auth.refreshBefore) : undefined)
+    } else {
+      this[kAuthProvider] = null
+    }
+    if (opts.signer != null && typeof opts.signer !== 'function') {
+      throw new ConfigurationError('The signer must be a function')
+    }
+    this[kSigner] = opts.signer ?? null
+    this[kClosed] = null
+    this[kInFlight] = new Set()
+    this[kCloseController] = new AbortController()
+    // every request in flight listens to it
+    setMaxListeners(0, this[kCloseController].signal)
 
     const otelEnabledDefault = process.env.OTEL_ELASTICSEARCH_ENABLED != null ? (process.env.OTEL_ELASTICSEARCH_ENABLED.toLowerCase() !== 'false') : true
     const otelOptions: OpenTelemetryOptions = Object.assign({}, {
@@ -319,14 +591,24 @@ export default class Transport {
       otelOptions.captureSearchQuery = false
     }
 
+    const otelMetricsEnabledDefault = process.env.OTEL_ELASTICSEARCH_METRICS_ENABLED != null ? (process.env.OTEL_ELASTICSEARCH_METRICS_ENABLED.toLowerCase() !== 'false') : true
+    const otelMetricsOptions: OpenTelemetryMetricsOptions = Object.assign({}, {
+      enabled: otelMetricsEnabledDefault
+    }, opts.openTelemetryMetrics ?? {})
+    this[kOpenTelemetryMetrics] = new OpenTelemetryMetricsMiddleware(otelMetricsOptions, this[kConnectionPool], this[kName])
+
     // Middleware are always registered and self-gate on their own options, so
     // enablement (and rollback) stays driven by client config rather than which
     // middleware is registered.
     this[kMiddlewareEngine] = new MiddlewareEngine()
     this[kMiddlewareEngine].register(new OpenTelemetryMiddleware(otelOptions))
+    this[kMiddlewareEngine].register(this[kOpenTelemetryMetrics])
     this[kMiddlewareEngine].register(new ProductCheck({
       productCheck: this[kProductCheck]
     }))
+    for (const middleware of opts.middleware ?? []) {
+      this[kMiddlewareEngine].register(middleware)
+    }
 
     if (opts.sniffOnStart === true) {
       this.sniff({
@@ -371,10 +653,87 @@ export default class Transport {
     return this[kDiagnostic]
   }
 
+  /**
+   * The middleware engine, to register, unregister or replace middleware,
+   * built-in ones included.
+   */
+  get middleware (): MiddlewareEngine {
+    return this[kMiddlewareEngine]
+  }
+
   async request<TResponse = unknown> (params: TransportRequestParams, options?: TransportRequestOptionsWithOutMeta): Promise<TResponse>
   async request<TResponse = unknown, TContext = any> (params: TransportRequestParams, options?: TransportRequestOptionsWithMeta): Promise<TransportResult<TResponse, TContext>>
   async request<TResponse = unknown> (params: TransportRequestParams, options?: TransportRequestOptions): Promise<TResponse>
   async request (params: TransportRequestParams, options: TransportRequestOptions = {}): Promise<any> {
+    if (this[kClosed] != null) {
+      throw new RequestAbortedError('The transport has been closed')
+    }
+
+    // each request gets its own signal, aborted by the caller's signal or by close()
+    const [signal, unlink] = linkSignals(this[kCloseController].signal, options.signal)
+    const request = this.send(params, options, signal)
+    this[kInFlight].add(request)
+    try {
+      return await request
+    } finally {
+      this[kInFlight].delete(request)
+      unlink()
+    }
+  }
+
+  /**
+   * Closes the transport. New requests are rejected right away, while the
+   * requests in flight are given up to `timeout` to complete. The ones still
+   * running after it, including their retries and backoff delays, are aborted.
+   * Finally, every connection of the pool is closed.
+   */
+  async close (opts: TransportCloseOptions = {}): Promise<void> {
+    if (this[kClosed] == null) {
+      this[kClosed] = (async () => {
+        const timeout = opts.timeout != null ? toMs(opts.timeout) : null
+        if (this[kInFlight].size > 0) {
+          debug('Waiting for %d requests in flight', this[kInFlight].size)
+          const drained = Promise.allSettled(this[kInFlight])
+          if (timeout == null) {
+            await drained
+          } else if (timeout > 0) {
+            const timer = new AbortController()
+            await Promise.race([
+              drained.finally(() => timer.abort()),
+              setTimeout(timeout, undefined, { signal: timer.signal }).catch(() => {})
+            ])
+          }
+        }
+        if (this[kInFlight].size > 0) {
+          debug('Aborting %d requests in flight', this[kInFlight].size)
+        }
+        this[kCloseController].abort()
+        await Promise.allSettled(this[kInFlight])
+        this[kOpenTelemetryMetrics].close()
+        await this[kConnectionPool].empty()
+      })()
+    }
+    await this[kClosed]
+  }
+
+  private async send (params: TransportRequestParams, options: TransportRequestOptions, signal: AbortSignal): Promise<any> {
+    if (options.coalesceRequests ?? this[kCoalesceRequests]) {
+      const key = this[kRequestKey](params, options)
+      if (key != null) {
+        // the shared request ignores the caller's signal, so that
+        // one caller aborting does not fail the request for the others
+        const result = await this[kRequestCoalescer].run(key, options.signal, async signal => {
+          return await this.request(params, { ...options, signal, meta: true, coalesceRequests: false })
+        })
+        return options.meta === true ? result : result.body
+      }
+    }
+
+    const totalTimeout = options.totalTimeout !== undefined
+      ? (options.totalTimeout != null ? toMs(options.totalTimeout) : null)
+      : this[kTotalTimeout]
+    const deadline = totalTimeout != null ? Date.now() + totalTimeout : null
+
     const connectionParams: ConnectionRequestParams = {
       method: params.method,
       path: params.path
@@ -427,9 +786,19 @@ export default class Transport {
     // a copy of the stream to be able to send it again, but since we don't know in advance
     // the size of the stream, we risk to take too much memory.
     // Furthermore, copying every time the stream is very a expensive operation.
+    // A body factory can instead create a new stream for every attempt.
     const maxRetries = isStream(params.body ?? params.bulkBody) ? 0 : (typeof options.maxRetries === 'number' ? options.maxRetries : this[kMaxRetries])
-    const compression = typeof options.compression === 'boolean' ? options.compression : this[kCompression]
-    const signal = options.signal
+    const bodyFactory = isBodyFactory(params.body)
+      ? params.body
+      : (isBodyFactory(params.bulkBody) ? params.bulkBody : null)
+    const compressionName = options.compression === true
+      ? (this[kCompression] ?? 'gzip')
+      : (options.compression === false ? null : (options.compression ?? this[kCompression]))
+    const compression = compressionName != null ? this[kCompressionRegistry].get(compressionName) : null
+    const retryPolicy = options.retryPolicy ?? this[kRetryPolicy]
+    const hedging = options.hedging !== undefined
+      ? (options.hedging !== false ? options.hedging : null)
+      : this[kHedging]
     const maxResponseSize = options.maxResponseSize ?? this[kMaxResponseSize]
     const maxCompressedResponseSize = options.maxCompressedResponseSize ?? this[kMaxCompressedResponseSize]
 
@@ -449,20 +818,22 @@ export default class Transport {
     // handle json body
     if (params.body != null) {
       if (shouldSerialize(params.body)) {
+        headers['content-type'] = headers['content-type'] ?? this[kJsonContentType]
+        headers.accept = headers.accept ?? this[kJsonContentType]
         try {
-          connectionParams.body = this[kSerializer].serialize(params.body)
+          // CBOR and Smile content types are encoded as such
+          connectionParams.body = this[kSerializer].encode(params.body, headers['content-type'])
         } catch (err: any) {
           this[kDiagnostic].emit('request', err, result)
           throw err
         }
-        headers['content-type'] = headers['content-type'] ?? this[kJsonContentType]
-        headers.accept = headers.accept ?? this[kJsonContentType]
       } else {
         if (params.body !== '') {
           headers['content-type'] = headers['content-type'] ?? 'text/plain'
           headers.accept = headers.accept ?? this[kAcceptHeader]
         }
-        connectionParams.body = params.body
+        // the body of each attempt is created right before sending it
+        connectionParams.body = isBodyFactory(params.body) ? null : params.body
       }
 
     // handle ndjson body
@@ -475,7 +846,7 @@ export default class Transport {
           throw err
         }
       } else {
-        connectionParams.body = params.bulkBody
+        connectionParams.body = isBodyFactory(params.bulkBody) ? null : params.bulkBody
       }
 
       if (connectionParams.body !== '') {
@@ -514,23 +885,32 @@ export default class Transport {
       }
     }
 
+    // a codec selected for this request only also changes the accepted encodings
+    if (compression != null && typeof options.compression === 'string' && lowerCaseHeaders(options.headers)?.['accept-encoding'] == null) {
+      headers['accept-encoding'] = this[kCompressionRegistry].acceptEncoding(compression.name)
+    }
+
     // handle compression
-    if (connectionParams.body !== '' && connectionParams.body != null) {
+    if (bodyFactory != null) {
+      if (compression != null) {
+        headers['content-encoding'] = compression.name
+      }
+    } else if (connectionParams.body !== '' && connectionParams.body != null) {
       if (isStream(connectionParams.body)) {
-        if (compression) {
-          headers['content-encoding'] = 'gzip'
-          connectionParams.body = connectionParams.body.pipe(createGzip())
+        if (compression != null) {
+          headers['content-encoding'] = compression.name
+          connectionParams.body = connectionParams.body.pipe(compression.createCompressStream())
         }
-      } else if (compression) {
+      } else if (compression != null) {
         try {
-          connectionParams.body = await gzip(connectionParams.body)
+          connectionParams.body = await compression.compress(connectionParams.body)
         } catch (err: any) {
           /* istanbul ignore next */
           this[kDiagnostic].emit('request', err, result)
           /* istanbul ignore next */
           throw err
         }
-        headers['content-encoding'] = 'gzip'
+        headers['content-encoding'] = compression.name
         headers['content-length'] = '' + Buffer.byteLength(connectionParams.body) // eslint-disable-line
       } else {
         headers['content-length'] = '' + Buffer.byteLength(connectionParams.body) // eslint-disable-line
@@ -545,9 +925,37 @@ export default class Transport {
     }
 
     connectionParams.headers = headers
+    // CBOR and Smile responses are decoded only if asked for, otherwise they are returned as buffers
+    const acceptedFormat = binaryFormat(headers.accept)
+
+    const streamBody = options.asStream === true || options.asNdjson === true || options.asJsonStream != null ||
+      options.asArrowStream === true
+    const responseCache = options.responseCache !== false && !streamBody
+      ? this[kResponseCache]
+      : null
+    const cacheTtl = responseCache?.getTtl(connectionParams, params.meta?.name) ?? null
+    const cacheKey = responseCache != null && cacheTtl != null ? responseCache.getKey(connectionParams) : null
+    if (responseCache != null && cacheKey != null) {
+      const entry = await responseCache.get(cacheKey)
+      if (entry != null) {
+        result.body = entry.body
+        result.statusCode = entry.statusCode
+        result.headers = entry.headers
+        meta.cached = true
+        this[kDiagnostic].emit('response', null, result)
+        return returnMeta ? result : result.body
+      }
+    }
+
+    // `onRequest` changes to the headers and querystring only apply to one attempt
+    const baseHeaders = connectionParams.headers
+    const baseQuerystring = connectionParams.querystring
+    const authProvider = baseHeaders.authorization == null ? this[kAuthProvider] : null
+    // the credentials of the provider are refreshed at most once per request
+    let authRefreshed = false
 
     // Shared across all phases; `connection` and `attempts` are refreshed each
-    // retry attempt before `onResponse` runs.
+    // retry attempt before `onRequest` and `onResponse` run.
     const middlewareCtx: MiddlewareContext = {
       request: {
         method: connectionParams.method,
@@ -567,17 +975,76 @@ export default class Transport {
       }
     }
 
-    // Wrapped by the `around` chain (e.g. OpenTelemetry); `onResponse` still runs
-    // per attempt inside the loop.
-    const runRequest = async (): Promise<TransportResult> => {
+    const buildRetryContext = (error: Error | null): RetryContext => ({
+      attempts: meta.attempts,
+      maxRetries,
+      statusCode: error == null ? result.statusCode : 0,
+      headers: error == null ? result.headers : {},
+      error,
+      method: params.method,
+      name: params.meta?.name ?? null,
+      connection: meta.connection as Connection,
+      poolSize: this[kConnectionPool].size,
+      retryOnTimeout: this[kRetryOnTimeout],
+      retryOnTooManyRequests: options.retryOnTooManyRequests ?? this[kRetryOnTooManyRequests],
+      retryBackoff: options.retryBackoff ?? this[kRetryBackoff]
+    })
+
+    const deadlineExceeded = (attemptsRun: number, cause?: unknown): DeadlineExceededError => {
+      return new DeadlineExceededError(
+        `Request did not complete within the total timeout of ${totalTimeout as number}ms (${attemptsRun} attempt${attemptsRun === 1 ? '' : 's'})`,
+        result,
+        { ...errorOptions, cause }
+      )
+    }
+
+    // Returns false, without retrying, if waiting for the next attempt would exceed the deadline.
+    const retry = async (retryContext: RetryContext): Promise<boolean> => {
+      const delay = retryPolicy.getDelay(retryContext)
+      if (deadline != null && Date.now() + delay >= deadline) {
+        return false
+      }
+      middlewareCtx.meta.attempts = meta.attempts
+      await this[kMiddlewareEngine].executeOnRetry(middlewareCtx, {
+        error: retryContext.error,
+        statusCode: retryContext.statusCode,
+        delay
+      })
+      meta.attempts++
+      debug(`Retrying request, there are still ${maxRetries - meta.attempts} attempts`, params)
+      if (delay > 0) {
+        // an abort cuts the delay short, and the next attempt fails as aborted
+        await setTimeout(delay, undefined, { signal }).catch(() => {})
+      }
+      return true
+    }
+
+    // a copy of the request can only be sent if it is idempotent and its body can be sent twice
+    const hedgeable = hedging != null &&
+      !isStream(connectionParams.body) &&
+      bodyFactory == null &&
+      (params.method === 'GET' ||
+       params.method === 'HEAD' ||
+       (params.meta?.name != null && new Set(hedging.endpoints ?? HEDGEABLE_ENDPOINTS).has(params.meta.name)))
+
+    const abortedError = (cause?: Error): RequestAbortedError => {
+      const message = this[kCloseController].signal.aborted
+        ? 'The transport has been closed'
+        : 'Request has been aborted by the user'
+      return new RequestAbortedError(message, result, cause != null ? { ...errorOptions, cause } : errorOptions)
+    }
+
+    const runAttempts = async (): Promise<TransportResult> => {
+      // whether the current attempt timeout has been reduced to the remaining total timeout
+      let deadlineTimeout = false
+      // aborted once the total timeout runs out during the current attempt
+      let deadlineSignal: AbortSignal | null = null
       while (meta.attempts <= maxRetries) {
         // Capture start time for request duration tracking
         const startTime = process.hrtime.bigint()
 
         try {
-          if (signal?.aborted) { // eslint-disable-line
-            throw new RequestAbortedError('Request has been aborted by the user', result, errorOptions)
-          }
+          if (signal.aborted) throw abortedError()
 
           meta.connection = this.getConnection({
             requestId: meta.request.id,
@@ -587,23 +1054,125 @@ export default class Transport {
             throw new NoLivingConnectionsError('There are no living connections', result, errorOptions)
           }
 
-          this[kDiagnostic].emit('request', null, result)
-
           // set timeout defaults
           let timeout = options.requestTimeout ?? this[kRequestTimeout] ?? undefined
           if (timeout != null) timeout = toMs(timeout)
 
-          // perform the actual http request
-          let { statusCode, headers, body } = await meta.connection.request(connectionParams, {
+          // shrink the attempt timeout to what is left of the total timeout
+          deadlineTimeout = false
+          deadlineSignal = null
+          let attemptSignal = signal
+          if (deadline != null) {
+            const remaining = deadline - Date.now()
+            if (remaining <= 0) {
+              throw deadlineExceeded(meta.attempts)
+            }
+            if (timeout == null || remaining < timeout) {
+              timeout = remaining
+              deadlineTimeout = true
+            }
+            // the connection timeouts only fire when the socket is idle,
+            // so a response that keeps trickling in is cut off by a signal
+            deadlineSignal = AbortSignal.timeout(remaining)
+            attemptSignal = AbortSignal.any([signal, deadlineSignal])
+          }
+
+          if (bodyFactory != null) {
+            // release the stream of the previous attempt, if it has not been fully consumed
+            if (isStream(connectionParams.body)) connectionParams.body.destroy()
+            connectionParams.body = createBody(bodyFactory, compression)
+          }
+
+          connectionParams.headers = { ...baseHeaders }
+          connectionParams.querystring = baseQuerystring
+          const authorization = authProvider != null ? await authProvider.authorization() : null
+          if (authorization != null) connectionParams.headers.authorization = authorization
+          middlewareCtx.meta.connection = meta.connection
+          middlewareCtx.meta.attempts = meta.attempts
+          await this[kMiddlewareEngine].executeOnRequest(middlewareCtx, connectionParams)
+          const signer = this[kSigner]
+          if (signer != null) await signer(connectionParams, meta.connection)
+          if (signal.aborted) throw abortedError()
+
+          this[kDiagnostic].emit('request', null, result)
+
+          const connectionOptions = {
             requestId: meta.request.id,
             name: this[kName],
             context: meta.context,
             maxResponseSize,
             maxCompressedResponseSize,
-            signal,
+            signal: attemptSignal,
             timeout,
-            ...(options.asStream === true ? { asStream: true } : null)
-          })
+            ...(options.connectTimeout != null ? { connectTimeout: toMs(options.connectTimeout) } : null),
+            ...(options.headersTimeout != null ? { headersTimeout: toMs(options.headersTimeout) } : null),
+            ...(options.bodyIdleTimeout != null ? { bodyIdleTimeout: toMs(options.bodyIdleTimeout) } : null),
+            ...(streamBody ? { asStream: true } : null)
+          }
+
+          // perform the actual http request
+          let response
+          // whether the response is the one of the primary connection, measured from its own start
+          let primaryResponse = true
+          const hedgeDelay = hedgeable ? this.getHedgeDelay(hedging) : null
+          if (hedgeDelay != null) {
+            const primary = meta.connection
+            const hedged = await hedgedRequest(primary, connectionParams, connectionOptions, {
+              delay: hedgeDelay,
+              getAlternate: () => {
+                return this[kConnectionPool].getConnection({
+                  filter: connection => connection !== primary && this[kNodeFilter](connection),
+                  selector: this[kNodeSelector],
+                  requestId: meta.request.id,
+                  name: this[kName],
+                  context: meta.context,
+                  now: Date.now()
+                })
+              },
+              // the signature covers the host, so the copy is signed for its own connection
+              prepare: signer != null
+                ? async connection => {
+                  const request = { ...connectionParams, headers: { ...connectionParams.headers } }
+                  await signer(request, connection)
+                  return request
+                }
+                : undefined,
+              // the connection of the request that lost the race is judged like any other attempt
+              onLoser: ({ connection, error, response, latency }) => {
+                if (error == null && response == null) {
+                  this[kConnectionPool].release(connection)
+                  return
+                }
+                const retryContext: RetryContext = {
+                  ...buildRetryContext(error),
+                  statusCode: response?.statusCode ?? 0,
+                  headers: response?.headers ?? {},
+                  connection
+                }
+                if (retryPolicy.shouldMarkDead(retryContext)) {
+                  this[kConnectionPool].markDead(connection, latency)
+                } else if (response != null) {
+                  this[kConnectionPool].markAlive(connection, latency)
+                } else {
+                  this[kConnectionPool].release(connection)
+                }
+              }
+            })
+            primaryResponse = hedged.connection === primary
+            meta.connection = hedged.connection
+            if (hedged.hedged) meta.hedged = true
+            response = hedged.response
+          } else {
+            response = await meta.connection.request(connectionParams, connectionOptions)
+          }
+          const latency = Number(process.hrtime.bigint() - startTime) / 1e6
+          // the latency of a copy that won the race is cut short by hedging, so recording
+          // it would lower the percentile and get more and more requests hedged
+          if (hedgeable && primaryResponse) {
+            this[kLatencyTracker].record(latency)
+          }
+
+          let { statusCode, headers, body } = response
           result.statusCode = statusCode
           result.headers = headers
 
@@ -611,8 +1180,37 @@ export default class Transport {
           middlewareCtx.meta.attempts = meta.attempts
           this[kMiddlewareEngine].executeOnResponse(middlewareCtx, result)
 
-          if (options.asStream === true) {
-            result.body = body
+          // the credentials may have expired, so they are refreshed and the request is sent again
+          if (statusCode === 401 && authorization != null && !authRefreshed &&
+              (bodyFactory != null || !isStream(connectionParams.body))) {
+            authRefreshed = true
+            if (isStream(body)) body.destroy()
+            this[kConnectionPool].markAlive(meta.connection, latency)
+            authProvider?.invalidate(authorization)
+            continue
+          }
+
+          // an error response is not the document the path points to,
+          // so it is read whole and handled like any other response
+          const ignored = Array.isArray(options.ignore) && options.ignore.includes(statusCode)
+          if (options.asJsonStream != null && statusCode >= 400 && !ignored) {
+            body = await readStream(body as unknown as ReadableStream, maxCompressedResponseSize)
+          } else if (streamBody) {
+            if (options.asNdjson === true || options.asJsonStream != null || options.asArrowStream === true) {
+              const stream = body as unknown as ReadableStream
+              const codec = this[kCompressionRegistry].fromContentEncoding(headers['content-encoding'])
+              // errors and an early destroy by the consumer are passed on to the response stream
+              const source = codec != null ? pipeline(stream, codec.createDecompressStream(), noop) : stream
+              if (options.asArrowStream === true) {
+                result.body = this[kSerializer].deserializeArrowStream(source, maxCompressedResponseSize)
+              } else if (options.asJsonStream != null) {
+                result.body = this[kSerializer].deserializeStream(source, options.asJsonStream, maxResponseSize)
+              } else {
+                result.body = this[kSerializer].ndeserialize(source, maxResponseSize)
+              }
+            } else {
+              result.body = body
+            }
             // Calculate request duration in milliseconds
             const endTime = process.hrtime.bigint()
             meta.duration = Number(endTime - startTime) / 1e6
@@ -620,9 +1218,9 @@ export default class Transport {
             return result
           }
 
-          const contentEncoding = (headers['content-encoding'] ?? '').toLowerCase()
-          if (contentEncoding.includes('gzip') || contentEncoding.includes('deflate')) {
-            body = await unzip(body)
+          const codec = this[kCompressionRegistry].fromContentEncoding(headers['content-encoding'])
+          if (codec != null && Buffer.isBuffer(body)) {
+            body = await decompress(codec, body, isBinary(headers['content-type'] ?? ''), maxResponseSize, maxCompressedResponseSize)
           }
 
           if (Buffer.isBuffer(body) && !isBinary(headers['content-type'] ?? '')) {
@@ -639,6 +1237,11 @@ export default class Transport {
                headers['content-type']?.includes('application/vnd.elasticsearch+json')) &&
                !isHead && body !== '') { // eslint-disable-line
             result.body = this[kSerializer].deserialize(body as string)
+          } else if (Buffer.isBuffer(body) && acceptedFormat != null && binaryFormat(headers['content-type']) === acceptedFormat &&
+              !isHead && body.length > 0) {
+            result.body = this[kSerializer].decode(body, headers['content-type'] as string)
+          } else if (options.asArrow === true && Buffer.isBuffer(body) && headers['content-type']?.includes('arrow') === true && !isHead) {
+            result.body = this[kSerializer].decodeArrow(body)
           } else {
             // cast to boolean if the request method was HEAD and there was no error
             result.body = isHead && statusCode < 400 ? true : body
@@ -649,20 +1252,25 @@ export default class Transport {
           const ignoreStatusCode = (Array.isArray(options.ignore) && options.ignore.includes(statusCode)) ||
             (isHead && statusCode === 404)
 
-          if (!ignoreStatusCode && (statusCode === 502 || statusCode === 503 || statusCode === 504)) {
-            // if the statusCode is 502/3/4 we should run our retry strategy
-            // and mark the connection as dead
-            this[kConnectionPool].markDead(meta.connection)
+          if (ignoreStatusCode) {
+            this[kConnectionPool].markAlive(meta.connection, latency)
+          } else {
+            const retryContext = buildRetryContext(null)
+            if (retryPolicy.shouldMarkDead(retryContext)) {
+              this[kConnectionPool].markDead(meta.connection, latency)
+            } else {
+              // everything has worked as expected, let's mark
+              // the connection as alive (or confirm it)
+              this[kConnectionPool].markAlive(meta.connection, latency)
+            }
+
             // retry logic
-            if (meta.attempts < maxRetries) {
-              meta.attempts++
-              debug(`Retrying request, there are still ${maxRetries - meta.attempts} attempts`, params)
+            if (meta.attempts < maxRetries && retryPolicy.shouldRetry(retryContext)) {
+              if (!await retry(retryContext)) {
+                throw deadlineExceeded(meta.attempts + 1)
+              }
               continue
             }
-          } else {
-            // everything has worked as expected, let's mark
-            // the connection as alive (or confirm it)
-            this[kConnectionPool].markAlive(meta.connection)
           }
 
           if (!ignoreStatusCode && statusCode >= 400) {
@@ -683,6 +1291,14 @@ export default class Transport {
           const endTime = process.hrtime.bigint()
           meta.duration = Number(endTime - startTime) / 1e6
 
+          // the attempt was cut off by the total timeout, which is not the fault of the connection
+          if (deadlineSignal?.aborted === true && !signal.aborted &&
+              ['RequestAbortedError', 'TimeoutError', 'ConnectionError'].includes(error.name)) {
+            const wrappedError = deadlineExceeded(meta.attempts + 1, error)
+            this[kDiagnostic].emit('response', wrappedError, result)
+            throw wrappedError
+          }
+
           switch (error.name) {
             // should not retry
             case 'ProductNotSupportedError':
@@ -691,6 +1307,9 @@ export default class Transport {
             case 'ResponseError':
               this[kDiagnostic].emit('response', error, result)
               throw error
+            case 'DeadlineExceededError':
+              this[kDiagnostic].emit('response', error, result)
+              throw error
             case 'RequestAbortedError': {
               meta.aborted = true
               // Wrap the error to get a clean stack trace
@@ -699,47 +1318,41 @@ export default class Transport {
               throw wrappedError
             }
             // should maybe retry
-            // @ts-expect-error `case` fallthrough is intentional: should retry if retryOnTimeout is true
             case 'TimeoutError':
-              if (!this[kRetryOnTimeout]) {
-                // mark dead before early throw: when not retrying, we never reach the
-                // ConnectionError fallthrough that would otherwise call markDead
-                this[kConnectionPool].markDead(meta.connection as Connection)
-                const wrappedError = new TimeoutError(error.message, result, { ...errorOptions, cause: error })
+            case 'ConnectionError': {
+              // the attempt ran out of total timeout, not of its own timeout,
+              // so we should not blame the connection for it
+              if (error.name === 'TimeoutError' && deadlineTimeout) {
+                const wrappedError = deadlineExceeded(meta.attempts + 1, error)
                 this[kDiagnostic].emit('response', wrappedError, result)
                 throw wrappedError
               }
-            // should retry
-            // eslint-disable-next-line no-fallthrough
-            case 'ConnectionError': {
-              // if there is an error in the connection
-              // let's mark the connection as dead
-              this[kConnectionPool].markDead(meta.connection as Connection)
 
-              if (this[kSniffOnConnectionFault]) {
-                this.sniff({
-                  reason: Transport.sniffReasons.SNIFF_ON_CONNECTION_FAULT,
-                  requestId: meta.request.id,
-                  context: meta.context
-                })
+              const retryContext = buildRetryContext(error)
+              const markDead = retryPolicy.shouldMarkDead(retryContext)
+              const shouldRetry = retryPolicy.shouldRetry(retryContext)
+              if (markDead) {
+                // if there is an error in the connection
+                // let's mark the connection as dead
+                this[kConnectionPool].markDead(meta.connection as Connection, meta.duration)
+
+                if (shouldRetry && this[kSniffOnConnectionFault]) {
+                  this.sniff({
+                    reason: Transport.sniffReasons.SNIFF_ON_CONNECTION_FAULT,
+                    requestId: meta.request.id,
+                    context: meta.context
+                  })
+                }
               }
 
               // retry logic
-              if (meta.attempts < maxRetries) {
-                meta.attempts++
-                debug(`Retrying request, there are still ${maxRetries - meta.attempts} attempts`, params)
-
-                // don't use exponential backoff until retrying on each node
-                if (meta.attempts >= this[kConnectionPool].size) {
-                  // exponential backoff on retries, with jitter
-                  const backoff = options.retryBackoff ?? this[kRetryBackoff]
-                  const backoffWait = backoff(0, 4, meta.attempts)
-                  if (backoffWait > 0) {
-                    await setTimeout(backoffWait * 1000)
-                  }
+              if (shouldRetry && meta.attempts < maxRetries) {
+                if (await retry(retryContext)) {
+                  continue
                 }
-
-                continue
+                const wrappedError = deadlineExceeded(meta.attempts + 1, error)
+                this[kDiagnostic].emit('response', wrappedError, result)
+                throw wrappedError
               }
 
               // Wrap the error to get a clean stack trace
@@ -750,7 +1363,7 @@ export default class Transport {
                   ? `connection failed (${connectionUrl})`
                   : 'connection failed'
               const wrappedError = error.name === 'TimeoutError'
-                ? new TimeoutError(error.message, result, { ...errorOptions, cause: error })
+                ? new TimeoutError(error.message, result, { ...errorOptions, cause: error }, error.phase)
                 : new ConnectionError(connectionErrorMessage, result, { ...errorOptions, cause: error })
               this[kDiagnostic].emit('response', wrappedError, result)
               throw wrappedError
@@ -767,10 +1380,76 @@ export default class Transport {
       return result
     }
 
+    // Wrapped by the `around` chain (e.g. OpenTelemetry) and the `onError` handlers;
+    // `onRequest`, `onResponse` and `onRetry` still run per attempt inside the loop.
+    const requestQueue = this[kRequestQueue]
+    const runRequest = requestQueue == null
+      ? runAttempts
+      : async (): Promise<TransportResult> => {
+        try {
+          await requestQueue.acquire({
+            result,
+            timeout: options.queueTimeout !== undefined
+              ? (options.queueTimeout != null ? toMs(options.queueTimeout) : null)
+              : this[kQueueTimeout],
+            signal,
+            errorOptions
+          })
+        } catch (error: any) {
+          if (error.name === 'RequestAbortedError') {
+            meta.aborted = true
+            // Wrap the error to get a clean stack trace, and tell a close() from an abort of the caller
+            const wrappedError = abortedError(error)
+            this[kDiagnostic].emit('response', wrappedError, result)
+            throw wrappedError
+          }
+          this[kDiagnostic].emit('response', error, result)
+          throw error
+        }
+        try {
+          return await runAttempts()
+        } finally {
+          requestQueue.release()
+        }
+      }
+
     const finalResult = await this[kMiddlewareEngine].run(middlewareCtx, runRequest)
+    if (responseCache != null && cacheKey != null && cacheTtl != null &&
+        finalResult.statusCode != null && finalResult.statusCode >= 200 && finalResult.statusCode < 300) {
+      await responseCache.set(cacheKey, finalResult, cacheTtl)
+    }
     return returnMeta ? finalResult : finalResult.body
   }
 
+  /**
+   * Sends a stream of bulk operations as consecutive `bulkBody` requests, starting
+   * a new request whenever the body reaches `flushBytes` bytes or `flushOperations`
+   * operations, and yields the result of each request in order. An action and its
+   * source are never split across requests. The requests are sent one at a time,
+   * and each body is a string, so they are retried like any other request.
+   */
+  async * bulkRequests<TResponse = unknown> (
+    params: Omit<TransportRequestParams, 'body' | 'bulkBody'>,
+    operations: AsyncIterable<BulkOperation> | Iterable<BulkOperation>,
+    options: TransportRequestOptions & BulkSplitOptions = {}
+  ): AsyncGenerator<TResponse, void, undefined> {
+    const { flushBytes, flushOperations, ...requestOptions } = options
+    for await (const bulkBody of splitBulk(operations, this[kSerializer], { flushBytes, flushOperations })) {
+      yield await this.request<TResponse>({ ...params, bulkBody }, requestOptions)
+    }
+  }
+
+  /**
+   * Returns how long to wait before hedging a request, or null if it should not be hedged.
+   */
+  getHedgeDelay (hedging: HedgingOptions): number | null {
+    if (hedging.percentile != null) {
+      const latency = this[kLatencyTracker].percentile(hedging.percentile)
+      if (latency != null) return latency
+    }
+    return hedging.delay != null ? toMs(hedging.delay) : null
+  }
+
   getConnection (opts: GetConnectionOptions): Connection | null {
     const now = Date.now()
     if (this[kSniffEnabled] && now > this[kNextSniff]) {
@@ -795,21 +1474,84 @@ export default class Transport {
   sniff (opts: SniffOptions): void {}
 }
 
-function toMs (time: number | string): number {
-  if (typeof time === 'string') {
-    return ms(time as ms.StringValue)
+/**
+ * Returns a signal aborted as soon as any of the given signals is, along
+ * with a function that stops listening to them.
+ */
+function linkSignals (...signals: Array<AbortSignal | undefined>): [AbortSignal, () => void] {
+  const controller = new AbortController()
+  const onAbort = (): void => controller.abort()
+  const linked: AbortSignal[] = []
+  for (const signal of signals) {
+    if (signal == null) continue
+    if (signal.aborted) {
+      controller.abort()
+      break
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    linked.push(signal)
   }
-  return time
+  const unlink = (): void => {
+    for (const signal of linked) signal.removeEventListener('abort', onAbort)
+  }
+  return [controller.signal, unlink]
 }
 
 function shouldSerialize (obj: any): obj is Record<string, any> | Array<Record<string, any>> {
   return typeof obj !== 'string' &&
+         typeof obj !== 'function' &&
          typeof obj.pipe !== 'function' &&
          !Buffer.isBuffer(obj)
 }
 
-function isStream (obj: any): obj is ReadableStream {
-  return obj != null && typeof obj.pipe === 'function'
+function isBodyFactory (obj: any): obj is RequestBodyFactory {
+  return typeof obj === 'function'
+}
+
+/**
+ * Decompresses a response body, stopping as soon as the output grows bigger than
+ * the allowed size, so that a small compressed payload cannot exhaust the memory.
+ * Binary bodies are never converted to a string, so they are limited by `maxCompressedResponseSize`.
+ */
+async function decompress (codec: CompressionCodec, body: Buffer, binary: boolean, maxResponseSize: number, maxCompressedResponseSize: number): Promise<Buffer> {
+  const maxSize = binary ? maxCompressedResponseSize : maxResponseSize
+  const limit = binary ? `buffer (${maxSize})` : `string (${maxSize})`
+  let decompressed: Buffer
+  try {
+    decompressed = await codec.decompress(body, maxSize)
+  } catch (err: any) {
+    if (err.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new RequestAbortedError(`The decompressed content length is bigger than the maximum allowed ${limit}`)
+    }
+    throw err
+  }
+  // in case a custom codec ignores the limit
+  if (decompressed.length > maxSize) {
+    throw new RequestAbortedError(`The decompressed content length (${decompressed.length}) is bigger than the maximum allowed ${limit}`)
+  }
+  return decompressed
+}
+
+/**
+ * Reads a response stream whole, failing once it grows bigger than `maxSize` bytes.
+ */
+async function readStream (stream: ReadableStream, maxSize: number): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of stream) {
+    size += (chunk as Buffer).length
+    if (size > maxSize) {
+      throw new RequestAbortedError(`The content length (${size}) is bigger than the maximum allowed buffer (${maxSize})`)
+    }
+    chunks.push(chunk)
+  }
+  return Buffer.concat(chunks)
+}
+
+function createBody (factory: RequestBodyFactory, compression: CompressionCodec | null): ReadableStream {
+  const body = factory()
+  const stream = isStream(body) ? body : ReadableStream.from(body, { objectMode: false })
+  return compression != null ? stream.pipe(compression.createCompressStream()) : stream
 }
 
 function defaultNodeFilter (node: Connection): boolean {
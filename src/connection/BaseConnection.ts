@@ -17,7 +17,7 @@ import {
   UndiciAgentOptions,
   agentFn
 } from '../types'
-import { ConfigurationError } from '../errors'
+import { ConfigurationError, ConnectionError, TimeoutError, TimeoutPhase } from '../errors'
 import { kStatus, kDiagnostic, kCaFingerprint } from '../symbols'
 
 export interface ConnectionRoles {
@@ -36,6 +36,22 @@ export interface ConnectionOptions {
   auth?: BasicAuth | ApiKeyAuth | BearerAuth
   diagnostic?: Diagnostic
   timeout?: number | null
+  /**
+   * How long to wait, in milliseconds, for a new socket to connect,
+   * including the TLS handshake. A socket that does not connect in time fails
+   * with a `ConnectionError`, caused by a `TimeoutError` of the `connect` or `tls` phase.
+   */
+  connectTimeout?: number | null
+  /**
+   * How long to wait, in milliseconds, for the response headers once the request
+   * has been sent on a connected socket. When `timeout` is also set, the shorter one applies.
+   */
+  headersTimeout?: number | null
+  /**
+   * How long to wait, in milliseconds, between two chunks of the response body.
+   * When `timeout` is also set, the shorter one applies.
+   */
+  bodyIdleTimeout?: number | null
   agent?: HttpAgentOptions | UndiciAgentOptions | agentFn | boolean
   proxy?: string | URL
   caFingerprint?: string
@@ -59,6 +75,16 @@ export interface ConnectionRequestOptions {
   maxCompressedResponseSize?: number
   signal?: AbortSignal
   timeout?: number | null
+  /**
+   * Per-request override of {@link ConnectionOptions.connectTimeout}. UndiciConnection
+   * connects the sockets of its pool ahead of the requests, so it only applies the
+   * connection-level value.
+   */
+  connectTimeout?: number | null
+  /** Per-request override of {@link ConnectionOptions.headersTimeout}. */
+  headersTimeout?: number | null
+  /** Per-request override of {@link ConnectionOptions.bodyIdleTimeout}. */
+  bodyIdleTimeout?: number | null
 }
 
 export interface ConnectionRequestOptionsAsStream extends ConnectionRequestOptions {
@@ -85,6 +111,9 @@ export default class BaseConnection {
   tls: TlsConnectionOptions | null
   id: string
   timeout: number | null
+  connectTimeout: number | null
+  headersTimeout: number | null
+  bodyIdleTimeout: number | null
   headers: http.IncomingHttpHeaders
   deadCount: number
   resurrectTimeout: number
@@ -107,6 +136,9 @@ export default class BaseConnection {
     this.id = opts.id ?? stripAuth(opts.url.href)
     this.headers = prepareHeaders(opts.headers, opts.auth)
     this.timeout = opts.timeout ?? null
+    this.connectTimeout = opts.connectTimeout ?? null
+    this.headersTimeout = opts.headersTimeout ?? null
+    this.bodyIdleTimeout = opts.bodyIdleTimeout ?? null
     this.deadCount = 0
     this.resurrectTimeout = 0
     this.weight = 0
@@ -245,6 +277,10 @@ export function isCaFingerprintMatch (cert1: string | null, cert2: string | null
   return cert1 === cert2
 }
 
+export function isStream (obj: unknown): obj is ReadableStream {
+  return obj != null && typeof (obj as { pipe?: unknown }).pipe === 'function'
+}
+
 export function isBinary (contentType: string | string[]): boolean {
   const binaryTypes = [
     'application/vnd.mapbox-vector-tile',
@@ -260,3 +296,50 @@ export function isBinary (contentType: string | string[]): boolean {
     .map(type => contentType.includes(type))
     .includes(true)
 }
+
+/**
+ * Whether a response with the given `content-encoding` is compressed,
+ * whatever the codec, so that its body is handled as a buffer.
+ */
+export function isCompressed (contentEncoding: string): boolean {
+  const encoding = contentEncoding.trim().toLowerCase()
+  return encoding !== '' && encoding !== 'identity'
+}
+
+const TIMEOUT_MESSAGES: Record<TimeoutPhase, string> = {
+  connect: 'Connection timed out',
+  tls: 'TLS handshake timed out',
+  headers: 'Timed out waiting for the response headers',
+  body: 'Timed out waiting for the response body',
+  request: 'Request timed out'
+}
+
+/**
+ * The shortest of a phase timeout and the request timeout, ignoring the unset ones.
+ */
+export function phaseTimeout (phaseTimeout: number | null | undefined, timeout: number | null | undefined): number | null {
+  if (phaseTimeout == null) return timeout ?? null
+  if (timeout == null) return phaseTimeout
+  return Math.min(phaseTimeout, timeout)
+}
+
+/**
+ * Builds the error of a phase that timed out. The message names the phase,
+ * unless the request timeout was the one that expired.
+ */
+export function timeoutError (phase: TimeoutPhase, phaseTimeout: number | null | undefined, timeout: number | null | undefined): TimeoutError {
+  const message = timeout != null && (phaseTimeout == null || timeout <= phaseTimeout)
+    ? TIMEOUT_MESSAGES.request
+    : TIMEOUT_MESSAGES[phase]
+  return new TimeoutError(message, undefined, undefined, phase)
+}
+
+/**
+ * Builds the error of a socket that did not connect in time. It is a
+ * `ConnectionError`, as the request was never sent, caused by the `TimeoutError`
+ * of the phase.
+ */
+export function connectTimeoutError (phase: 'connect' | 'tls', connectTimeout: number | null): ConnectionError {
+  const cause = timeoutError(phase, connectTimeout, null)
+  return new ConnectionError(cause.message, undefined, { redaction: { type: 'replace' }, cause })
+}
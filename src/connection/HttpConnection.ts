@@ -20,17 +20,21 @@ import BaseConnection, {
   ConnectionRequestResponseAsStream,
   getIssuerCertificate,
   isCaFingerprintMatch,
-  isBinary
+  isBinary,
+  isCompressed,
+  isStream,
+  timeoutError,
+  connectTimeoutError
 } from './BaseConnection'
 import { kCaFingerprint } from '../symbols'
-import { Readable as ReadableStream, pipeline } from 'node:stream'
+import { pipeline } from 'node:stream'
 import {
   ConfigurationError,
   ConnectionError,
   RequestAbortedError,
-  TimeoutError
+  TimeoutError,
+  TimeoutPhase
 } from '../errors'
-import { setTimeout } from 'node:timers/promises'
 import { HttpAgentOptions } from '../types'
 
 const debug = Debug('elasticsearch')
@@ -45,9 +49,12 @@ const noop = (): void => {}
 export default class HttpConnection extends BaseConnection {
   agent?: http.Agent | https.Agent | hpagent.HttpProxyAgent | hpagent.HttpsProxyAgent
   makeRequest: typeof http.request | typeof https.request
+  // resolved by the last open request when it completes
+  private drainWaiters: Array<() => void>
 
   constructor (opts: ConnectionOptions) {
     super(opts)
+    this.drainWaiters = []
 
     if (typeof opts.agent === 'function') {
       this.agent = opts.agent(opts)
@@ -92,6 +99,9 @@ export default class HttpConnection extends BaseConnection {
 
       const maxResponseSize = options.maxResponseSize ?? MAX_STRING_LENGTH
       const maxCompressedResponseSize = options.maxCompressedResponseSize ?? MAX_BUFFER_LENGTH
+      const connectTimeout = options.connectTimeout ?? this.connectTimeout
+      const headersTimeout = options.headersTimeout ?? this.headersTimeout
+      const bodyIdleTimeout = options.bodyIdleTimeout ?? this.bodyIdleTimeout
       const requestParams = this.buildRequestObject(params, options)
       // https://github.com/nodejs/node/commit/b961d9fd83
       if (INVALID_PATH_REGEX.test(requestParams.path as string)) {
@@ -131,6 +141,48 @@ export default class HttpConnection extends BaseConnection {
 
       let response: http.IncomingMessage
 
+      // the request timeout is an idle timeout of the socket, while the connect
+      // and headers phases have their own timer, and the body phase reuses the
+      // socket timeout once the response has been received
+      let phaseTimer: NodeJS.Timeout | undefined
+      let phaseTimersStarted = false
+      let connected = false
+      let connectPhase: 'connect' | 'tls' = 'connect'
+
+      const startPhaseTimer = (phase: TimeoutPhase, ms: number): void => {
+        clearTimeout(phaseTimer)
+        phaseTimer = setTimeout(() => {
+          rejectWithTimeout(phase === 'connect' ? connectTimeoutError(connectPhase, ms) : timeoutError(phase, ms, null))
+        }, ms)
+      }
+
+      // the headers phase starts once the request body has been written on a connected socket
+      const startHeadersTimer = (): void => {
+        if (headersTimeout != null && connected && requestFinished && !cleanedListeners) {
+          startPhaseTimer('headers', headersTimeout)
+        }
+      }
+
+      const onConnected = (): void => {
+        clearTimeout(phaseTimer)
+        connected = true
+        startHeadersTimer()
+      }
+
+      // a request is open until its response body has been read, or until
+      // the response stream is handed over to the caller
+      let requestClosed = false
+      const onRequestClose = (): void => {
+        if (requestClosed) return
+        requestClosed = true
+        this._openRequests--
+        if (this._openRequests === 0 && this.drainWaiters.length > 0) {
+          const waiters = this.drainWaiters
+          this.drainWaiters = []
+          for (const resolve of waiters) resolve()
+        }
+      }
+
       const onResponseClose = (): void => {
         return reject(new ConnectionError('Connection closed while reading the body'))
       }
@@ -140,7 +192,15 @@ export default class HttpConnection extends BaseConnection {
 
         cleanListeners()
 
+        if (bodyIdleTimeout != null) {
+          // the socket stays idle while waiting for the next chunk of the body
+          request.setTimeout(bodyIdleTimeout, () => {
+            response.destroy(timeoutError('body', bodyIdleTimeout, null))
+          })
+        }
+
         if (options.asStream === true) {
+          onRequestClose()
           return resolve({
             body: response,
             statusCode: response.statusCode as number,
@@ -148,14 +208,24 @@ export default class HttpConnection extends BaseConnection {
           })
         }
 
+        // an abort still cuts the reading of the body short
+        if (options.signal != null) {
+          const onBodyAbort = (): void => {
+            reject(new RequestAbortedError('Request aborted'))
+            response.destroy()
+          }
+          options.signal.addEventListener('abort', onBodyAbort, { once: true })
+          response.once('close', () => options.signal.removeEventListener('abort', onBodyAbort))
+        }
+
         const contentEncoding = (response.headers['content-encoding'] ?? '').toLowerCase()
-        const isCompressed = contentEncoding.includes('gzip') || contentEncoding.includes('deflate')
+        const bodyIsCompressed = isCompressed(contentEncoding)
         const bodyIsBinary = isBinary(response.headers['content-type'] ?? '')
 
         /* istanbul ignore else */
         if (response.headers['content-length'] !== undefined) {
           const contentLength = Number(response.headers['content-length'])
-          if (isCompressed && contentLength > maxCompressedResponseSize) {
+          if (bodyIsCompressed && contentLength > maxCompressedResponseSize) {
             response.destroy()
             return reject(
               new RequestAbortedError(`The content length (${contentLength}) is bigger than the maximum allowed buffer (${maxCompressedResponseSize})`)
@@ -170,8 +240,8 @@ export default class HttpConnection extends BaseConnection {
 
         // if the response is compressed, we must handle it
         // as buffer for allowing decompression later
-        let payload = isCompressed || bodyIsBinary ? new Array<Buffer>() : ''
-        const onData = isCompressed || bodyIsBinary ? onDataAsBuffer : onDataAsString
+        let payload = bodyIsCompressed || bodyIsBinary ? new Array<Buffer>() : ''
+        const onData = bodyIsCompressed || bodyIsBinary ? onDataAsBuffer : onDataAsString
 
         let currentLength = 0
         function onDataAsBuffer (chunk: Buffer): void {
@@ -199,7 +269,7 @@ export default class HttpConnection extends BaseConnection {
           responseEnded = true
 
           connectionRequestResponse = {
-            body: isCompressed || bodyIsBinary ? Buffer.concat(payload as Buffer[]) : payload as string,
+            body: bodyIsCompressed || bodyIsBinary ? Buffer.concat(payload as Buffer[]) : payload as string,
             statusCode: response.statusCode as number,
             headers: response.headers
           }
@@ -210,7 +280,7 @@ export default class HttpConnection extends BaseConnection {
           }
         }
 
-        if (!isCompressed && !bodyIsBinary) {
+        if (!bodyIsCompressed && !bodyIsBinary) {
           response.setEncoding('utf8')
         }
 
@@ -220,13 +290,15 @@ export default class HttpConnection extends BaseConnection {
         response.on('close', onResponseClose)
       }
 
-      const onTimeout = (): void => {
+      const rejectWithTimeout = (error: TimeoutError | ConnectionError): void => {
         cleanListeners()
         request.once('error', noop) // we need to catch the request aborted error
         request.destroy()
-        return reject(new TimeoutError('Request timed out'))
+        return reject(error)
       }
 
+      const onTimeout = (): void => rejectWithTimeout(new TimeoutError('Request timed out'))
+
       const onError = (err: Error): void => {
         // @ts-expect-error
         let { name, message, code } = err
@@ -239,7 +311,7 @@ export default class HttpConnection extends BaseConnection {
         // Absorb follow-up socket/request errors from in-flight writes after the peer resets.
         // Without this, a second write EPIPE can surface as uncaughtException.
         request.once('error', noop)
-        if (name === 'RequestAbortedError') {
+        if (name === 'RequestAbortedError' || name === 'TimeoutError') {
           return reject(err)
         }
 
@@ -264,6 +336,21 @@ export default class HttpConnection extends BaseConnection {
           socket.on('error', noop)
         }
 
+        if (!phaseTimersStarted) {
+          phaseTimersStarted = true
+          if (socket.connecting) {
+            if (connectTimeout != null) startPhaseTimer('connect', connectTimeout)
+            if (requestParams.protocol === 'https:') {
+              socket.once('connect', () => { connectPhase = 'tls' })
+              socket.once('secureConnect', onConnected)
+            } else {
+              socket.once('connect', onConnected)
+            }
+          } else {
+            onConnected()
+          }
+        }
+
         if (this[kCaFingerprint] != null && requestParams.protocol === 'https:') {
           /* istanbul ignore else */
           if (!socket.isSessionReused()) {
@@ -290,6 +377,7 @@ export default class HttpConnection extends BaseConnection {
 
       const onFinish = (): void => {
         requestFinished = true
+        startHeadersTimer()
 
         if (responseEnded) {
           response?.removeListener('close', onResponseClose)
@@ -304,7 +392,7 @@ export default class HttpConnection extends BaseConnection {
       const cleanListeners = (): void => {
         if (cleanedListeners) return
 
-        this._openRequests--
+        clearTimeout(phaseTimer)
 
         // we do NOT stop listening to request.error here
         // all errors we care about in the request/response lifecycle will bubble up to request.error, and may occur even after the request has been sent
@@ -326,6 +414,7 @@ export default class HttpConnection extends BaseConnection {
       request.on('error', onError)
       request.on('finish', onFinish)
       request.on('socket', onSocket)
+      request.on('close', onRequestClose)
       // keep-alive reuse may assign the socket synchronously inside makeRequest(),
       // emitting 'socket' before we attach the listener — handle that case.
       if (request.socket != null) {
@@ -352,8 +441,8 @@ export default class HttpConnection extends BaseConnection {
 
   async close (): Promise<void> {
     debug('Closing connection', this.id)
-    while (this._openRequests > 0) {
-      await setTimeout(1000)
+    if (this._openRequests > 0) {
+      await new Promise<void>(resolve => this.drainWaiters.push(resolve))
     }
     /* istanbul ignore else */
     if (this.agent !== undefined) {
@@ -405,10 +494,6 @@ export default class HttpConnection extends BaseConnection {
   }
 }
 
-function isStream (obj: any): obj is ReadableStream {
-  return obj != null && typeof obj.pipe === 'function'
-}
-
 function resolve (host: string, path: string): string {
   const hostEndWithSlash = host[host.length - 1] === '/'
   const pathStartsWithSlash = path[0] === '/'
@@ -18,14 +18,17 @@ import BaseConnection, {
   ConnectionRequestResponseAsStream,
   getIssuerCertificate,
   isCaFingerprintMatch,
-  isBinary
+  isBinary,
+  isCompressed,
+  phaseTimeout,
+  timeoutError,
+  connectTimeoutError
 } from './BaseConnection'
 import { Pool, buildConnector } from 'undici'
 import {
   ConfigurationError,
   RequestAbortedError,
-  ConnectionError,
-  TimeoutError
+  ConnectionError
 } from '../errors'
 import { UndiciAgentOptions } from '../types'
 import { kCaFingerprint } from '../symbols'
@@ -70,14 +73,18 @@ export default class Connection extends BaseConnection {
         connections: 256,
         // only set a timeout if it has a value; default to no timeout
         // see https://www.elastic.co/guide/en/elasticsearch/reference/current/modules-network.html#_http_client_configuration
-        headersTimeout: this.timeout ?? 0,
-        bodyTimeout: this.timeout ?? 0,
+        headersTimeout: phaseTimeout(this.headersTimeout, this.timeout) ?? 0,
+        bodyTimeout: phaseTimeout(this.bodyIdleTimeout, this.timeout) ?? 0,
+        ...(this.connectTimeout != null ? { connectTimeout: this.connectTimeout } : null),
         ...(typeof opts.agent === 'object' ? opts.agent : {})
       }
 
       if (this[kCaFingerprint] !== null) {
         const caFingerprint = this[kCaFingerprint]
-        const connector = buildConnector((this.tls ?? {}) as buildConnector.BuildOptions)
+        const connectorOptions = (this.tls ?? {}) as buildConnector.BuildOptions
+        const connector = buildConnector(undiciOptions.connectTimeout != null
+          ? { ...connectorOptions, timeout: undiciOptions.connectTimeout }
+          : connectorOptions)
         undiciOptions.connect = function (opts: buildConnector.Options, cb: buildConnector.Callback) {
           connector(opts, (err, socket) => {
             if (err != null) {
@@ -124,24 +131,34 @@ export default class Connection extends BaseConnection {
     const maxResponseSize = options.maxResponseSize ?? MAX_STRING_LENGTH
     const maxCompressedResponseSize = options.maxCompressedResponseSize ?? MAX_BUFFER_LENGTH
     const pathPrefix = this.url.pathname === '/' ? '' : this.url.pathname.replace(/\/$/, '')
+    const timeout = options.timeout ?? this.timeout
+    const headersTimeout = options.headersTimeout ?? this.headersTimeout
+    const bodyIdleTimeout = options.bodyIdleTimeout ?? this.bodyIdleTimeout
     const requestParams = {
       origin: this.url,
       method: params.method,
       path: pathPrefix + params.path + (params.querystring == null || params.querystring === '' ? '' : `?${params.querystring}`),
       headers: Object.assign({}, this.headers, params.headers),
       body: params.body,
-      signal: options.signal ?? new AbortController().signal
+      signal: options.signal ?? new AbortController().signal,
+      // undici applies the headers and body timeouts per request,
+      // while the sockets of the pool are connected with its connectTimeout
+      headersTimeout: phaseTimeout(headersTimeout, timeout) ?? 0,
+      bodyTimeout: phaseTimeout(bodyIdleTimeout, timeout) ?? 0
     }
 
     if (requestParams.path[0] !== '/') {
       requestParams.path = `/${requestParams.path}`
     }
 
-    // undici does not support per-request timeouts,
-    // to address this issue, we default to the constructor
-    // timeout (which is handled by undici) and create a local
-    // setTimeout callback if the request-specific timeout
-    // is different from the constructor timeout.
+    // https://github.com/nodejs/node/commit/b961d9fd83
+    if (INVALID_PATH_REGEX.test(requestParams.path)) {
+      throw new TypeError(`ERR_UNESCAPED_CHARACTERS: ${requestParams.path}`)
+    }
+
+    // undici checks the headers and body timeouts with a resolution of about
+    // a second, so a request timeout that differs from the constructor one
+    // is enforced with a local setTimeout callback until the headers arrive
     let timedout = false
     let timeoutId
     if (options.timeout != null && options.timeout !== this.timeout) {
@@ -151,11 +168,6 @@ export default class Connection extends BaseConnection {
       }, options.timeout)
     }
 
-    // https://github.com/nodejs/node/commit/b961d9fd83
-    if (INVALID_PATH_REGEX.test(requestParams.path)) {
-      throw new TypeError(`ERR_UNESCAPED_CHARACTERS: ${requestParams.path}`)
-    }
-
     debug('Starting a new request', params)
     let response
     try {
@@ -166,9 +178,11 @@ export default class Connection extends BaseConnection {
       switch (err.code) {
         case 'UND_ERR_ABORTED':
         case DOMException.ABORT_ERR:
-          throw (timedout ? new TimeoutError('Request timed out') : new RequestAbortedError('Request aborted'))
+          throw (timedout ? timeoutError('request', null, timeout) : new RequestAbortedError('Request aborted'))
+        case 'UND_ERR_CONNECT_TIMEOUT':
+          throw connectTimeoutError('connect', this.connectTimeout)
         case 'UND_ERR_HEADERS_TIMEOUT':
-          throw new TimeoutError('Request timed out')
+          throw timeoutError('headers', headersTimeout, timeout)
         case 'UND_ERR_SOCKET':
           throw new ConnectionError(`${err.message} - Local: ${err.socket?.localAddress ?? 'unknown'}:${err.socket?.localPort ?? 'unknown'}, Remote: ${err.socket?.remoteAddress ?? 'unknown'}:${err.socket?.remotePort ?? 'unknown'}`) // eslint-disable-line
         default:
@@ -186,13 +200,13 @@ export default class Connection extends BaseConnection {
 
     // @ts-expect-error Assume header is not string[] for now.
     const contentEncoding = (response.headers['content-encoding'] ?? '').toLowerCase()
-    const isCompressed = contentEncoding.includes('gzip') || contentEncoding.includes('deflate') // eslint-disable-line
+    const bodyIsCompressed = isCompressed(contentEncoding)
     const bodyIsBinary = isBinary(response.headers['content-type'] ?? '')
 
     /* istanbul ignore else */
     if (response.headers['content-length'] !== undefined) {
       const contentLength = Number(response.headers['content-length'])
-      if (isCompressed && contentLength > maxCompressedResponseSize) { // eslint-disable-line
+      if (bodyIsCompressed && contentLength > maxCompressedResponseSize) { // eslint-disable-line
         response.body.destroy()
         throw new RequestAbortedError(`The content length (${contentLength}) is bigger than the maximum allowed buffer (${maxCompressedResponseSize})`)
       } else if (contentLength > maxResponseSize) {
@@ -203,7 +217,7 @@ export default class Connection extends BaseConnection {
 
     this.diagnostic.emit('deserialization', null, options)
     try {
-      if (isCompressed || bodyIsBinary) { // eslint-disable-line
+      if (bodyIsCompressed || bodyIsBinary) { // eslint-disable-line
         let currentLength = 0
         const payload: Buffer[] = []
         for await (const chunk of response.body) {
@@ -241,6 +255,9 @@ export default class Connection extends BaseConnection {
       if (err.name === 'RequestAbortedError') {
         throw err
       }
+      if (err.code === 'UND_ERR_BODY_TIMEOUT') {
+        throw timeoutError('body', bodyIdleTimeout, timeout)
+      }
       throw new ConnectionError(err.message)
     }
   }
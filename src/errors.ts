@@ -36,13 +36,45 @@ export class ElasticsearchClientError extends Error {
   }
 }
 
+/**
+ * The phase of a request that timed out: establishing the TCP connection,
+ * the TLS handshake, waiting for the response headers, waiting for the next
+ * chunk of the response body, or the request as a whole. The connect and TLS
+ * timeouts are the `cause` of a `ConnectionError`.
+ */
+export type TimeoutPhase = 'connect' | 'tls' | 'headers' | 'body' | 'request'
+
 export class TimeoutError extends ElasticsearchClientError {
   meta?: DiagnosticResult
-  constructor (message: string, meta?: DiagnosticResult, options?: ErrorOptions) {
+  phase: TimeoutPhase
+  constructor (message: string, meta?: DiagnosticResult, options?: ErrorOptions, phase: TimeoutPhase = 'request') {
     super(message, options)
     Error.captureStackTrace(this, TimeoutError)
     this.name = 'TimeoutError'
     this.message = message ?? 'Timeout Error'
+    this.phase = phase
+
+    if (isObject(meta)) meta = redactDiagnostic(meta, this.options.redaction)
+    this.meta = meta
+  }
+}
+
+export class DeadlineExceededError extends TimeoutError {
+  constructor (message: string, meta?: DiagnosticResult, options?: ErrorOptions) {
+    super(message, meta, options)
+    Error.captureStackTrace(this, DeadlineExceededError)
+    this.name = 'DeadlineExceededError'
+    this.message = message ?? 'Deadline Exceeded Error'
+  }
+}
+
+export class QueueTimeoutError extends ElasticsearchClientError {
+  meta?: DiagnosticResult
+  constructor (message: string, meta?: DiagnosticResult, options?: ErrorOptions) {
+    super(message, options)
+    Error.captureStackTrace(this, QueueTimeoutError)
+    this.name = 'QueueTimeoutError'
+    this.message = message ?? 'Queue Timeout Error'
 
     if (isObject(meta)) meta = redactDiagnostic(meta, this.options.redaction)
     this.meta = meta
@@ -186,6 +218,20 @@ export class ProductNotSupportedError extends ElasticsearchClientError {
   }
 }
 
+export class TokenRequestError extends ElasticsearchClientError {
+  /** The status code of the token endpoint, if it answered. */
+  statusCode?: number
+  body?: any
+  constructor (message: string, statusCode?: number, body?: any, options?: ErrorOptions) {
+    super(message, options)
+    Error.captureStackTrace(this, TokenRequestError)
+    this.name = 'TokenRequestError'
+    this.message = message ?? 'Token Request Error'
+    this.statusCode = statusCode
+    this.body = body
+  }
+}
+
 function isObject (obj: any): obj is Record<string, any> {
   return typeof obj === 'object' && obj !== null
 }
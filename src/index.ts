@@ -14,9 +14,15 @@ import {
   WeightedConnectionPool,
   ClusterConnectionPool,
   CloudConnectionPool,
-  BaseConnectionPool
+  BaseConnectionPool,
+  CircuitState
 } from './pool'
 import Serializer from './Serializer'
+import { DefaultRetryPolicy } from './RetryPolicy'
+import { defaultRequestKey } from './RequestCoalescer'
+import { MemoryCacheStore } from './ResponseCache'
+import { sigV4Signer, hmacSigner } from './Signer'
+import { MiddlewareEngine, MiddlewareException, MiddlewareName, MiddlewarePriority, OpenTelemetryMetricsMiddleware } from './middleware'
 import * as errors from './errors'
 
 export type {
@@ -31,7 +37,10 @@ export type {
 
 export type {
   ConnectionPoolOptions,
-  GetConnectionOptions
+  ClusterConnectionPoolOptions,
+  GetConnectionOptions,
+  CircuitBreakerOptions,
+  CircuitBreakerEvent
 } from './pool'
 
 export type {
@@ -41,17 +50,71 @@ export type {
   TransportRequestOptions,
   TransportRequestOptionsWithMeta,
   TransportRequestOptionsWithOutMeta,
-  SniffOptions
+  SniffOptions,
+  HedgingOptions,
+  CompressionCodec,
+  BulkOperation,
+  BulkSplitOptions,
+  TransportCloseOptions,
+  AuthProviderOptions,
+  AuthCredentials,
+  TokenSourceOptions,
+  ClientCredentialsGrant,
+  JwtBearerGrant,
+  TokenEvent,
+  RequestSigner,
+  AwsCredentials,
+  SigV4SignerOptions,
+  HmacSignerOptions
 } from './Transport'
 
+export type {
+  RetryPolicy,
+  RetryContext,
+  DefaultRetryPolicyOptions
+} from './RetryPolicy'
+
+export type { QueueEvent } from './RequestQueue'
+
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareResult,
+  MiddlewareRequest,
+  MiddlewareRetry,
+  MiddlewareErrorResult,
+  MiddlewareNext,
+  OpenTelemetryOptions,
+  OpenTelemetryMetricsOptions
+} from './middleware'
+
+export type { LargeIntegers } from './BinaryFormats'
+
+export type {
+  ArrowTable,
+  RecordBatch,
+  ArrowColumn,
+  ArrowSchema,
+  ArrowField,
+  ArrowType
+} from './Arrow'
+
+export type {
+  ResponseCacheOptions,
+  ResponseCacheStore,
+  ResponseCacheEntry
+} from './ResponseCache'
+
 export type {
   RequestBody,
+  RequestBodyFactory,
   RequestNDBody,
   DiagnosticResult,
   TransportResult,
   HttpAgentOptions,
   UndiciAgentOptions,
   ApiKeyAuth,
+  BasicAuth,
   BearerAuth
 } from './types'
 
@@ -62,10 +125,21 @@ export {
   ClusterConnectionPool,
   BaseConnectionPool,
   CloudConnectionPool,
+  CircuitState,
   BaseConnection,
   HttpConnection,
   UndiciConnection,
   Serializer,
+  DefaultRetryPolicy,
+  defaultRequestKey,
+  MemoryCacheStore,
+  sigV4Signer,
+  hmacSigner,
+  MiddlewareEngine,
+  MiddlewareException,
+  MiddlewareName,
+  MiddlewarePriority,
+  OpenTelemetryMetricsMiddleware,
   errors,
   events
 }
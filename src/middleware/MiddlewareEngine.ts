@@ -3,9 +3,9 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { Middleware, MiddlewareContext, MiddlewareNext } from './types'
+import { Middleware, MiddlewareContext, MiddlewareNext, MiddlewareRequest, MiddlewareRetry } from './types'
 import { TransportResult } from '../types'
-import { ElasticsearchClientError, NativeErrorOptions } from '../errors'
+import { ConfigurationError, ElasticsearchClientError, NativeErrorOptions } from '../errors'
 
 export class MiddlewareException extends Error {
   constructor (message: string, options?: NativeErrorOptions) {
@@ -15,19 +15,73 @@ export class MiddlewareException extends Error {
 }
 
 export class MiddlewareEngine {
-  private readonly middleware: Middleware[] = []
+  // in registration order, and in execution order
+  private registered: Middleware[] = []
+  private middleware: Middleware[] = []
 
+  /**
+   * Adds a middleware. Throws a `ConfigurationError`, without adding it,
+   * if its `before` and `after` constraints conflict with the registered ones.
+   */
   register (middleware: Middleware): void {
-    this.middleware.push(middleware)
-    this.middleware.sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100))
+    this.update([...this.registered, middleware])
+  }
+
+  /**
+   * Removes every middleware registered with `name`.
+   * Returns false if there was none.
+   */
+  unregister (name: string): boolean {
+    const registered = this.registered.filter(middleware => middleware.name !== name)
+    if (registered.length === this.registered.length) return false
+    this.update(registered)
+    return true
+  }
+
+  /**
+   * Puts `middleware` in place of the ones registered with `name`,
+   * or throws a `ConfigurationError` if there are none.
+   */
+  replace (name: string, middleware: Middleware): void {
+    if (!this.has(name)) {
+      throw new ConfigurationError(`Middleware ${name} is not registered`)
+    }
+    let replaced = false
+    this.update(this.registered.flatMap(registered => {
+      if (registered.name !== name) return [registered]
+      if (replaced) return []
+      replaced = true
+      return [middleware]
+    }))
+  }
+
+  has (name: string): boolean {
+    return this.registered.some(middleware => middleware.name === name)
+  }
+
+  /** The registered middleware names, in execution order. */
+  names (): string[] {
+    return this.middleware.map(middleware => middleware.name)
+  }
+
+  private update (registered: Middleware[]): void {
+    this.middleware = sortMiddleware(registered)
+    this.registered = registered
   }
 
   /**
    * Wraps `run` (the request, including all retries) in the `around` handlers as
-   * an onion: highest priority (lowest number) is outermost. Errors propagate as-is.
+   * an onion: highest priority (lowest number) is outermost. The `onError` handlers
+   * run innermost, so the `around` handlers see the mapped error or result.
    */
   async run (context: MiddlewareContext, run: MiddlewareNext): Promise<TransportResult> {
-    let next: MiddlewareNext = run
+    let next: MiddlewareNext = async () => {
+      try {
+        return await run()
+      } catch (error: any) {
+        return await this.executeOnError(context, error)
+      }
+    }
     for (let i = this.middleware.length - 1; i >= 0; i--) {
       const around = this.middleware[i].around
       if (around == null) continue
@@ -53,4 +107,131 @@ export class MiddlewareEngine {
       }
     }
   }
+
+  /**
+   * Runs every `onRequest` handler in priority order before each attempt is sent.
+   * A handler returning `{ continue: false }` stops the rest.
+   */
+  async executeOnRequest (context: MiddlewareContext, request: MiddlewareRequest): Promise<void> {
+    for (const middleware of this.middleware) {
+      if (middleware.onRequest == null) continue
+
+      try {
+        if ((await middleware.onRequest(context, request))?.continue === false) return
+      } catch (error) {
+        if (error instanceof ElasticsearchClientError) throw error
+        throw new MiddlewareException(`Middleware ${middleware.name} failed in onRequest`, { cause: error })
+      }
+    }
+  }
+
+  /**
+   * Runs every `onRetry` handler in priority order before waiting for the next attempt.
+   * A handler returning `{ continue: false }` stops the rest.
+   */
+  async executeOnRetry (context: MiddlewareContext, retry: MiddlewareRetry): Promise<void> {
+    for (const middleware of this.middleware) {
+      if (middleware.onRetry == null) continue
+
+      try {
+        if ((await middleware.onRetry(context, retry))?.continue === false) return
+      } catch (error) {
+        if (error instanceof ElasticsearchClientError) throw error
+        throw new MiddlewareException(`Middleware ${middleware.name} failed in onRetry`, { cause: error })
+      }
+    }
+  }
+
+  /**
+   * Runs every `onError` handler in priority order on the error of a failed request,
+   * each one receiving the error as mapped by the previous ones. Throws the final
+   * error, unless a handler swallows it by returning a result.
+   */
+  async executeOnError (context: MiddlewareContext, error: Error): Promise<TransportResult> {
+    for (const middleware of this.middleware) {
+      if (middleware.onError == null) continue
+
+      let outcome
+      try {
+        outcome = await middleware.onError(context, error)
+      } catch (err) {
+        if (err instanceof ElasticsearchClientError) throw err
+        throw new MiddlewareException(`Middleware ${middleware.name} failed in onError`, { cause: err })
+      }
+      if (outcome?.result != null) return outcome.result
+      if (outcome?.error != null) error = outcome.error
+      if (outcome?.continue === false) break
+    }
+    throw error
+  }
+}
+
+function toArray (names: string | string[] | undefined): string[] {
+  if (names == null) return []
+  return Array.isArray(names) ? names : [names]
+}
+
+/**
+ * Orders the middleware by priority (lowest first, then registration order),
+ * adjusted to satisfy their `before` and `after` constraints: a middleware that
+ * must run before another one is moved up to it, and one that must run after
+ * another one waits for it. Constraints naming a middleware that is not
+ * registered are ignored.
+ */
+function sortMiddleware (registered: Middleware[]): Middleware[] {
+  // the sort is stable, so registration order breaks the ties
+  const byPriority = [...registered].sort((a, b) => (a.priority ?? 100) - (b.priority ?? 100))
+
+  // edges go from a middleware to the ones that must run after it,
+  // and only the `before` edges move a middleware up
+  const successors = new Map<Middleware, Set<Middleware>>(byPriority.map(middleware => [middleware, new Set()]))
+  const movedUpBy = new Map<Middleware, Set<Middleware>>(byPriority.map(middleware => [middleware, new Set()]))
+  const named = (name: string): Middleware[] => byPriority.filter(middleware => middleware.name === name)
+  for (const middleware of byPriority) {
+    for (const name of toArray(middleware.before)) {
+      for (const other of named(name)) {
+        if (other === middleware) continue
+        successors.get(middleware)?.add(other)
+        movedUpBy.get(middleware)?.add(other)
+      }
+    }
+    for (const name of toArray(middleware.after)) {
+      for (const other of named(name)) if (other !== middleware) successors.get(other)?.add(middleware)
+    }
+  }
+
+  const predecessors = new Map<Middleware, number>(byPriority.map(middleware => [middleware, 0]))
+  for (const next of successors.values()) {
+    for (const middleware of next) predecessors.set(middleware, (predecessors.get(middleware) as number) + 1)
+  }
+
+  // a middleware runs no later than the priority of the ones it must run before
+  const ranks = new Map<Middleware, number>()
+  const rankOf = (middleware: Middleware): number => {
+    let rank = ranks.get(middleware)
+    if (rank == null) {
+      rank = middleware.priority ?? 100
+      // set first, so that a cycle does not recurse forever
+      ranks.set(middleware, rank)
+      for (const next of movedUpBy.get(middleware) as Set<Middleware>) rank = Math.min(rank, rankOf(next))
+      ranks.set(middleware, rank)
+    }
+    return rank
+  }
+  const pending = [...byPriority].sort((a, b) => rankOf(a) - rankOf(b))
+
+  // always picks the first pending middleware whose predecessors already run
+  const sorted: Middleware[] = []
+  while (pending.length > 0) {
+    const index = pending.findIndex(middleware => predecessors.get(middleware) === 0)
+    if (index === -1) {
+      throw new ConfigurationError(`The before and after constraints of the middleware ${pending.map(m => m.name).join(', ')} form a cycle`)
+    }
+    const [middleware] = pending.splice(index, 1)
+    sorted.push(middleware)
+    for (const next of successors.get(middleware) as Set<Middleware>) {
+      predecessors.set(next, (predecessors.get(next) as number) - 1)
+    }
+  }
+  return sorted
 }
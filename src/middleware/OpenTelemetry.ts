@@ -47,6 +47,18 @@ function isStream (body: unknown): boolean {
   return body != null && typeof (body as any).pipe === 'function'
 }
 
+/** The `server.address` and `server.port` attributes of a node. */
+export function serverAttributes (url: URL): Attributes {
+  const attributes: Attributes = { 'server.address': url.hostname }
+  if (url.port === '') {
+    attributes['server.port'] = url.protocol === 'https:' ? 443 : 80
+  } else {
+    const port = parseInt(url.port, 10)
+    if (!Number.isNaN(port)) attributes['server.port'] = port
+  }
+  return attributes
+}
+
 export class OpenTelemetryMiddleware implements Middleware {
   readonly name = MiddlewareName.OPEN_TELEMETRY
   readonly priority = MiddlewarePriority[MiddlewareName.OPEN_TELEMETRY]
@@ -117,14 +129,8 @@ export class OpenTelemetryMiddleware implements Middleware {
       const url = result.meta.connection.url
       span.setAttributes({
         'url.full': stripAuth(url.toString()),
-        'server.address': url.hostname
+        ...serverAttributes(url)
       })
-      if (url.port === '') {
-        span.setAttribute('server.port', url.protocol === 'https:' ? 443 : 80)
-      } else {
-        const port = parseInt(url.port, 10)
-        if (!Number.isNaN(port)) span.setAttribute('server.port', port)
-      }
     }
   }
 
@@ -0,0 +1,201 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import opentelemetry, { Attributes, Counter, Histogram, Meter, ObservableGauge, ObservableResult } from '@opentelemetry/api'
+import { Middleware, MiddlewareContext, MiddlewareName, MiddlewareNext, MiddlewarePriority, MiddlewareRequest, MiddlewareRetry } from './types'
+import { serverAttributes } from './OpenTelemetry'
+import { TransportResult } from '../types'
+import { BaseConnection } from '../connection'
+import { BaseConnectionPool } from '../pool'
+import { transportVersion } from '../version.generated'
+
+/** Bucket boundaries of `db.client.operation.duration`, in seconds, as advised by the semantic conventions. */
+export const DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5, 10]
+
+/** Bucket boundaries of the body size histograms, in bytes. */
+export const BODY_SIZE_BUCKETS = [0, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216, 67108864]
+
+export interface OpenTelemetryMetricsOptions {
+  enabled?: boolean
+}
+
+interface Instruments {
+  duration: Histogram
+  requests: Counter
+  errors: Counter
+  retries: Counter
+  requestBodySize: Histogram
+  responseBodySize: Histogram
+  connections: ObservableGauge
+}
+
+function bodySize (body: MiddlewareRequest['body']): number | null {
+  if (typeof body === 'string') return Buffer.byteLength(body)
+  if (Buffer.isBuffer(body)) return body.byteLength
+  return null
+}
+
+/**
+ * Records the metrics of the requests with the meter of the global
+ * `MeterProvider`, with the attributes of the spans of {@link OpenTelemetryMiddleware}:
+ * `db.operation.name`, `db.response.status_code`, `server.address` and `error.type`.
+ * The instruments are created on the first request, so that the `MeterProvider`
+ * can be registered after the transport has been created. The connection gauge
+ * tells the pools of several transports apart with `elasticsearch.client.name`,
+ * the name of the transport.
+ */
+export class OpenTelemetryMetricsMiddleware implements Middleware {
+  readonly name = MiddlewareName.OPEN_TELEMETRY_METRICS
+  readonly priority = MiddlewarePriority[MiddlewareName.OPEN_TELEMETRY_METRICS]
+
+  private readonly transportOptions: OpenTelemetryMetricsOptions
+  private readonly connectionPool: BaseConnectionPool
+  private readonly clientName: string
+  private instruments: Instruments | null
+
+  constructor (transportOptions: OpenTelemetryMetricsOptions, connectionPool: BaseConnectionPool, clientName: string | symbol = 'elastic-transport-js') {
+    this.transportOptions = transportOptions
+    this.connectionPool = connectionPool
+    this.clientName = typeof clientName === 'symbol' ? clientName.description ?? '' : clientName
+    this.instruments = null
+  }
+
+  around = async (ctx: MiddlewareContext, next: MiddlewareNext): Promise<TransportResult> => {
+    const instruments = this.getInstruments(ctx)
+    if (instruments == null) return await next()
+
+    const start = process.hrtime.bigint()
+    const attributes = this.buildAttributes(ctx)
+    try {
+      const result = await next()
+      Object.assign(attributes, this.responseAttributes(ctx, result))
+      return result
+    } catch (error: any) {
+      // ElasticsearchClientErrors carry the partial result on `.meta`.
+      Object.assign(attributes, this.responseAttributes(ctx, error?.meta as TransportResult | undefined))
+      attributes['error.type'] = (error as Error).name ?? 'Error'
+      instruments.errors.add(1, attributes)
+      throw error
+    } finally {
+      instruments.requests.add(1, attributes)
+      instruments.duration.record(Number(process.hrtime.bigint() - start) / 1e9, attributes)
+    }
+  }
+
+  onRequest = (ctx: MiddlewareContext, request: MiddlewareRequest): undefined => {
+    const instruments = this.getInstruments(ctx)
+    const size = bodySize(request.body)
+    if (instruments == null || size == null) return
+    instruments.requestBodySize.record(size, {
+      ...this.buildAttributes(ctx),
+      ...(ctx.meta.connection != null ? serverAttributes(ctx.meta.connection.url) : null)
+    })
+  }
+
+  onResponse = (ctx: MiddlewareContext, result: TransportResult): undefined => {
+    const instruments = this.getInstruments(ctx)
+    if (instruments == null) return
+    // the body of the result is only set once the response has been read
+    const contentLength = result.headers?.['content-length']
+    const size = contentLength != null ? Number(contentLength) : NaN
+    if (!Number.isFinite(size)) return
+    instruments.responseBodySize.record(size, { ...this.buildAttributes(ctx), ...this.responseAttributes(ctx, result) })
+  }
+
+  onRetry = (ctx: MiddlewareContext, retry: MiddlewareRetry): undefined => {
+    const instruments = this.getInstruments(ctx)
+    if (instruments == null) return
+    const attributes = this.buildAttributes(ctx)
+    if (ctx.meta.connection != null) Object.assign(attributes, serverAttributes(ctx.meta.connection.url))
+    if (retry.statusCode > 0) attributes['db.response.status_code'] = retry.statusCode.toString()
+    if (retry.error != null) attributes['error.type'] = retry.error.name
+    instruments.retries.add(1, attributes)
+  }
+
+  /** Stops reporting the connection pool gauges. */
+  close (): void {
+    this.instruments?.connections.removeCallback(this.observeConnections)
+  }
+
+  private readonly observeConnections = (result: ObservableResult): void => {
+    let alive = 0
+    let dead = 0
+    for (const connection of this.connectionPool.connections) {
+      if (connection.status === BaseConnection.statuses.DEAD) {
+        dead++
+      } else {
+        alive++
+      }
+    }
+    const attributes = { 'db.system': 'elasticsearch', 'elasticsearch.client.name': this.clientName }
+    result.observe(alive, { ...attributes, state: BaseConnection.statuses.ALIVE })
+    result.observe(dead, { ...attributes, state: BaseConnection.statuses.DEAD })
+  }
+
+  private getInstruments (ctx: MiddlewareContext): Instruments | null {
+    const options = Object.assign({}, this.transportOptions, ctx.options.openTelemetryMetrics ?? {})
+    if (!(options.enabled ?? true) || ctx.params.meta?.name == null) return null
+    if (this.instruments == null) {
+      this.instruments = createInstruments(opentelemetry.metrics.getMeter('@elastic/transport', transportVersion))
+      this.instruments.connections.addCallback(this.observeConnections)
+    }
+    return this.instruments
+  }
+
+  private buildAttributes (ctx: MiddlewareContext): Attributes {
+    return {
+      'db.system': 'elasticsearch',
+      'http.request.method': ctx.params.method,
+      'db.operation.name': ctx.params.meta?.name
+    }
+  }
+
+  private responseAttributes (ctx: MiddlewareContext, result: TransportResult | undefined): Attributes {
+    // the connection of an error result is redacted, so fall back on the one of the last attempt
+    const url = result?.meta?.connection?.url instanceof URL ? result.meta.connection.url : ctx.meta.connection?.url
+    const attributes: Attributes = url != null ? serverAttributes(url) : {}
+    // statusCode is 0 when the request failed before receiving a response.
+    if (result?.statusCode != null && result.statusCode > 0) {
+      attributes['db.response.status_code'] = result.statusCode.toString()
+    }
+    return attributes
+  }
+}
+
+function createInstruments (meter: Meter): Instruments {
+  return {
+    duration: meter.createHistogram('db.client.operation.duration', {
+      description: 'Duration of the requests, retries included.',
+      unit: 's',
+      advice: { explicitBucketBoundaries: DURATION_BUCKETS }
+    }),
+    requests: meter.createCounter('elasticsearch.client.requests', {
+      description: 'Number of requests, retries excluded.',
+      unit: '{request}'
+    }),
+    errors: meter.createCounter('elasticsearch.client.errors', {
+      description: 'Number of requests that failed, once every attempt has been made.',
+      unit: '{request}'
+    }),
+    retries: meter.createCounter('elasticsearch.client.retries', {
+      description: 'Number of attempts that are retried.',
+      unit: '{retry}'
+    }),
+    requestBodySize: meter.createHistogram('elasticsearch.client.request.body.size', {
+      description: 'Size of the request bodies sent by each attempt, after compression. Streamed bodies are not recorded.',
+      unit: 'By',
+      advice: { explicitBucketBoundaries: BODY_SIZE_BUCKETS }
+    }),
+    responseBodySize: meter.createHistogram('elasticsearch.client.response.body.size', {
+      description: 'Size of the response bodies, as received. Responses without a content-length header, such as chunked ones, are not recorded.',
+      unit: 'By',
+      advice: { explicitBucketBoundaries: BODY_SIZE_BUCKETS }
+    }),
+    connections: meter.createObservableGauge('elasticsearch.client.connections', {
+      description: 'Number of connections of the connection pool, by state.',
+      unit: '{connection}'
+    })
+  }
+}
@@ -6,5 +6,6 @@
 export { MiddlewareEngine, MiddlewareException } from './MiddlewareEngine'
 export { ProductCheck, type ProductCheckOptions } from './ProductCheck'
 export { OpenTelemetryMiddleware, type OpenTelemetryOptions } from './OpenTelemetry'
+export { OpenTelemetryMetricsMiddleware, type OpenTelemetryMetricsOptions } from './OpenTelemetryMetrics'
 export { MiddlewareName, MiddlewarePriority } from './types'
-export type { Middleware, MiddlewareContext, MiddlewareResult } from './types'
+export type { Middleware, MiddlewareContext, MiddlewareResult, MiddlewareRequest, MiddlewareRetry, MiddlewareErrorResult, MiddlewareNext } from './types'
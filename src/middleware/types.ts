@@ -6,23 +6,26 @@
 import * as http from 'node:http'
 import { TransportRequestOptions, TransportRequestParams } from '../Transport'
 import { RequestBody, TransportResult, Context } from '../types'
-import { Connection } from '../connection'
+import { Connection, ConnectionRequestParams } from '../connection'
 
 /**
- * Enum of all registered middleware names.
- * Each middleware should have a unique name for identification and debugging.
+ * Enum of the names of the built-in middleware. Third-party middleware can
+ * use any other name, which should be unique for identification and debugging.
  */
 export enum MiddlewareName {
   OPEN_TELEMETRY = 'opentelemetry',
+  OPEN_TELEMETRY_METRICS = 'opentelemetry-metrics',
   PRODUCT_CHECK = 'product-check'
 }
 
 /**
- * Priority values for each middleware.
- * Lower values execute first. Middleware is sorted by priority before execution.
+ * Priority values for each built-in middleware.
+ * Lower values execute first. Middleware is sorted by priority before execution,
+ * and middleware without a priority get 100.
  */
 export const MiddlewarePriority: Record<MiddlewareName, number> = {
   [MiddlewareName.OPEN_TELEMETRY]: 10,
+  [MiddlewareName.OPEN_TELEMETRY_METRICS]: 20,
   [MiddlewareName.PRODUCT_CHECK]: 50
 } as const
 
@@ -40,9 +43,9 @@ export interface MiddlewareContext {
     readonly requestId: any
     readonly name: string | symbol
     readonly context: Context | null
-    /** Updated to the active connection before each `onResponse` call. */
+    /** Updated to the active connection before each `onRequest` and `onResponse` call. */
     connection: Connection | null
-    /** Updated to the current retry count before each `onResponse` call. */
+    /** Updated to the current retry count before each `onRequest`, `onResponse` and `onRetry` call. */
     attempts: number
   }
 }
@@ -51,12 +54,53 @@ export interface MiddlewareResult {
   continue?: boolean
 }
 
+/**
+ * The HTTP request of a single attempt. Its headers and querystring are reset
+ * before each attempt, so changes made by `onRequest` only apply to that attempt.
+ */
+export interface MiddlewareRequest {
+  readonly method: string
+  readonly path: string
+  readonly body?: ConnectionRequestParams['body']
+  querystring?: string
+  headers?: http.IncomingHttpHeaders
+}
+
+export interface MiddlewareRetry {
+  /** The error of the failed attempt, or null if it is retried because of its status code. */
+  readonly error: Error | null
+  /** The status code of the failed attempt, 0 if it failed with an error. */
+  readonly statusCode: number
+  /** How long to wait before the next attempt, in milliseconds. */
+  readonly delay: number
+}
+
+export interface MiddlewareErrorResult extends MiddlewareResult {
+  /** Replaces the error for the following handlers and the caller. */
+  error?: Error
+  /** Swallows the error, resolving the request with this result instead. */
+  result?: TransportResult
+}
+
+type MaybePromise<T> = T | Promise<T>
+
 /** Runs the rest of the middleware chain plus the actual request, resolving to the final result. */
 export type MiddlewareNext = () => Promise<TransportResult>
 
 export interface Middleware {
-  readonly name: MiddlewareName
+  /** Either a {@link MiddlewareName} or the name of a third-party middleware. */
+  readonly name: string
   readonly priority?: number
+  /**
+   * Names of the middleware this one must run before, whatever their priority.
+   * Names that are not registered are ignored.
+   */
+  readonly before?: string | string[]
+  /**
+   * Names of the middleware this one must run after, whatever their priority.
+   * Names that are not registered are ignored.
+   */
+  readonly after?: string | string[]
   /**
    * Wraps the whole request (all retries). Call `next()` to run the inner layers
    * and the HTTP request, then return its result. Because the work runs inside the
@@ -69,4 +113,22 @@ export interface Middleware {
    * Returning `{ continue: false }` stops subsequent middleware from running.
    */
   onResponse?: (ctx: MiddlewareContext, result: TransportResult) => MiddlewareResult | undefined
+  /**
+   * Called before each attempt is sent, once `ctx.meta.connection` holds the selected
+   * connection. Can change the headers and querystring of `request`. A hedged copy of
+   * the request is sent with the same headers and querystring.
+   * Returning `{ continue: false }` stops subsequent middleware from running.
+   */
+  onRequest?: (ctx: MiddlewareContext, request: MiddlewareRequest) => MaybePromise<MiddlewareResult | undefined>
+  /**
+   * Called when an attempt is going to be retried, before waiting for `retry.delay`.
+   * Returning `{ continue: false }` stops subsequent middleware from running.
+   */
+  onRetry?: (ctx: MiddlewareContext, retry: MiddlewareRetry) => MaybePromise<MiddlewareResult | undefined>
+  /**
+   * Called when the request fails, once every attempt has been made. Returning
+   * `{ error }` maps the error, while `{ result }` swallows it and resolves the
+   * request with that result, skipping the remaining handlers.
+   */
+  onError?: (ctx: MiddlewareContext, error: Error) => MaybePromise<MiddlewareErrorResult | undefined>
 }
@@ -93,16 +93,32 @@ export default class BaseConnectionPool {
     this[kCaFingerprint] = opts.caFingerprint
   }
 
-  markAlive (connection: Connection): this {
+  /**
+   * Marks a connection as alive. When `latency` is given, the call
+   * reports the outcome of a request that took that many milliseconds.
+   */
+  markAlive (connection: Connection, latency?: number): this {
     connection.status = BaseConnection.statuses.ALIVE
     return this
   }
 
-  markDead (connection: Connection): this {
+  /**
+   * Marks a connection as dead. When `latency` is given, the call
+   * reports the outcome of a request that took that many milliseconds.
+   */
+  markDead (connection: Connection, latency?: number): this {
     connection.status = BaseConnection.statuses.DEAD
     return this
   }
 
+  /**
+   * Releases a connection selected for a request that was cancelled before
+   * it had an outcome, such as the request that lost a hedged race.
+   */
+  release (connection: Connection): this {
+    return this
+  }
+
   getConnection (opts: GetConnectionOptions): Connection | null {
     throw new ConfigurationError('The getConnection method should be implemented by extended classes')
   }
@@ -0,0 +1,208 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import Debug from 'debug'
+import Diagnostic from '../Diagnostic'
+import { Connection, BaseConnection } from '../connection'
+
+const debug = Debug('elasticsearch')
+
+/** Number of buckets the sliding window is divided in. */
+const WINDOW_BUCKETS = 10
+
+export enum CircuitState {
+  CLOSED = 'closed',
+  OPEN = 'open',
+  HALF_OPEN = 'half-open'
+}
+
+export interface CircuitBreakerOptions {
+  /** Length of the sliding window, in milliseconds. Defaults to 10 seconds. */
+  windowSize?: number
+  /** Minimum number of requests in the window before the circuit can trip. Defaults to 10. */
+  minimumRequests?: number
+  /** Error rate, between 0 and 1, at which the circuit trips. Defaults to 0.5. */
+  errorRateThreshold?: number
+  /** Average latency, in milliseconds, at which the circuit trips. Disabled by default. */
+  latencyThreshold?: number | null
+  /** How long the circuit stays open before letting probe requests through, in milliseconds. Defaults to 30 seconds. */
+  openTimeout?: number
+  /** Number of successful probe requests needed to close a half-open circuit. Defaults to 1. */
+  halfOpenRequests?: number
+}
+
+export interface CircuitBreakerEvent {
+  connection: Connection
+  state: CircuitState
+  previousState: CircuitState
+  errorRate: number
+  latency: number
+}
+
+interface Bucket {
+  start: number
+  requests: number
+  errors: number
+  latency: number
+}
+
+/**
+ * Tracks the outcome of the requests sent to a single connection and
+ * stops routing requests to it when they fail or slow down too much.
+ */
+export default class CircuitBreaker {
+  state: CircuitState
+  openedAt: number
+  private readonly connection: Connection
+  private readonly diagnostic: Diagnostic
+  private readonly windowSize: number
+  private readonly minimumRequests: number
+  private readonly errorRateThreshold: number
+  private readonly latencyThreshold: number | null
+  private readonly openTimeout: number
+  private readonly halfOpenRequests: number
+  private buckets: Bucket[]
+  private probes: number
+  private probeSuccesses: number
+  private lastProbe: number
+
+  constructor (connection: Connection, diagnostic: Diagnostic, opts: CircuitBreakerOptions = {}) {
+    this.connection = connection
+    this.diagnostic = diagnostic
+    this.windowSize = opts.windowSize ?? 10000
+    this.minimumRequests = opts.minimumRequests ?? 10
+    this.errorRateThreshold = opts.errorRateThreshold ?? 0.5
+    this.latencyThreshold = opts.latencyThreshold ?? null
+    this.openTimeout = opts.openTimeout ?? 30000
+    this.halfOpenRequests = opts.halfOpenRequests ?? 1
+    this.state = CircuitState.CLOSED
+    this.openedAt = 0
+    this.buckets = []
+    this.probes = 0
+    this.probeSuccesses = 0
+    this.lastProbe = 0
+  }
+
+  /**
+   * Whether a request can be sent to the connection.
+   * An open circuit becomes half-open once `openTimeout` has elapsed.
+   */
+  isAvailable (now: number): boolean {
+    if (this.state === CircuitState.CLOSED) return true
+    if (this.state === CircuitState.OPEN) {
+      if (now - this.openedAt < this.openTimeout) return false
+      this.transition(CircuitState.HALF_OPEN, now)
+    }
+    // a probe that never reported back (e.g. an aborted request) should not block the circuit forever
+    if (this.probes > 0 && now - this.lastProbe >= this.openTimeout) {
+      this.probes = 0
+    }
+    return this.probes < this.halfOpenRequests - this.probeSuccesses
+  }
+
+  /**
+   * Must be called when the connection has been selected for a request.
+   */
+  onSelected (now: number): void {
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.probes++
+      this.lastProbe = now
+    }
+  }
+
+  /**
+   * Frees the probe of a request that was cancelled before it had an outcome.
+   */
+  release (): void {
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.probes = Math.max(0, this.probes - 1)
+    }
+  }
+
+  recordSuccess (latency: number = 0, now: number = Date.now()): void {
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.probes = Math.max(0, this.probes - 1)
+      this.probeSuccesses++
+      if (this.probeSuccesses >= this.halfOpenRequests) {
+        this.transition(CircuitState.CLOSED)
+      }
+      return
+    }
+    this.record(false, latency, now)
+  }
+
+  recordFailure (latency: number = 0, now: number = Date.now()): void {
+    if (this.state === CircuitState.HALF_OPEN) {
+      this.transition(CircuitState.OPEN, now)
+      return
+    }
+    this.record(true, latency, now)
+  }
+
+  private record (error: boolean, latency: number, now: number): void {
+    if (this.state !== CircuitState.CLOSED) return
+
+    const bucketSize = this.windowSize / WINDOW_BUCKETS
+    this.buckets = this.buckets.filter(bucket => now - bucket.start < this.windowSize)
+    let bucket = this.buckets[this.buckets.length - 1]
+    if (bucket == null || now - bucket.start >= bucketSize) {
+      bucket = { start: now, requests: 0, errors: 0, latency: 0 }
+      this.buckets.push(bucket)
+    }
+    bucket.requests++
+    bucket.latency += latency
+    if (error) bucket.errors++
+
+    const { requests, errorRate, averageLatency } = this.stats()
+    if (requests < this.minimumRequests) return
+    if (errorRate >= this.errorRateThreshold ||
+        (this.latencyThreshold != null && averageLatency >= this.latencyThreshold)) {
+      this.transition(CircuitState.OPEN, now)
+    }
+  }
+
+  private stats (): { requests: number, errorRate: number, averageLatency: number } {
+    let requests = 0
+    let errors = 0
+    let latency = 0
+    for (const bucket of this.buckets) {
+      requests += bucket.requests
+      errors += bucket.errors
+      latency += bucket.latency
+    }
+    return {
+      requests,
+      errorRate: requests === 0 ? 0 : errors / requests,
+      averageLatency: requests === 0 ? 0 : latency / requests
+    }
+  }
+
+  private transition (state: CircuitState, now: number = Date.now()): void {
+    const previousState = this.state
+    const { errorRate, averageLatency } = this.stats()
+    debug(`Circuit breaker of connection '${this.connection.id}' is now ${state}`)
+
+    this.state = state
+    this.connection.status = state === CircuitState.OPEN
+      ? BaseConnection.statuses.DEAD
+      : BaseConnection.statuses.ALIVE
+    this.probes = 0
+    this.probeSuccesses = 0
+    if (state === CircuitState.OPEN) {
+      this.openedAt = now
+    }
+    if (state !== CircuitState.HALF_OPEN) {
+      this.buckets = []
+    }
+
+    this.diagnostic.emit('circuit-breaker', null, {
+      connection: this.connection,
+      state,
+      previousState,
+      errorRate,
+      latency: averageLatency
+    })
+  }
+}
@@ -12,6 +12,7 @@ import assert from 'node:assert'
 import Debug from 'debug'
 import { Connection, BaseConnection, ConnectionOptions } from '../connection'
 import { nodeFilterFn } from '../types'
+import CircuitBreaker, { CircuitBreakerOptions } from './CircuitBreaker'
 
 const debug = Debug('elasticsearch')
 
@@ -30,14 +31,26 @@ export interface ResurrectEvent {
   connection: Connection
 }
 
+export interface ClusterConnectionPoolOptions extends ConnectionPoolOptions {
+  useWeightedRoundRobin?: boolean
+  /**
+   * Enables a circuit breaker per connection, which replaces the dead list
+   * and resurrection: a connection whose error rate or latency is too high
+   * stops receiving requests until a few probe requests succeed.
+   */
+  circuitBreaker?: CircuitBreakerOptions | boolean
+}
+
 export default class ClusterConnectionPool extends BaseConnectionPool {
   dead: string[]
   resurrectTimeout: number
   resurrectTimeoutCutoff: number
   pingTimeout: number
   resurrectStrategy: number
+  circuitBreaker: CircuitBreakerOptions | null
   private roundRobinIndex: number
   private readonly useWeightedRoundRobin: boolean
+  private readonly circuitBreakers: WeakMap<Connection, CircuitBreaker>
 
   static resurrectStrategies = {
     none: 0,
@@ -45,12 +58,16 @@ export default class ClusterConnectionPool extends BaseConnectionPool {
     optimistic: 2
   }
 
-  constructor (opts: ConnectionPoolOptions & { useWeightedRoundRobin?: boolean }) {
+  constructor (opts: ClusterConnectionPoolOptions) {
     super(opts)
 
     this.dead = []
     this.roundRobinIndex = 0
     this.useWeightedRoundRobin = opts.useWeightedRoundRobin ?? false
+    this.circuitBreaker = opts.circuitBreaker === true
+      ? {}
+      : (typeof opts.circuitBreaker === 'object' ? opts.circuitBreaker : null)
+    this.circuitBreakers = new WeakMap()
     // the resurrect timeout is 60s
     this.resurrectTimeout = 1000 * 60
     // number of consecutive failures after which
@@ -71,9 +88,20 @@ export default class ClusterConnectionPool extends BaseConnectionPool {
    * If needed removes the connection from the dead list
    * and then resets the `deadCount`.
    *
+   * If the circuit breaker is enabled, the outcome of
+   * the request is recorded by the connection's breaker instead.
+   *
    * @param {object} connection
+   * @param {number} latency
    */
-  markAlive (connection: Connection): this {
+  markAlive (connection: Connection, latency?: number): this {
+    const circuitBreaker = this.getCircuitBreaker(connection)
+    if (circuitBreaker != null) {
+      // only requests count, not e.g. a pool update
+      if (latency != null) circuitBreaker.recordSuccess(latency)
+      return this
+    }
+
     const { id } = connection
     debug(`Marking as 'alive' connection '${id}'`)
     const index = this.dead.indexOf(id)
@@ -84,14 +112,35 @@ export default class ClusterConnectionPool extends BaseConnectionPool {
     return this
   }
 
+  /**
+   * Frees the half-open probe a cancelled request may hold,
+   * so that the connection can be probed again right away.
+   *
+   * @param {object} connection
+   */
+  release (connection: Connection): this {
+    this.getCircuitBreaker(connection)?.release()
+    return this
+  }
+
   /**
    * Marks a connection as 'dead'.
    * If needed adds the connection to the dead list
    * and then increments the `deadCount`.
    *
+   * If the circuit breaker is enabled, the outcome of
+   * the request is recorded by the connection's breaker instead.
+   *
    * @param {object} connection
+   * @param {number} latency
    */
-  markDead (connection: Connection): this {
+  markDead (connection: Connection, latency?: number): this {
+    const circuitBreaker = this.getCircuitBreaker(connection)
+    if (circuitBreaker != null) {
+      circuitBreaker.recordFailure(latency)
+      return this
+    }
+
     const { id } = connection
     debug(`Marking as 'dead' connection '${id}'`)
     if (!this.dead.includes(id)) {
@@ -261,16 +310,37 @@ export default class ClusterConnectionPool extends BaseConnectionPool {
     const connections = []
     for (let i = 0; i < this.size; i++) {
       const connection = this.connections[i]
-      if (noAliveConnections || connection.status === BaseConnection.statuses.ALIVE) {
-        if (filter(connection)) {
-          connections.push(connection)
-        }
+      const circuitBreaker = this.getCircuitBreaker(connection)
+      const available = circuitBreaker != null
+        ? circuitBreaker.isAvailable(opts.now)
+        : noAliveConnections || connection.status === BaseConnection.statuses.ALIVE
+      if (available && filter(connection)) {
+        connections.push(connection)
       }
     }
 
     if (connections.length === 0) return null
 
-    return selector(connections)
+    const connection = selector(connections)
+    if (connection != null) this.getCircuitBreaker(connection)?.onSelected(opts.now)
+    return connection
+  }
+
+  /**
+   * Returns the circuit breaker of a connection,
+   * or null if the circuit breaker is not enabled.
+   *
+   * @param {object} connection
+   * @returns {object|null} circuit breaker
+   */
+  getCircuitBreaker (connection: Connection): CircuitBreaker | null {
+    if (this.circuitBreaker == null) return null
+    let circuitBreaker = this.circuitBreakers.get(connection)
+    if (circuitBreaker == null) {
+      circuitBreaker = new CircuitBreaker(connection, this.diagnostic, this.circuitBreaker)
+      this.circuitBreakers.set(connection, circuitBreaker)
+    }
+    return circuitBreaker
   }
 
   /**
@@ -7,6 +7,7 @@ import BaseConnectionPool from './BaseConnectionPool'
 import WeightedConnectionPool from './WeightedConnectionPool'
 import ClusterConnectionPool from './ClusterConnectionPool'
 import CloudConnectionPool from './CloudConnectionPool'
+import CircuitBreaker, { CircuitState } from './CircuitBreaker'
 
 export type {
   ConnectionPoolOptions,
@@ -15,12 +16,20 @@ export type {
 
 export type {
   ResurrectEvent,
-  ResurrectOptions
+  ResurrectOptions,
+  ClusterConnectionPoolOptions
 } from './ClusterConnectionPool'
 
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerEvent
+} from './CircuitBreaker'
+
 export {
   BaseConnectionPool,
   WeightedConnectionPool,
   ClusterConnectionPool,
-  CloudConnectionPool
+  CloudConnectionPool,
+  CircuitBreaker,
+  CircuitState
 }
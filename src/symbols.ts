@@ -10,7 +10,9 @@ export const kSniffInterval = Symbol('sniff interval')
 export const kSniffOnConnectionFault = Symbol('sniff on connection fault')
 export const kSniffEndpoint = Symbol('sniff endpoint')
 export const kRequestTimeout = Symbol('request timeout')
+export const kTotalTimeout = Symbol('total timeout')
 export const kRetryOnTimeout = Symbol('retry on timeout')
+export const kRetryOnTooManyRequests = Symbol('retry on too many requests')
 export const kCompression = Symbol('compression')
 export const kMaxRetries = Symbol('max retries')
 export const kName = Symbol('name')
@@ -35,4 +37,21 @@ export const kNdjsonContentType = Symbol('ndjson content type')
 export const kAcceptHeader = Symbol('accept header')
 export const kRedaction = Symbol('redaction')
 export const kRetryBackoff = Symbol('retry backoff')
+export const kRetryPolicy = Symbol('retry policy')
 export const kMiddlewareEngine = Symbol('middleware engine')
+export const kHedging = Symbol('hedging')
+export const kLatencyTracker = Symbol('latency tracker')
+export const kRequestQueue = Symbol('request queue')
+export const kQueueTimeout = Symbol('queue timeout')
+export const kCoalesceRequests = Symbol('coalesce requests')
+export const kRequestKey = Symbol('request key')
+export const kRequestCoalescer = Symbol('request coalescer')
+export const kResponseCache = Symbol('response cache')
+export const kCompressionRegistry = Symbol('compression registry')
+export const kLargeIntegers = Symbol('large integers')
+export const kClosed = Symbol('closed')
+export const kInFlight = Symbol('in flight')
+export const kCloseController = Symbol('close controller')
+export const kAuthProvider = Symbol('auth provider')
+export const kSigner = Symbol('signer')
+export const kOpenTelemetryMetrics = Symbol('opentelemetry metrics')
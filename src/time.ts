@@ -0,0 +1,14 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import ms from 'ms'
+
+/** Converts a duration, in milliseconds or as a string such as `'30s'`, to milliseconds. */
+export function toMs (time: number | string): number {
+  if (typeof time === 'string') {
+    return ms(time as ms.StringValue)
+  }
+  return time
+}
@@ -11,9 +11,15 @@ import { TransportRequestParams, TransportRequestOptions } from './Transport'
 
 export type Context = Record<string, unknown> | null
 
-export type RequestBody<T = Record<string, any>> = T | string | Buffer | ReadableStream
+/**
+ * Creates a new stream of the request body. Transport calls it once
+ * per attempt, so that requests with a streamed body can be retried.
+ */
+export type RequestBodyFactory = () => ReadableStream | AsyncIterable<string | Buffer>
+
+export type RequestBody<T = Record<string, any>> = T | string | Buffer | ReadableStream | RequestBodyFactory
 
-export type RequestNDBody<T = Array<Record<string, any>>> = T | string | string[] | Buffer | ReadableStream
+export type RequestNDBody<T = Array<Record<string, any>>> = T | string | string[] | Buffer | ReadableStream | RequestBodyFactory
 
 export interface DiagnosticResult<TResponse = unknown, TContext = unknown> {
   body?: TResponse
@@ -36,6 +42,10 @@ export interface DiagnosticResult<TResponse = unknown, TContext = unknown> {
       reason: string
     }
     duration?: number
+    /** Whether a hedged copy of the request has been sent to another connection. */
+    hedged?: boolean
+    /** Whether the response has been served from the response cache. */
+    cached?: boolean
   }
 }
 
@@ -90,3 +100,5 @@ export type nodeSelectorFn = (connections: Connection[]) => Connection
 export type nodeFilterFn = (connection: Connection) => boolean
 
 export type generateRequestIdFn = (params: TransportRequestParams, options: TransportRequestOptions) => any
+
+export type requestKeyFn = (params: TransportRequestParams, options: TransportRequestOptions) => string | null
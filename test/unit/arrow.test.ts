@@ -0,0 +1,109 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { ArrowStreamDecoder, RecordBatch } from '../../src/Arrow'
+import { DeserializationError } from '../../src/errors'
+import { buildArrowStream } from '../utils'
+import { ArrowTestColumn } from '../utils/buildArrowStream'
+
+const columns: ArrowTestColumn[] = [
+  { name: 'name', type: { name: 'Utf8' } },
+  { name: 'count', type: { name: 'Int', bitWidth: 64 } },
+  { name: 'size', type: { name: 'Int', bitWidth: 32 } },
+  { name: 'score', type: { name: 'Float64' } },
+  { name: 'active', type: { name: 'Bool' } },
+  { name: '@timestamp', type: { name: 'Timestamp' } },
+  { name: 'nothing', type: { name: 'Null' } },
+  { name: 'tags', type: { name: 'List', child: { name: 'Utf8' } } },
+  { name: 'host', type: { name: 'Struct', children: [{ name: 'ip', type: { name: 'Utf8' } }, { name: 'port', type: { name: 'Int', bitWidth: 32 } }] } },
+  { name: 'level', type: { name: 'Utf8' }, dictionary: true }
+]
+
+const batches = [
+  [
+    { name: 'first', count: BigInt(1), size: -5, score: 1.5, active: true, '@timestamp': new Date(1700000000000), nothing: null, tags: ['a', 'b'], host: { ip: '10.0.0.1', port: 9200 }, level: 'info' },
+    { name: null, count: BigInt(2) ** BigInt(60), size: null, score: -0.25, active: false, '@timestamp': null, nothing: null, tags: [], host: null, level: 'warn' }
+  ],
+  [
+    { name: 'ünïcödé', count: BigInt(-3), size: 2147483647, score: null, active: null, '@timestamp': new Date(0), nothing: null, tags: null, host: { ip: null, port: 1 }, level: 'info' }
+  ]
+]
+
+function decode (data: Buffer, size: number, maxMessageSize = Infinity): RecordBatch[] {
+  const decoder = new ArrowStreamDecoder(maxMessageSize)
+  const decoded: RecordBatch[] = []
+  for (let i = 0; i < data.length; i += size) {
+    decoded.push(...decoder.write(data.subarray(i, i + size)))
+  }
+  decoder.end()
+  return decoded
+}
+
+test('Decodes the record batches of a stream', t => {
+  const data = buildArrowStream(columns, batches)
+  for (const size of [1, 7, 100, data.length]) {
+    const decoded = decode(data, size)
+    t.equal(decoded.length, 2, `chunk size ${size}`)
+    t.same(decoded.map(batch => batch.toArray()), batches, `chunk size ${size}`)
+  }
+  t.end()
+})
+
+test('Exposes the schema and the columns', t => {
+  const [batch] = decode(buildArrowStream(columns, batches), 64)
+  t.same(batch.schema.fields.map(field => field.name), columns.map(column => column.name))
+  t.same(batch.schema.fields[1].type, { name: 'Int', bitWidth: 64, signed: true })
+  t.same(batch.schema.fields[5].type, { name: 'Timestamp', unit: 'MILLISECOND', timezone: 'UTC' })
+  t.same(batch.schema.fields[9].dictionary, { id: 9, indexType: { name: 'Int', bitWidth: 32, signed: true }, ordered: false })
+  t.equal(batch.length, 2)
+
+  const count = batch.getChild('count')
+  t.equal(count?.nullCount, 0)
+  t.same(count?.toArray(), [BigInt(1), BigInt(2) ** BigInt(60)])
+  t.equal(batch.getChild('size')?.nullCount, 1)
+  t.equal(batch.getChild('missing'), null)
+  t.equal(batch.get(2), undefined)
+  t.same([...batch].map(row => row.level), ['info', 'warn'])
+  t.end()
+})
+
+test('Decodes streams without continuation markers', t => {
+  t.same(decode(buildArrowStream(columns, batches, true), 13).map(batch => batch.toArray()), batches)
+  t.end()
+})
+
+test('Limits the size of a message', t => {
+  const data = buildArrowStream(columns, batches)
+  t.throws(() => decode(data, 64, 128), DeserializationError)
+  t.end()
+})
+
+test('Throws if the stream is truncated', t => {
+  const data = buildArrowStream(columns, batches)
+  t.throws(() => decode(data.subarray(0, data.length - 100), 64), { name: 'DeserializationError', message: 'The Arrow stream ended in the middle of a message' })
+  t.throws(() => decode(Buffer.alloc(0), 64), { name: 'DeserializationError', message: 'The Arrow stream has no schema' })
+  t.end()
+})
+
+test('Throws on invalid messages', t => {
+  const data = Buffer.concat([Buffer.from([0xff, 0xff, 0xff, 0xff, 8, 0, 0, 0]), Buffer.alloc(8, 0xee)])
+  t.throws(() => decode(data, 64), DeserializationError)
+  t.end()
+})
+
+test('Decodes a stream written by pyarrow', t => {
+  // pyarrow 26, an ES|QL like table with keyword, long, double, boolean and date columns
+  const data = Buffer.from('/////0ABAAAQAAAAAAAKAAwABgAFAAgACgAAAAABBAAMAAAACAAIAAAABAAIAAAABAAAAAUAAADgAAAAlAAAAGAAAAA4AAAABAAAAET///8AAAEKEAAAABwAAAAEAAAAAAAAAAoAAABAdGltZXN0YW1wAACy////AAABAHT///8AAAEGEAAAABQAAAAEAAAAAAAAAAIAAAB1cAAAYP///5j///8AAAEDEAAAABwAAAAEAAAAAAAAAAMAAABjcHUAAAAGAAgABgAGAAAAAAACAMj///8AAAECEAAAACAAAAAEAAAAAAAAAAUAAABieXRlcwAAAAgADAAIAAcACAAAAAAAAAFAAAAAEAAUAAgABgAHAAwAAAAQABAAAAAAAAEFEAAAABwAAAAEAAAAAAAAAAQAAABob3N0AAAAAAQABAAEAAAAAAAAAP////9YAQAAFAAAAAAAAAAMABYABgAFAAgADAAMAAAAAAMEABgAAABoAAAAAAAAAAAACgAYAAwABAAIAAoAAADMAAAAEAAAAAIAAAAAAAAAAAAAAAsAAAAAAAAAAAAAAAEAAAAAAAAACAAAAAAAAAAMAAAAAAAAABgAAAAAAAAABAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAAQAAAAAAAAADAAAAAAAAAAAQAAAAAAAAA4AAAAAAAAABAAAAAAAAAASAAAAAAAAAAAAAAAAAAAAEgAAAAAAAAAAQAAAAAAAABQAAAAAAAAAAEAAAAAAAAAWAAAAAAAAAAQAAAAAAAAAAAAAAAFAAAAAgAAAAAAAAABAAAAAAAAAAIAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAEAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAAQAAAAAAAAABAAAAAAAAAAAAAAAEAAAABAAAAAAAAABlcy0xAAAAAAAEAAAAAAAAAQAAAAAAIAABAAAAAAAAAAAAAAAAAOA/AAAAAAAAAAABAAAAAAAAAAEAAAAAAAAAAJ4GNI8BAAAAAAAAAAAAAP////8AAAAA', 'base64')
+  const [batch] = decode(data, 32)
+  t.same(batch.schema.fields.map(field => [field.name, field.type.name]), [
+    ['host', 'Utf8'], ['bytes', 'Int'], ['cpu', 'FloatingPoint'], ['up', 'Bool'], ['@timestamp', 'Timestamp']
+  ])
+  t.same(batch.toArray(), [
+    { host: 'es-1', bytes: BigInt(1024), cpu: 0.5, up: true, '@timestamp': new Date('2024-05-01T12:00:00Z') },
+    { host: null, bytes: BigInt(2) ** BigInt(53) + BigInt(1), cpu: null, up: false, '@timestamp': null }
+  ])
+  t.end()
+})
@@ -0,0 +1,99 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import FakeTimers from '@sinonjs/fake-timers'
+import AuthProvider from '../../src/AuthProvider'
+
+test('Builds the authorization header of each kind of credentials', async t => {
+  t.equal(await new AuthProvider(async () => ({ username: 'user', password: 'pass' })).authorization(),
+    `Basic ${Buffer.from('user:pass').toString('base64')}`)
+  t.equal(await new AuthProvider(async () => ({ apiKey: 'key' })).authorization(), 'ApiKey key')
+  t.equal(await new AuthProvider(async () => ({ bearer: 'token' })).authorization(), 'Bearer token')
+})
+
+test('Concurrent calls share a single call to the provider', async t => {
+  let calls = 0
+  const auth = new AuthProvider(async () => ({ apiKey: `key-${++calls}` }))
+  const headers = await Promise.all([auth.authorization(), auth.authorization(), auth.authorization()])
+  t.same(headers, ['ApiKey key-1', 'ApiKey key-1', 'ApiKey key-1'])
+  t.equal(await auth.authorization(), 'ApiKey key-1')
+  t.equal(calls, 1)
+})
+
+test('Invalidating a stale header calls the provider again', async t => {
+  let calls = 0
+  const auth = new AuthProvider(async () => ({ apiKey: `key-${++calls}` }))
+  const stale = await auth.authorization()
+  auth.invalidate(stale)
+  t.equal(await auth.authorization(), 'ApiKey key-2')
+  // a second request failing with the stale header does not refresh it again
+  auth.invalidate(stale)
+  t.equal(await auth.authorization(), 'ApiKey key-2')
+  t.equal(calls, 2)
+})
+
+test('A failed call is not cached', async t => {
+  let calls = 0
+  const auth = new AuthProvider(async () => {
+    if (++calls === 1) throw new Error('vault unavailable')
+    return { bearer: 'token' }
+  })
+  await t.rejects(auth.authorization(), { message: 'vault unavailable' })
+  t.equal(await auth.authorization(), 'Bearer token')
+})
+
+test('Rejects invalid providers and credentials', async t => {
+  // @ts-expect-error
+  t.throws(() => new AuthProvider('token'), { name: 'ConfigurationError' })
+  // @ts-expect-error
+  const auth = new AuthProvider(async () => ({ token: 'nope' }))
+  await t.rejects(auth.authorization(), {
+    name: 'ConfigurationError',
+    message: 'The auth provider must resolve to basic, API key or bearer credentials'
+  })
+})
+
+test('Refreshes expiring credentials in the background', async t => {
+  const clock = FakeTimers.install({ toFake: ['Date'], now: 0 })
+  t.teardown(() => clock.uninstall())
+
+  let calls = 0
+  let release = (): void => {}
+  const auth = new AuthProvider(async () => {
+    calls++
+    if (calls === 2) await new Promise<void>(resolve => { release = resolve })
+    return { bearer: `token-${calls}`, expiresAt: Date.now() + 10 * 60 * 1000 }
+  })
+
+  t.equal(await auth.authorization(), 'Bearer token-1')
+  clock.tick(8 * 60 * 1000)
+  t.equal(await auth.authorization(), 'Bearer token-1', 'not refreshed yet')
+  t.equal(calls, 1)
+
+  // within the last minute, the refresh does not block the requests
+  clock.tick(60 * 1000 + 1)
+  t.equal(await auth.authorization(), 'Bearer token-1')
+  t.equal(await auth.authorization(), 'Bearer token-1')
+  t.equal(calls, 2, 'a single refresh runs')
+  release()
+  await new Promise(resolve => setImmediate(resolve))
+  t.equal(await auth.authorization(), 'Bearer token-2')
+})
+
+test('Waits for new credentials once they have expired', async t => {
+  const clock = FakeTimers.install({ toFake: ['Date'], now: 0 })
+  t.teardown(() => clock.uninstall())
+
+  let calls = 0
+  // short-lived credentials are refreshed at half of their lifetime
+  const auth = new AuthProvider(async () => ({ bearer: `token-${++calls}`, expiresAt: Date.now() + 1000 }))
+  t.equal(await auth.authorization(), 'Bearer token-1')
+  clock.tick(400)
+  t.equal(await auth.authorization(), 'Bearer token-1')
+  t.equal(calls, 1)
+  clock.tick(1000)
+  t.equal(await auth.authorization(), 'Bearer token-2')
+})
@@ -0,0 +1,177 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { encodeCbor, decodeCbor, encodeSmile, decodeSmile } from '../../src/BinaryFormats'
+
+const options = { protoAction: 'ignore', constructorAction: 'ignore' } as const
+
+function hex (data: string): Buffer {
+  return Buffer.from(data.replace(/\s/g, ''), 'hex')
+}
+
+function smile (flags: number, ...bytes: Array<number | string>): Buffer {
+  const parts = bytes.map(byte => typeof byte === 'string' ? Buffer.from(byte) : Buffer.from([byte]))
+  return Buffer.concat([Buffer.from(':)\n'), Buffer.from([flags]), ...parts])
+}
+
+const document = {
+  took: 3,
+  timed_out: false,
+  _shards: { total: 1, failed: 0 },
+  hits: {
+    total: { value: 2, relation: 'eq' },
+    max_score: 1.5,
+    hits: [
+      { _id: '1', _source: { title: 'ünïcödé', count: -1000000, big: 2 ** 40, empty: '', nothing: null } },
+      { _id: '2', _source: { title: 'a'.repeat(200), tags: ['x', 'y'], score: -0.25, nested: [[1], []] } }
+    ]
+  }
+}
+
+test('CBOR decodes the RFC 8949 examples', t => {
+  const examples: Array<[string, unknown]> = [
+    ['00', 0],
+    ['18 18', 24],
+    ['19 03e8', 1000],
+    ['1a 000f4240', 1000000],
+    ['1b 000000e8d4a51000', 1000000000000],
+    ['20', -1],
+    ['39 03e7', -1000],
+    ['f9 3e00', 1.5],
+    ['f9 7c00', Infinity],
+    ['fa 47c35000', 100000],
+    ['fb 3ff199999999999a', 1.1],
+    ['f4', false],
+    ['f5', true],
+    ['f6', null],
+    ['60', ''],
+    ['64 49455446', 'IETF'],
+    ['62 c3bc', 'ü'],
+    ['83 010203', [1, 2, 3]],
+    ['a2 6161 01 6162 82 0203', { a: 1, b: [2, 3] }],
+    ['9f 01 82 0203 9f 0405 ff ff', [1, [2, 3], [4, 5]]],
+    ['bf 6161 01 6162 9f 0203 ff ff', { a: 1, b: [2, 3] }],
+    ['7f 65 7374726561 64 6d696e67 ff', 'streaming'],
+    ['c2 49 010000000000000000', 18446744073709551616],
+    ['c3 49 010000000000000000', -18446744073709551617],
+    ['c1 1a 514b67b0', 1363896240],
+    ['a1 01 61 61', { 1: 'a' }]
+  ]
+  for (const [data, value] of examples) {
+    t.same(decodeCbor(hex(data), options), value, data)
+  }
+  t.same(decodeCbor(hex('44 01020304'), options), Buffer.from([1, 2, 3, 4]))
+  t.end()
+})
+
+test('CBOR encodes the smallest heads', t => {
+  t.equal(encodeCbor(0).toString('hex'), '00')
+  t.equal(encodeCbor(1000).toString('hex'), '1903e8')
+  t.equal(encodeCbor(-1000).toString('hex'), '3903e7')
+  t.equal(encodeCbor(1000000000000).toString('hex'), '1b000000e8d4a51000')
+  t.equal(encodeCbor(1.5).toString('hex'), 'fb3ff8000000000000')
+  // integers beyond the safe range are encoded as doubles, like the JSON numbers they come from
+  t.equal(encodeCbor(1e20).toString('hex'), 'fb4415af1d78b58c40')
+  t.equal(encodeCbor(-1e20).toString('hex'), 'fbc415af1d78b58c40')
+  t.equal(encodeCbor(1e300).toString('hex'), 'fb7e37e43c8800759c')
+  t.same(decodeCbor(encodeCbor({ n: 1e20, m: -1e20, l: 1e300 }), options), { n: 1e20, m: -1e20, l: 1e300 })
+  t.equal(encodeCbor({ a: 1, b: [2, 3] }).toString('hex'), 'a26161016162820203')
+  t.equal(encodeCbor(BigInt('18446744073709551616')).toString('hex'), 'c249010000000000000000')
+  t.end()
+})
+
+test('CBOR round-trips a search response', t => {
+  t.same(decodeCbor(encodeCbor(document), options), document)
+  t.end()
+})
+
+test('Smile decodes shared names and values', t => {
+  // [{"a":1},{"a":2}] with the second key as a back reference
+  t.same(decodeSmile(smile(0x01, 0xf8, 0xfa, 0x80, 'a', 0xc2, 0xfb, 0xfa, 0x40, 0xc4, 0xfb, 0xf9), options), [{ a: 1 }, { a: 2 }])
+  // ["abc","abc"] with the second value as a back reference
+  t.same(decodeSmile(smile(0x02, 0xf8, 0x42, 'abc', 0x01, 0xf9), options), ['abc', 'abc'])
+  // ["abc","de","de","abc"], the short back references pointing to index token - 1
+  t.same(decodeSmile(smile(0x02, 0xf8, 0x42, 'abc', 0x41, 'de', 0x02, 0x01, 0xf9), options), ['abc', 'de', 'de', 'abc'])
+  t.throws(() => decodeSmile(smile(0x02, 0xf8, 0x42, 'abc', 0x00, 0xf9), options), /Invalid Smile token 0x00/)
+  t.throws(() => decodeSmile(smile(0x02, 0xf8, 0x42, 'abc', 0x02, 0xf9), options), /back reference/)
+  t.throws(() => decodeSmile(smile(0x00, 0xf8, 0x01, 0xf9), options), /back reference/)
+  t.end()
+})
+
+test('Smile decodes scalars', t => {
+  t.equal(decodeSmile(smile(0x00, 0x24, 0x03, 0x88), options), 100)
+  t.equal(decodeSmile(smile(0x00, 0xdf), options), -16)
+  t.equal(decodeSmile(smile(0x00, 0x21, 0xff), options), null)
+  t.equal(decodeSmile(smile(0x00, 0xe0, 'long ascii', 0xfc), options), 'long ascii')
+  t.same(decodeSmile(smile(0x04, 0xfd, 0x83, 1, 2, 3), options), Buffer.from([1, 2, 3]))
+  t.end()
+})
+
+test('Smile encodes the smallest tokens', t => {
+  const encode = (value: unknown): string => encodeSmile(value).subarray(4).toString('hex')
+  t.equal(encodeSmile(null).subarray(0, 4).toString('hex'), '3a290a00')
+  t.equal(encode(1), 'c2')
+  t.equal(encode(-16), 'df')
+  t.equal(encode(100), '240388')
+  t.equal(encode(''), '20')
+  t.equal(encode('abc'), '42616263')
+  t.equal(encode({ a: true }), 'fa806123fb')
+  t.end()
+})
+
+test('Smile round-trips a search response', t => {
+  t.same(decodeSmile(encodeSmile(document), options), document)
+  const values = [2 ** 31, -(2 ** 31) - 1, Number.MAX_SAFE_INTEGER, Math.PI, -0, 1e300, Buffer.from('binary data of 17')]
+  t.same(decodeSmile(encodeSmile(values), options), values)
+  t.end()
+})
+
+test('Decodes large integers with the largeIntegers strategy', t => {
+  const big = BigInt('18446744073709551615')
+  for (const [encode, decode] of [[encodeCbor, decodeCbor], [encodeSmile, decodeSmile]] as const) {
+    const data = encode([big, -big - BigInt(1), 2 ** 53 - 1])
+    t.same(decode(data, { ...options, largeIntegers: 'bigint' }), [big, -big - BigInt(1), 2 ** 53 - 1])
+    t.same(decode(data, { ...options, largeIntegers: 'string' }), [big.toString(), (-big - BigInt(1)).toString(), 2 ** 53 - 1])
+    t.same(decode(data, options), [Number(big), Number(-big - BigInt(1)), 2 ** 53 - 1])
+  }
+  t.same(decodeCbor(hex('c2 49 010000000000000000'), { ...options, largeIntegers: 'string' }), '18446744073709551616')
+  t.end()
+})
+
+test('Follows the JSON.stringify rules', t => {
+  const value = { date: new Date(0), skipped: undefined, fn: () => {}, array: [undefined, () => {}] }
+  const expected = JSON.parse(JSON.stringify(value))
+  t.same(decodeCbor(encodeCbor(value), options), expected)
+  t.same(decodeSmile(encodeSmile(value), options), expected)
+
+  const circular: Record<string, any> = {}
+  circular.self = circular
+  t.throws(() => encodeCbor(circular), TypeError)
+  t.throws(() => encodeSmile(circular), TypeError)
+  t.end()
+})
+
+test('Protects against prototype poisoning', t => {
+  const poisoned = JSON.parse('{"__proto__":{"admin":true}}')
+  for (const [encode, decode] of [[encodeCbor, decodeCbor], [encodeSmile, decodeSmile]] as const) {
+    const data = encode(poisoned)
+    const decoded = decode<Record<string, any>>(data, options)
+    t.equal(decoded.admin, undefined)
+    t.same(Object.getOwnPropertyDescriptor(decoded, '__proto__')?.value, { admin: true })
+    t.throws(() => decode(data, { ...options, protoAction: 'error' }), /forbidden prototype property/)
+    t.throws(() => decode(encode({ constructor: { prototype: {} } }), { ...options, constructorAction: 'error' }), /forbidden prototype property/)
+  }
+  t.end()
+})
+
+test('Rejects truncated and invalid documents', t => {
+  t.throws(() => decodeCbor(hex('83 0102'), options), /Unexpected end of data/)
+  t.throws(() => decodeCbor(hex('01 02'), options), /Unexpected data after the end/)
+  t.throws(() => decodeCbor(hex('1c'), options), /Invalid CBOR/)
+  t.throws(() => decodeSmile(Buffer.from('{}'), options), /Invalid Smile header/)
+  t.throws(() => decodeSmile(smile(0x00, 0xfa, 0x80, 'a'), options), /Unexpected end of data/)
+  t.end()
+})
@@ -12,7 +12,8 @@ import {
   Connection,
   errors,
   events,
-  ConnectionOptions
+  ConnectionOptions,
+  CircuitState
 } from '../../'
 import { connection } from '../utils'
 const { TimeoutError } = errors
@@ -624,3 +625,148 @@ test('custom selector overrides default round-robin', t => {
   t.end()
 })
 
+
+test('Circuit breaker', t => {
+  t.test('Trips on the error rate and stops routing to the connection', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 4, errorRateThreshold: 0.5 }
+    })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+    const [conn1, conn2] = pool.connections
+
+    const states: string[] = []
+    pool.diagnostic.on(events.CIRCUIT_BREAKER, (err, event) => {
+      t.error(err)
+      t.equal(event?.connection, conn1)
+      states.push(`${event?.previousState as string}->${event?.state as string}`)
+    })
+
+    pool.markAlive(conn1, 10)
+    pool.markDead(conn1, 10)
+    pool.markAlive(conn1, 10)
+    t.equal(pool.getCircuitBreaker(conn1)?.state, CircuitState.CLOSED)
+    pool.markDead(conn1, 10)
+    t.equal(pool.getCircuitBreaker(conn1)?.state, CircuitState.OPEN)
+    t.equal(conn1.status, BaseConnection.statuses.DEAD)
+    t.same(pool.dead, [])
+    t.same(states, ['closed->open'])
+
+    const opts = { now: Date.now(), requestId: 1, name: 'elasticsearch-js', context: null }
+    for (let i = 0; i < 5; i++) {
+      t.equal(pool.getConnection(opts), conn2)
+    }
+    t.end()
+  })
+
+  t.test('Trips on latency', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 2, latencyThreshold: 100 }
+    })
+    pool.addConnection('http://localhost:9200')
+    const [conn] = pool.connections
+
+    pool.markAlive(conn, 50)
+    pool.markAlive(conn, 120)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.CLOSED)
+    pool.markAlive(conn, 200)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.OPEN)
+    t.end()
+  })
+
+  t.test('Half-open state lets a limited number of probes through', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 1, openTimeout: 1000, halfOpenRequests: 2 }
+    })
+    pool.addConnection('http://localhost:9200')
+    const [conn] = pool.connections
+
+    const states: string[] = []
+    pool.diagnostic.on(events.CIRCUIT_BREAKER, (err, event) => {
+      states.push(event?.state as string)
+    })
+
+    pool.markDead(conn, 10)
+    const openedAt = pool.getCircuitBreaker(conn)?.openedAt as number
+    const opts = { requestId: 1, name: 'elasticsearch-js', context: null }
+
+    t.equal(pool.getConnection({ ...opts, now: openedAt + 999 }), null)
+    t.equal(pool.getConnection({ ...opts, now: openedAt + 1000 }), conn)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.HALF_OPEN)
+    t.equal(pool.getConnection({ ...opts, now: openedAt + 1000 }), conn)
+    // both probes are in flight
+    t.equal(pool.getConnection({ ...opts, now: openedAt + 1000 }), null)
+
+    pool.markAlive(conn, 10)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.HALF_OPEN)
+    pool.markAlive(conn, 10)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.CLOSED)
+    t.equal(conn.status, BaseConnection.statuses.ALIVE)
+    t.same(states, ['open', 'half-open', 'closed'])
+    t.end()
+  })
+
+  t.test('A failed probe opens the circuit again', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 1, openTimeout: 1000 }
+    })
+    pool.addConnection('http://localhost:9200')
+    const [conn] = pool.connections
+
+    pool.markDead(conn, 10)
+    const openedAt = pool.getCircuitBreaker(conn)?.openedAt as number
+    const opts = { requestId: 1, name: 'elasticsearch-js', context: null }
+    t.equal(pool.getConnection({ ...opts, now: openedAt + 1000 }), conn)
+
+    pool.markDead(conn, 10)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.OPEN)
+    t.equal(conn.status, BaseConnection.statuses.DEAD)
+    t.end()
+  })
+
+  t.test('Releasing a cancelled probe lets the connection be probed again', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 1, openTimeout: 1000 }
+    })
+    pool.addConnection('http://localhost:9200')
+    const [conn] = pool.connections
+
+    pool.markDead(conn, 10)
+    const openedAt = pool.getCircuitBreaker(conn)?.openedAt as number
+    const opts = { requestId: 1, name: 'elasticsearch-js', context: null, now: openedAt + 1000 }
+    t.equal(pool.getConnection(opts), conn)
+    t.equal(pool.getConnection(opts), null)
+
+    pool.release(conn)
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.HALF_OPEN)
+    t.equal(pool.getConnection(opts), conn)
+    t.end()
+  })
+
+  t.test('Pool updates are not counted as requests', t => {
+    const pool = new ClusterConnectionPool({
+      Connection: HttpConnection,
+      circuitBreaker: { minimumRequests: 1, openTimeout: 1000 }
+    })
+    pool.addConnection('http://localhost:9200')
+    const [conn] = pool.connections
+
+    pool.markDead(conn, 10)
+    pool.update([conn])
+    t.equal(pool.getCircuitBreaker(conn)?.state, CircuitState.OPEN)
+    t.end()
+  })
+
+  t.test('Is disabled by default', t => {
+    const pool = new ClusterConnectionPool({ Connection: HttpConnection })
+    pool.addConnection('http://localhost:9200')
+    t.equal(pool.getCircuitBreaker(pool.connections[0]), null)
+    t.end()
+  })
+
+  t.end()
+})
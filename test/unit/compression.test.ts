@@ -0,0 +1,75 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { pipeline } from 'node:stream/promises'
+import { Readable, Writable } from 'node:stream'
+import { CompressionRegistry, zstdCodec } from '../../src/Compression'
+import { ConfigurationError } from '../../src/errors'
+
+test('Finds the codec of a content-encoding', t => {
+  const registry = new CompressionRegistry()
+  t.equal(registry.fromContentEncoding('gzip')?.name, 'gzip')
+  t.equal(registry.fromContentEncoding('BR')?.name, 'br')
+  t.equal(registry.fromContentEncoding(['deflate'])?.name, 'deflate')
+  t.equal(registry.fromContentEncoding('x-gzip')?.name, 'gzip')
+  t.equal(registry.fromContentEncoding('identity'), null)
+  t.equal(registry.fromContentEncoding(''), null)
+  t.equal(registry.fromContentEncoding(undefined), null)
+  t.equal(registry.fromContentEncoding('lz4'), null)
+  t.equal(registry.has('zstd'), zstdCodec != null)
+  t.end()
+})
+
+test('Registers and unregisters codecs', t => {
+  const registry = new CompressionRegistry()
+  registry.unregister('br')
+  t.notOk(registry.has('br'))
+  t.throws(() => registry.get('br'), ConfigurationError)
+  t.end()
+})
+
+test('Builds the accept-encoding header', t => {
+  const registry = new CompressionRegistry()
+  t.equal(registry.acceptEncoding('gzip'), 'gzip,deflate')
+  t.equal(registry.acceptEncoding('br'), 'br,gzip,deflate')
+  t.end()
+})
+
+test('Every built-in codec round-trips', async t => {
+  const registry = new CompressionRegistry()
+  const data = JSON.stringify({ hello: 'world' }).repeat(100)
+  for (const name of ['gzip', 'deflate', 'br', 'zstd']) {
+    if (!registry.has(name)) continue
+    const codec = registry.get(name)
+    const compressed = await codec.compress(data)
+    t.equal((await codec.decompress(compressed, data.length)).toString(), data, name)
+
+    const chunks: Buffer[] = []
+    await pipeline(
+      Readable.from([data]),
+      codec.createCompressStream(),
+      codec.createDecompressStream(),
+      new Writable({
+        write (chunk, _encoding, callback) {
+          chunks.push(chunk)
+          callback()
+        }
+      })
+    )
+    t.equal(Buffer.concat(chunks).toString(), data, `${name} stream`)
+  }
+})
+
+test('Every built-in codec stops at maxOutputLength', async t => {
+  const registry = new CompressionRegistry()
+  const data = Buffer.alloc(1024 * 1024)
+  for (const name of ['gzip', 'deflate', 'br', 'zstd']) {
+    if (!registry.has(name)) continue
+    const codec = registry.get(name)
+    const compressed = await codec.compress(data)
+    await t.rejects(codec.decompress(compressed, 1024), { code: 'ERR_BUFFER_TOO_LARGE' }, name)
+  }
+})
@@ -73,6 +73,8 @@ function makeDiagnostics(): DiagnosticResult[] {
 function errFactory (message: string, meta: DiagnosticResult, options: errors.ErrorOptions) {
   return [
     new errors.TimeoutError(message, meta, options),
+    new errors.DeadlineExceededError(message, meta, options),
+    new errors.QueueTimeoutError(message, meta, options),
     new errors.ConnectionError(message, meta, options),
     new errors.NoLivingConnectionsError(message, meta, options),
     new errors.ResponseError(meta, options),
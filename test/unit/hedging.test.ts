@@ -0,0 +1,39 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { LatencyTracker } from '../../src/Hedging'
+
+test('LatencyTracker', t => {
+  t.test('Returns null until enough samples are recorded', t => {
+    const tracker = new LatencyTracker()
+    t.equal(tracker.percentile(50), null)
+    for (let i = 0; i < 19; i++) tracker.record(i)
+    t.equal(tracker.percentile(50), null)
+    tracker.record(19)
+    t.equal(tracker.percentile(50), 9)
+    t.end()
+  })
+
+  t.test('Computes percentiles', t => {
+    const tracker = new LatencyTracker()
+    for (let i = 100; i > 0; i--) tracker.record(i)
+    t.equal(tracker.percentile(50), 50)
+    t.equal(tracker.percentile(95), 95)
+    t.equal(tracker.percentile(100), 100)
+    t.equal(tracker.percentile(0), 1)
+    t.end()
+  })
+
+  t.test('Keeps a sliding window', t => {
+    const tracker = new LatencyTracker(10)
+    for (let i = 0; i < 10; i++) tracker.record(1000)
+    for (let i = 0; i < 10; i++) tracker.record(i)
+    t.equal(tracker.percentile(100, 1), 9)
+    t.end()
+  })
+
+  t.end()
+})
@@ -8,7 +8,7 @@ import { URL } from 'node:url'
 import * as http from 'node:http'
 import { Agent } from 'node:http'
 import buffer from 'node:buffer'
-import { gzipSync, deflateSync } from 'node:zlib'
+import { gzipSync, deflateSync, brotliCompressSync } from 'node:zlib'
 import { Readable } from 'node:stream'
 import net from "node:net";
 import { test } from 'tap'
@@ -347,6 +347,151 @@ test('Timeout support', t => {
   t.end()
 })
 
+test('Phase timeouts', t => {
+  t.test('headersTimeout', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 50
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'headers',
+      message: 'Timed out waiting for the response headers'
+    })
+    server.stop()
+  })
+
+  t.test('headersTimeout per request', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 5000
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, { ...options, headersTimeout: 50 }), {
+      name: 'TimeoutError',
+      phase: 'headers'
+    })
+    server.stop()
+  })
+
+  t.test('headersTimeout starts once the request body has been sent', async t => {
+    function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+      let body = ''
+      req.setEncoding('utf8')
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => res.end(body))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 100
+    })
+    async function * slowBody (): AsyncGenerator<string> {
+      for (let i = 0; i < 5; i++) {
+        yield 'chunk'
+        await setTimeout(50)
+      }
+    }
+    const res = await connection.request({ path: '/hello', method: 'POST', body: Readable.from(slowBody()) }, options)
+    t.equal(res.body, 'chunkchunkchunkchunkchunk')
+    server.stop()
+  })
+
+  t.test('The shorter request timeout wins', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      timeout: 50,
+      headersTimeout: 5000
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'request',
+      message: 'Request timed out'
+    })
+    server.stop()
+  })
+
+  t.test('bodyIdleTimeout', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      res.writeHead(200, { 'content-type': 'text/plain' })
+      res.write('first chunk')
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 5000,
+      bodyIdleTimeout: 50
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'body',
+      message: 'Timed out waiting for the response body'
+    })
+    server.stop()
+  })
+
+  t.test('bodyIdleTimeout does not limit a body that keeps coming', async t => {
+    async function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      res.writeHead(200, { 'content-type': 'text/plain' })
+      for (let i = 0; i < 5; i++) {
+        res.write('chunk')
+        await setTimeout(20)
+      }
+      res.end()
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new HttpConnection({
+      url: new URL(`http://localhost:${port}`),
+      bodyIdleTimeout: 80
+    })
+    const res = await connection.request({ path: '/hello', method: 'GET' }, options)
+    t.equal(res.body, 'chunk'.repeat(5))
+    server.stop()
+  })
+
+  t.test('connectTimeout covers the TLS handshake', async t => {
+    // accepts the TCP connection but never answers the TLS handshake
+    const sockets: net.Socket[] = []
+    const server = net.createServer(socket => { sockets.push(socket) })
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    const { port } = server.address() as net.AddressInfo
+
+    const connection = new HttpConnection({
+      url: new URL(`https://localhost:${port}`),
+      connectTimeout: 100
+    })
+    // the request was never sent, so it fails like any other connection failure
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'ConnectionError',
+      message: 'TLS handshake timed out',
+      cause: { name: 'TimeoutError', phase: 'tls' }
+    })
+    await connection.close()
+    for (const socket of sockets) socket.destroy()
+    server.close()
+  })
+
+  t.end()
+})
+
 test('Should concatenate the querystring', async t => {
   t.plan(1)
 
@@ -476,6 +621,27 @@ test('Should not close a connection if there are open requests', async t => {
   server.stop()
 })
 
+test('Closes the connection as soon as the open requests complete', async t => {
+  function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+    setTimeout(50).then(() => res.end('ok'))
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+  const connection = new HttpConnection({
+    url: new URL(`http://localhost:${port}`)
+  })
+
+  const request = connection.request({ path: '/hello', method: 'GET' }, options)
+  await setTimeout(10)
+  const start = Date.now()
+  await connection.close()
+  t.ok(Date.now() - start < 500)
+  t.equal(connection._openRequests, 0)
+  const res = await request
+  t.equal(res.body, 'ok')
+})
+
 test('Url with auth', async t => {
   t.plan(1)
 
@@ -1339,6 +1505,41 @@ test('Body too big custom option (string)', async t => {
   server.stop()
 })
 
+test('Compressed body of any codec is read as a buffer', async t => {
+  const body = brotliCompressSync(JSON.stringify({ hello: 'world' }))
+  function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, {
+      'content-type': 'application/json;utf=8',
+      'content-encoding': 'br'
+    })
+    res.end(body)
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+  const connection = new HttpConnection({
+    url: new URL(`http://localhost:${port}`)
+  })
+
+  const res = await connection.request({
+    method: 'GET',
+    path: '/'
+  }, options)
+  t.ok(Buffer.isBuffer(res.body))
+  t.same(res.body, body)
+
+  try {
+    await connection.request({
+      method: 'GET',
+      path: '/'
+    }, { ...options, maxCompressedResponseSize: 1 })
+    t.fail('Should throw')
+  } catch (err: any) {
+    t.ok(err instanceof RequestAbortedError)
+    t.equal(err.message, `The content length (${body.length}) is bigger than the maximum allowed buffer (1)`)
+  }
+})
+
 test('Body too big custom option (buffer)', async t => {
   t.plan(2)
 
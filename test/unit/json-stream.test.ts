@@ -0,0 +1,84 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { JsonArrayScanner } from '../../src/JsonStream'
+import { DeserializationError } from '../../src/errors'
+
+// feeds the document to the scanner in chunks of `size` bytes
+function scan (json: string, path: string[], size: number, maxElementSize: number = Infinity): string[] {
+  const scanner = new JsonArrayScanner(path, maxElementSize)
+  const buffer = Buffer.from(json)
+  const elements: Buffer[] = []
+  for (let i = 0; i < buffer.length; i += size) {
+    elements.push(...scanner.write(buffer.subarray(i, i + size)))
+  }
+  elements.push(...scanner.end())
+  return elements.map(element => element.toString())
+}
+
+const response = JSON.stringify({
+  took: 3,
+  'hits.total': 'not a path',
+  _shards: { hits: [{ skip: true }] },
+  hits: {
+    total: { value: 3 },
+    max_score: 1,
+    hits: [
+      { _id: '1', _source: { title: 'a "quoted" [string] with {braces}', tags: ['x', 'y'] } },
+      { _id: '2', _source: { title: 'ünïcödé \\ backslash', nested: { hits: { hits: [1] } } } },
+      { _id: '3', _source: {} }
+    ]
+  },
+  aggregations: { hits: { hits: [] } }
+}, null, 2)
+
+test('Yields the elements of the selected array', t => {
+  for (const size of [1, 2, 7, 64, response.length]) {
+    const elements = scan(response, ['hits', 'hits'], size)
+    t.same(elements.map(element => JSON.parse(element)), JSON.parse(response).hits.hits, `chunk size ${size}`)
+  }
+  t.end()
+})
+
+test('Yields primitive elements', t => {
+  for (const size of [1, 3, 100]) {
+    const elements = scan('{"values":[1, -2.5e3 ,"a,b]" ,true,null, false],"other":[4]}', ['values'], size)
+    t.same(elements, ['1', '-2.5e3', '"a,b]"', 'true', 'null', 'false'], `chunk size ${size}`)
+  }
+  t.end()
+})
+
+test('Selects a root array', t => {
+  t.same(scan('[{"index":"a"},{"index":"b"}]', [], 5), ['{"index":"a"}', '{"index":"b"}'])
+  t.same(scan('[1,2]', [], 1), ['1', '2'])
+  t.end()
+})
+
+test('Throws when the path is not found', t => {
+  t.throws(() => scan(response, ['hits', 'missing'], 10), {
+    name: 'DeserializationError',
+    message: "The JSON document has no array at the path 'hits.missing'"
+  })
+  t.throws(() => scan('{"hits":{"hits":{"not":"an array"}}}', ['hits', 'hits'], 10), DeserializationError)
+  t.same(scan('{"hits":[]}', ['hits'], 10), [])
+  t.end()
+})
+
+test('Handles escaped keys', t => {
+  t.same(scan('{"h\\u0069ts":[1,2]}', ['hits'], 3), ['1', '2'])
+  t.end()
+})
+
+test('Limits the size of an element', t => {
+  t.throws(() => scan('{"hits":[{"a":1},{"a":"a long string"}]}', ['hits'], 4, 10), DeserializationError)
+  t.same(scan('{"hits":[{"a":1},{"a":2}],"other":"a long string"}', ['hits'], 4, 10), ['{"a":1}', '{"a":2}'])
+  t.end()
+})
+
+test('Throws if the document ends inside the selected array', t => {
+  t.throws(() => scan('{"hits":[{"a":1},{"a"', ['hits'], 4), DeserializationError)
+  t.end()
+})
@@ -0,0 +1,54 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { parseLossless, stringifyLossless } from '../../src/LosslessJson'
+
+const options = { protoAction: 'ignore', constructorAction: 'ignore', largeIntegers: 'bigint' } as const
+
+test('Parses like JSON.parse', t => {
+  const documents = [
+    '{}',
+    '[]',
+    ' { "a" : [ 1 , -2.5e3 , true , false , null , "x" ] , "b" : { } } ',
+    '"esc\\"aped \\\\ \\u00fc \\n"',
+    '"ünïcödé 🚀"',
+    '0',
+    '-0',
+    '1E+2',
+    '[[[[]]]]',
+    '{"a":1,"a":2}'
+  ]
+  for (const document of documents) {
+    t.same(parseLossless(document, options), JSON.parse(document), document)
+  }
+  t.end()
+})
+
+test('Rejects what JSON.parse rejects', t => {
+  const documents = ['', '{', '[1,]', '{"a":1,}', '{a:1}', '01', '1.', '-', '+1', 'tru', '"\n"', '"open', '{} {}', "'a'", '[1 2]']
+  for (const document of documents) {
+    t.throws(() => JSON.parse(document), SyntaxError, document)
+    t.throws(() => parseLossless(document, options), SyntaxError, document)
+  }
+  t.end()
+})
+
+test('Keeps the precision of large integers', t => {
+  t.equal(parseLossless('9007199254740991', options), 9007199254740991)
+  t.equal(parseLossless('9007199254740992', options), BigInt('9007199254740992'))
+  t.equal(parseLossless('-18446744073709551615', options), BigInt('-18446744073709551615'))
+  t.equal(parseLossless('18446744073709551615', { ...options, largeIntegers: 'string' }), '18446744073709551615')
+  t.equal(parseLossless('18446744073709551615', { ...options, largeIntegers: 'number' }), 18446744073709551615)
+  t.equal(parseLossless('1e400', options), Infinity)
+  t.end()
+})
+
+test('Stringifies BigInt values as integers', t => {
+  const value = { a: BigInt('-18446744073709551615'), b: [BigInt(0)], c: 'not a __bigint_ marker 1', d: undefined }
+  t.equal(stringifyLossless(value), '{"a":-18446744073709551615,"b":[0],"c":"not a __bigint_ marker 1"}')
+  t.equal(stringifyLossless({ a: 1 }), '{"a":1}')
+  t.end()
+})
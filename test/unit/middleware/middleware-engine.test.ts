@@ -221,3 +221,151 @@ test('MiddlewareEngine.run (around chain)', async t => {
   })
 })
 
+
+test('MiddlewareEngine lifecycle hooks', async t => {
+  await t.test('awaits the onRequest handlers in priority order', async t => {
+    const engine = new MiddlewareEngine()
+    const request = { method: 'GET', path: '/test', querystring: '', headers: {} as Record<string, string> }
+
+    engine.register({
+      name: MiddlewareName.PRODUCT_CHECK,
+      priority: 50,
+      onRequest: (_ctx, request) => {
+        request.headers = { ...request.headers, second: String(request.headers?.first) }
+        return undefined
+      }
+    })
+    engine.register({
+      name: MiddlewareName.OPEN_TELEMETRY,
+      priority: 10,
+      onRequest: async (_ctx, request) => {
+        await new Promise(resolve => setImmediate(resolve))
+        request.headers = { first: 'yes' }
+        request.querystring = 'a=1'
+        return undefined
+      }
+    })
+
+    await engine.executeOnRequest(createMockContext(), request)
+    t.same(request.headers, { first: 'yes', second: 'yes' })
+    t.equal(request.querystring, 'a=1')
+  })
+
+  await t.test('wraps non-transport errors of onRequest and onRetry', async t => {
+    const engine = new MiddlewareEngine()
+    engine.register({
+      name: MiddlewareName.PRODUCT_CHECK,
+      onRequest: async () => { throw new Error('boom') },
+      onRetry: () => { throw new Error('boom') }
+    })
+
+    await t.rejects(engine.executeOnRequest(createMockContext(), { method: 'GET', path: '/' }), {
+      name: 'MiddlewareException',
+      message: 'Middleware product-check failed in onRequest'
+    })
+    await t.rejects(engine.executeOnRetry(createMockContext(), { error: null, statusCode: 503, delay: 10 }), {
+      name: 'MiddlewareException',
+      message: 'Middleware product-check failed in onRetry'
+    })
+  })
+
+  await t.test('onRetry stops when continue is false', async t => {
+    const engine = new MiddlewareEngine()
+    const seen: number[] = []
+    engine.register({ name: MiddlewareName.OPEN_TELEMETRY, priority: 10, onRetry: (_ctx, retry) => { seen.push(retry.delay); return { continue: false } } })
+    engine.register({ name: MiddlewareName.PRODUCT_CHECK, priority: 20, onRetry: (_ctx, retry) => { seen.push(retry.delay); return undefined } })
+
+    await engine.executeOnRetry(createMockContext(), { error: null, statusCode: 503, delay: 10 })
+    t.same(seen, [10])
+  })
+
+  await t.test('onError maps the error for the next handlers', async t => {
+    const engine = new MiddlewareEngine()
+    const seen: string[] = []
+    engine.register({
+      name: MiddlewareName.OPEN_TELEMETRY,
+      priority: 10,
+      onError: async (_ctx, error) => ({ error: new Error(`mapped ${error.message}`) })
+    })
+    engine.register({
+      name: MiddlewareName.PRODUCT_CHECK,
+      priority: 20,
+      onError: (_ctx, error) => { seen.push(error.message); return undefined }
+    })
+
+    await t.rejects(engine.run(createMockContext(), async () => { throw new Error('boom') }), { message: 'mapped boom' })
+    t.same(seen, ['mapped boom'])
+  })
+
+  await t.test('onError swallows the error with a result', async t => {
+    const engine = new MiddlewareEngine()
+    const result = createMockResult({ statusCode: 404 })
+    let aroundResult
+    engine.register({
+      name: MiddlewareName.OPEN_TELEMETRY,
+      priority: 10,
+      around: async (_ctx, next) => {
+        aroundResult = await next()
+        return aroundResult
+      },
+      onError: () => ({ result })
+    })
+
+    t.equal(await engine.run(createMockContext(), async () => { throw new Error('boom') }), result)
+    t.equal(aroundResult, result, 'the around handlers see the result')
+  })
+})
+
+test('MiddlewareEngine registration', async t => {
+  await t.test('accepts third-party names', async t => {
+    const engine = new MiddlewareEngine()
+    engine.register({ name: 'my-company/audit', priority: 20 })
+    engine.register({ name: MiddlewareName.PRODUCT_CHECK, priority: 10 })
+    t.same(engine.names(), ['product-check', 'my-company/audit'])
+    t.equal(engine.has('my-company/audit'), true)
+  })
+
+  await t.test('unregisters middleware by name', async t => {
+    const engine = new MiddlewareEngine()
+    let called = false
+    engine.register({ name: 'audit', onResponse: () => { called = true; return undefined } })
+    t.equal(engine.unregister('audit'), true)
+    t.equal(engine.unregister('audit'), false)
+    engine.executeOnResponse(createMockContext(), createMockResult())
+    t.equal(called, false)
+    t.same(engine.names(), [])
+  })
+
+  await t.test('replaces middleware in place', async t => {
+    const engine = new MiddlewareEngine()
+    engine.register({ name: 'first', priority: 10 })
+    engine.register({ name: 'second', priority: 10 })
+    engine.register({ name: 'third', priority: 10 })
+    engine.replace('second', { name: 'other', priority: 10 })
+    t.same(engine.names(), ['first', 'other', 'third'])
+    t.throws(() => engine.replace('second', { name: 'other' }), {
+      name: 'ConfigurationError',
+      message: 'Middleware second is not registered'
+    })
+  })
+
+  await t.test('before and after constraints override priorities', async t => {
+    const engine = new MiddlewareEngine()
+    engine.register({ name: MiddlewareName.OPEN_TELEMETRY, priority: MiddlewarePriority[MiddlewareName.OPEN_TELEMETRY] })
+    engine.register({ name: MiddlewareName.PRODUCT_CHECK, priority: MiddlewarePriority[MiddlewareName.PRODUCT_CHECK] })
+    engine.register({ name: 'signer', priority: 100, before: 'opentelemetry' })
+    engine.register({ name: 'metrics', priority: 0, after: ['product-check', 'missing'] })
+    engine.register({ name: 'cache', priority: 5 })
+    t.same(engine.names(), ['cache', 'signer', 'opentelemetry', 'product-check', 'metrics'])
+  })
+
+  await t.test('rejects conflicting constraints', async t => {
+    const engine = new MiddlewareEngine()
+    engine.register({ name: 'a', before: 'b' })
+    t.throws(() => engine.register({ name: 'b', before: 'a' }), {
+      name: 'ConfigurationError',
+      message: 'The before and after constraints of the middleware a, b form a cycle'
+    })
+    t.same(engine.names(), ['a'], 'the middleware is not registered')
+  })
+})
@@ -0,0 +1,289 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { Readable } from 'node:stream'
+import opentelemetry, { Attributes, ObservableCallback } from '@opentelemetry/api'
+import { OpenTelemetryMetricsMiddleware } from '../../../src/middleware/OpenTelemetryMetrics'
+import { MiddlewareContext, MiddlewareName, MiddlewarePriority } from '../../../src/middleware/types'
+import Transport, { TransportRequestParams } from '../../../src/Transport'
+import { TransportResult } from '../../../src/types'
+import { BaseConnection, ConnectionRequestParams } from '../../../src/connection'
+import { WeightedConnectionPool } from '../../../src/pool'
+import { ResponseError } from '../../../src/errors'
+
+interface Measurement {
+  name: string
+  value: number
+  attributes: Attributes
+}
+
+// records every measurement, since @opentelemetry/sdk-metrics is not a dependency
+class RecordingMeterProvider {
+  measurements: Measurement[] = []
+  callbacks = new Map<string, Set<ObservableCallback>>()
+
+  getMeter (): any {
+    const record = (name: string) => (value: number, attributes: Attributes = {}) => {
+      this.measurements.push({ name, value, attributes })
+    }
+    return {
+      createHistogram: (name: string) => ({ record: record(name) }),
+      createCounter: (name: string) => ({ add: record(name) }),
+      createObservableGauge: (name: string) => {
+        // like the SDK, the instruments of the same name share their callbacks
+        const callbacks = this.callbacks.get(name) ?? new Set<ObservableCallback>()
+        this.callbacks.set(name, callbacks)
+        return {
+          addCallback: (callback: ObservableCallback) => callbacks.add(callback),
+          removeCallback: (callback: ObservableCallback) => callbacks.delete(callback)
+        }
+      }
+    }
+  }
+
+  collect (name: string): Measurement[] {
+    const measurements: Measurement[] = []
+    for (const callback of this.callbacks.get(name) ?? []) {
+      void callback({ observe: (value: number, attributes: Attributes = {}) => measurements.push({ name, value, attributes }) })
+    }
+    return measurements
+  }
+
+  get (name: string): Measurement[] {
+    return this.measurements.filter(m => m.name === name)
+  }
+}
+
+function createContext (params: Partial<TransportRequestParams> = {}, options: any = {}): MiddlewareContext {
+  return {
+    request: {
+      method: params.method ?? 'GET',
+      path: params.path ?? '/test',
+      headers: {}
+    },
+    params: {
+      method: 'GET',
+      path: '/test',
+      meta: { name: 'search' },
+      ...params
+    },
+    options,
+    meta: {
+      requestId: 1,
+      name: 'search',
+      context: null,
+      connection: { url: new URL('http://localhost:9200/') } as any,
+      attempts: 0
+    }
+  }
+}
+
+function createResult (overrides: Partial<TransportResult> = {}): TransportResult {
+  return {
+    body: {},
+    statusCode: 200,
+    headers: {},
+    meta: {
+      context: null,
+      request: { params: { method: 'GET', path: '/test' }, options: {}, id: 1 },
+      name: 'search',
+      connection: { url: new URL('https://node-1.example.com/') } as any,
+      attempts: 0,
+      aborted: false
+    },
+    warnings: null,
+    ...overrides
+  }
+}
+
+function createPool (): WeightedConnectionPool {
+  const pool = new WeightedConnectionPool({ Connection: BaseConnection })
+  pool.addConnection(['http://localhost:9200', 'http://localhost:9201', 'http://localhost:9202'])
+  return pool
+}
+
+test('OpenTelemetryMetricsMiddleware', async t => {
+  let provider: RecordingMeterProvider
+
+  t.beforeEach(() => {
+    opentelemetry.metrics.disable()
+    provider = new RecordingMeterProvider()
+    opentelemetry.metrics.setGlobalMeterProvider(provider as any)
+  })
+
+  t.after(() => {
+    opentelemetry.metrics.disable()
+  })
+
+  t.test('has the expected name and priority', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    t.equal(mw.name, MiddlewareName.OPEN_TELEMETRY_METRICS)
+    t.equal(mw.priority, MiddlewarePriority[MiddlewareName.OPEN_TELEMETRY_METRICS])
+  })
+
+  t.test('records the duration and count of a successful request', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    await mw.around(createContext(), async () => createResult())
+
+    const expected = {
+      'db.system': 'elasticsearch',
+      'http.request.method': 'GET',
+      'db.operation.name': 'search',
+      'server.address': 'node-1.example.com',
+      'server.port': 443,
+      'db.response.status_code': '200'
+    }
+    const [duration] = provider.get('db.client.operation.duration')
+    t.same(duration.attributes, expected)
+    t.ok(duration.value >= 0 && duration.value < 1, 'the duration is in seconds')
+    t.same(provider.get('elasticsearch.client.requests'), [{ name: 'elasticsearch.client.requests', value: 1, attributes: expected }])
+    t.same(provider.get('elasticsearch.client.errors'), [])
+  })
+
+  t.test('records the errors with their type and status code', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    const error = new ResponseError(createResult({ statusCode: 404 }))
+    await t.rejects(mw.around(createContext(), async () => { throw error }), error)
+
+    // the connection of the error is redacted, so the one of the last attempt is used
+    const [errors] = provider.get('elasticsearch.client.errors')
+    t.equal(errors.value, 1)
+    t.match(errors.attributes, { 'error.type': 'ResponseError', 'db.response.status_code': '404', 'server.address': 'localhost', 'server.port': 9200 })
+    t.match(provider.get('elasticsearch.client.requests')[0].attributes, { 'error.type': 'ResponseError' })
+    t.match(provider.get('db.client.operation.duration')[0].attributes, { 'error.type': 'ResponseError' })
+  })
+
+  t.test('records the errors without a response', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    const ctx = createContext()
+    ctx.meta.connection = null
+    await t.rejects(mw.around(ctx, async () => { throw new Error('boom') }))
+
+    const [errors] = provider.get('elasticsearch.client.errors')
+    t.same(errors.attributes, {
+      'db.system': 'elasticsearch',
+      'http.request.method': 'GET',
+      'db.operation.name': 'search',
+      'error.type': 'Error'
+    })
+  })
+
+  t.test('records the body sizes', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    const ctx = createContext()
+
+    mw.onRequest(ctx, { method: 'POST', path: '/_search', body: '{"query":{"match":{"title":"café"}}}' })
+    mw.onRequest(ctx, { method: 'POST', path: '/_search', body: Buffer.alloc(10) })
+    mw.onRequest(ctx, { method: 'POST', path: '/_bulk', body: Readable.from(['{}\n']) })
+    mw.onRequest(ctx, { method: 'GET', path: '/_search' })
+    t.same(provider.get('elasticsearch.client.request.body.size').map(m => m.value), [37, 10])
+    t.match(provider.get('elasticsearch.client.request.body.size')[0].attributes, { 'db.operation.name': 'search', 'server.address': 'localhost', 'server.port': 9200 })
+
+    mw.onResponse(ctx, createResult({ headers: { 'content-length': '1234' }, body: 'ignored' }))
+    mw.onResponse(ctx, createResult({ headers: { 'content-length': '0' } }))
+    mw.onResponse(ctx, createResult({ headers: { 'transfer-encoding': 'chunked' }, body: 'hello' }))
+    t.same(provider.get('elasticsearch.client.response.body.size').map(m => m.value), [1234, 0])
+    t.match(provider.get('elasticsearch.client.response.body.size')[0].attributes, { 'db.response.status_code': '200', 'server.address': 'node-1.example.com' })
+  })
+
+  t.test('counts the retries', async t => {
+    const mw = new OpenTelemetryMetricsMiddleware({}, createPool())
+    const ctx = createContext()
+    mw.onRetry(ctx, { error: null, statusCode: 503, delay: 0 })
+    const error = new Error('socket hang up')
+    error.name = 'ConnectionError'
+    mw.onRetry(ctx, { error, statusCode: 0, delay: 0 })
+
+    const retries = provider.get('elasticsearch.client.retries')
+    t.equal(retries.length, 2)
+    t.match(retries[0].attributes, { 'db.response.status_code': '503', 'server.address': 'localhost' })
+    t.notOk('error.type' in retries[0].attributes)
+    t.match(retries[1].attributes, { 'error.type': 'ConnectionError' })
+    t.notOk('db.response.status_code' in retries[1].attributes)
+  })
+
+  t.test('reports the connections of the pool by state', async t => {
+    const pool = createPool()
+    pool.markDead(pool.connections[1])
+    const mw = new OpenTelemetryMetricsMiddleware({}, pool, 'my-client')
+
+    t.same(provider.collect('elasticsearch.client.connections'), [], 'the gauge is created on the first request')
+    await mw.around(createContext(), async () => createResult())
+    t.same(provider.collect('elasticsearch.client.connections').map(m => m.attributes), [
+      { 'db.system': 'elasticsearch', 'elasticsearch.client.name': 'my-client', state: 'alive' },
+      { 'db.system': 'elasticsearch', 'elasticsearch.client.name': 'my-client', state: 'dead' }
+    ])
+    t.same(provider.collect('elasticsearch.client.connections').map(m => [m.attributes.state, m.value]), [['alive', 2], ['dead', 1]])
+
+    mw.close()
+    t.same(provider.collect('elasticsearch.client.connections'), [])
+  })
+
+  t.test('tells the connections of several transports apart', async t => {
+    const first = new OpenTelemetryMetricsMiddleware({}, createPool(), 'first')
+    const second = new OpenTelemetryMetricsMiddleware({}, createPool(), Symbol('second'))
+    const pool = createPool()
+    pool.markDead(pool.connections[0])
+    const third = new OpenTelemetryMetricsMiddleware({}, pool)
+    t.teardown(() => { first.close(); second.close(); third.close() })
+
+    await first.around(createContext(), async () => createResult())
+    await second.around(createContext(), async () => createResult())
+    await third.around(createContext(), async () => createResult())
+    t.same(provider.collect('elasticsearch.client.connections').map(m => [m.attributes['elasticsearch.client.name'], m.attributes.state, m.value]), [
+      ['first', 'alive', 3], ['first', 'dead', 0],
+      ['second', 'alive', 3], ['second', 'dead', 0],
+      ['elastic-transport-js', 'alive', 2], ['elastic-transport-js', 'dead', 1]
+    ])
+  })
+
+  t.test('records nothing when disabled or for requests without a name', async t => {
+    const enabled = new OpenTelemetryMetricsMiddleware({}, createPool())
+    const disabled = new OpenTelemetryMetricsMiddleware({ enabled: false }, createPool())
+
+    await disabled.around(createContext(), async () => createResult())
+    disabled.onRetry(createContext(), { error: null, statusCode: 503, delay: 0 })
+    await enabled.around(createContext({}, { openTelemetryMetrics: { enabled: false } }), async () => createResult())
+    await enabled.around(createContext({ meta: undefined }), async () => createResult())
+    enabled.onRequest(createContext({ meta: undefined }), { method: 'POST', path: '/', body: 'body' })
+    t.same(provider.measurements, [])
+  })
+
+  t.test('records the requests of the transport', async t => {
+    let calls = 0
+    class FlakyConnection extends BaseConnection {
+      async close (): Promise<void> {}
+
+      async request (params: ConnectionRequestParams): Promise<any> {
+        return ++calls === 1
+          ? { body: '', statusCode: 503, headers: { 'content-length': '0' } }
+          : { body: '{"hits":{}}', statusCode: 200, headers: { 'content-type': 'application/json', 'content-length': '11' } }
+      }
+    }
+    const pool = new WeightedConnectionPool({ Connection: FlakyConnection })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, name: 'my-client', retryOnTimeout: true, openTelemetry: { enabled: false } })
+
+    await transport.request({ method: 'POST', path: '/_search', body: { query: { match_all: {} } }, meta: { name: 'search' } })
+    t.same(provider.get('elasticsearch.client.retries').length, 1)
+    t.same(provider.get('elasticsearch.client.requests').map(m => m.attributes), [{
+      'db.system': 'elasticsearch',
+      'http.request.method': 'POST',
+      'db.operation.name': 'search',
+      'server.address': 'localhost',
+      'server.port': 9200,
+      'db.response.status_code': '200'
+    }])
+    t.same(provider.get('elasticsearch.client.request.body.size').map(m => m.value), [26, 26])
+    t.same(provider.get('elasticsearch.client.response.body.size').map(m => m.value), [0, 11])
+    t.same(provider.collect('elasticsearch.client.connections').map(m => [m.attributes['elasticsearch.client.name'], m.attributes.state, m.value]), [
+      ['my-client', 'alive', 1], ['my-client', 'dead', 0]
+    ])
+
+    await transport.close()
+    t.same(provider.collect('elasticsearch.client.connections'), [])
+  })
+})
@@ -0,0 +1,105 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import FakeTimers from '@sinonjs/fake-timers'
+import ResponseCache, { MemoryCacheStore, ResponseCacheEntry } from '../../src/ResponseCache'
+
+function entry (body: any, expires: number = Date.now() + 1000): ResponseCacheEntry {
+  return { body, statusCode: 200, headers: {}, expires }
+}
+
+test('MemoryCacheStore', t => {
+  t.test('Evicts the least recently used entry', t => {
+    const store = new MemoryCacheStore(2)
+    store.set('a', entry(1), 1000)
+    store.set('b', entry(2), 1000)
+    store.get('a')
+    store.set('c', entry(3), 1000)
+    t.equal(store.size, 2)
+    t.equal(store.get('b'), undefined)
+    t.equal(store.get('a')?.body, 1)
+    t.equal(store.get('c')?.body, 3)
+    t.end()
+  })
+
+  t.test('Drops expired entries', t => {
+    const clock = FakeTimers.install({ toFake: ['Date'] })
+    t.teardown(() => clock.uninstall())
+    const store = new MemoryCacheStore()
+    store.set('a', entry(1, Date.now() + 100), 100)
+    t.equal(store.get('a')?.body, 1)
+    clock.tick(100)
+    t.equal(store.get('a'), undefined)
+    t.equal(store.size, 0)
+    t.end()
+  })
+
+  t.test('Returns a copy of the body', t => {
+    const store = new MemoryCacheStore()
+    const body = { hello: 'world' }
+    store.set('a', entry(body), 1000)
+    body.hello = 'changed'
+    const cached = store.get('a')
+    t.same(cached?.body, { hello: 'world' })
+    cached!.body.hello = 'changed' // eslint-disable-line
+    t.same(store.get('a')?.body, { hello: 'world' })
+    t.end()
+  })
+
+  t.test('Returns a binary body as a Buffer', t => {
+    const store = new MemoryCacheStore()
+    const body = Buffer.from([0xa1, 0x61, 0x61, 0x01])
+    store.set('a', entry(body), 1000)
+    body[3] = 0x02
+    const cached = store.get('a')
+    t.ok(Buffer.isBuffer(cached?.body))
+    t.same(cached?.body, Buffer.from([0xa1, 0x61, 0x61, 0x01]))
+    t.end()
+  })
+
+  t.end()
+})
+
+test('ResponseCache', t => {
+  t.test('Uses the per-endpoint ttl', t => {
+    const cache = new ResponseCache({ ttl: 1000, ttls: { 'indices.get_mapping': '1m', 'cluster.health': null } })
+    t.equal(cache.getTtl({ method: 'GET', path: '/_mapping' }, 'indices.get_mapping'), 60000)
+    t.equal(cache.getTtl({ method: 'GET', path: '/_cluster/health' }, 'cluster.health'), null)
+    t.equal(cache.getTtl({ method: 'GET', path: '/_alias' }, 'indices.get_alias'), 1000)
+    t.equal(cache.getTtl({ method: 'GET', path: '/_alias' }), 1000)
+    t.equal(cache.getTtl({ method: 'POST', path: '/_search' }, 'search'), null)
+    t.end()
+  })
+
+  t.test('Only caches the listed endpoints without a default ttl', t => {
+    const cache = new ResponseCache({ ttls: { 'indices.get_settings': 500 } })
+    t.equal(cache.getTtl({ method: 'GET', path: '/_settings' }, 'indices.get_settings'), 500)
+    t.equal(cache.getTtl({ method: 'GET', path: '/_alias' }, 'indices.get_alias'), null)
+    t.end()
+  })
+
+  t.test('Keys on method, path and querystring', t => {
+    const cache = new ResponseCache()
+    t.equal(cache.getKey({ method: 'GET', path: '/_mapping' }), 'GET /_mapping')
+    t.equal(cache.getKey({ method: 'GET', path: '/_mapping', querystring: 'pretty=true' }), 'GET /_mapping?pretty=true')
+    t.end()
+  })
+
+  t.test('A failing store is a cache miss', async t => {
+    const cache = new ResponseCache({
+      store: {
+        get: async () => { throw new Error('kaboom') },
+        set: async () => { throw new Error('kaboom') },
+        delete: () => {},
+        clear: () => {}
+      }
+    })
+    t.equal(await cache.get('GET /'), undefined)
+    await cache.set('GET /', { body: {}, statusCode: 200, headers: {}, warnings: null, meta: {} as any }, 1000)
+  })
+
+  t.end()
+})
@@ -0,0 +1,123 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { URL } from 'node:url'
+import { test } from 'tap'
+import { DefaultRetryPolicy, RetryContext, errors } from '../..'
+import { connection } from '../utils'
+
+const { ConnectionError, TimeoutError, RequestAbortedError } = errors
+
+function buildContext (opts: Partial<RetryContext> = {}): RetryContext {
+  return {
+    attempts: 0,
+    maxRetries: 3,
+    statusCode: 0,
+    headers: {},
+    error: null,
+    method: 'GET',
+    name: null,
+    connection: new connection.MockConnection({ url: new URL('http://localhost:9200') }),
+    poolSize: 1,
+    retryOnTimeout: false,
+    retryOnTooManyRequests: false,
+    retryBackoff: () => 1,
+    ...opts
+  }
+}
+
+test('DefaultRetryPolicy', t => {
+  const policy = new DefaultRetryPolicy()
+
+  t.test('ConnectionError is retried and marks the connection as dead', t => {
+    const ctx = buildContext({ error: new ConnectionError('kaboom') })
+    t.equal(policy.shouldRetry(ctx), true)
+    t.equal(policy.shouldMarkDead(ctx), true)
+    t.end()
+  })
+
+  t.test('TimeoutError marks the connection as dead', t => {
+    const ctx = buildContext({ error: new TimeoutError('timeout') })
+    t.equal(policy.shouldRetry(ctx), false)
+    t.equal(policy.shouldMarkDead(ctx), true)
+    t.equal(policy.shouldRetry({ ...ctx, retryOnTimeout: true }), true)
+    t.end()
+  })
+
+  t.test('Phase timeouts follow retryOnTimeout', t => {
+    for (const phase of ['connect', 'tls', 'headers', 'body'] as const) {
+      const ctx = buildContext({ error: new TimeoutError('timeout', undefined, undefined, phase) })
+      t.equal(policy.shouldRetry(ctx), false, phase)
+      t.equal(policy.shouldRetry({ ...ctx, retryOnTimeout: true }), true, phase)
+      t.equal(policy.shouldMarkDead(ctx), true, phase)
+    }
+    t.end()
+  })
+
+  t.test('Other errors are not retried', t => {
+    const ctx = buildContext({ error: new RequestAbortedError('aborted') })
+    t.equal(policy.shouldRetry(ctx), false)
+    t.equal(policy.shouldMarkDead(ctx), false)
+    t.end()
+  })
+
+  t.test('502, 503 and 504 are retried and mark the connection as dead', t => {
+    for (const statusCode of [502, 503, 504]) {
+      const ctx = buildContext({ statusCode })
+      t.equal(policy.shouldRetry(ctx), true)
+      t.equal(policy.shouldMarkDead(ctx), true)
+      t.equal(policy.getDelay(ctx), 0)
+    }
+    t.end()
+  })
+
+  t.test('Other status codes are not retried', t => {
+    for (const statusCode of [200, 400, 404, 500]) {
+      const ctx = buildContext({ statusCode })
+      t.equal(policy.shouldRetry(ctx), false)
+      t.equal(policy.shouldMarkDead(ctx), false)
+    }
+    t.end()
+  })
+
+  t.test('429 is retried only if retryOnTooManyRequests is enabled', t => {
+    const ctx = buildContext({ statusCode: 429 })
+    t.equal(policy.shouldRetry(ctx), false)
+    t.equal(policy.shouldRetry({ ...ctx, retryOnTooManyRequests: true }), true)
+    t.equal(policy.shouldMarkDead(ctx), false)
+    t.end()
+  })
+
+  t.test('429 waits for the Retry-After header', t => {
+    t.equal(policy.getDelay(buildContext({ statusCode: 429, headers: { 'retry-after': '3' } })), 3000)
+    t.equal(policy.getDelay(buildContext({ statusCode: 429 })), 1000)
+    t.equal(policy.getDelay(buildContext({ statusCode: 429, headers: { 'retry-after': 'nope' } })), 1000)
+    t.end()
+  })
+
+  t.test('429 caps the Retry-After header', t => {
+    const ctx = buildContext({ statusCode: 429, headers: { 'retry-after': '3600' } })
+    t.equal(policy.getDelay(ctx), 4000)
+    t.equal(new DefaultRetryPolicy({ maxRetryAfter: 60000 }).getDelay(ctx), 60000)
+    t.equal(new DefaultRetryPolicy({ maxRetryAfter: 60000 }).getDelay({ ...ctx, headers: { 'retry-after': '30' } }), 30000)
+    t.end()
+  })
+
+  t.test('Connection errors are not delayed until every node has been tried', t => {
+    const attempts: number[] = []
+    const retryBackoff = (min: number, max: number, attempt: number): number => {
+      attempts.push(attempt)
+      return 2
+    }
+    const error = new ConnectionError('kaboom')
+    t.equal(policy.getDelay(buildContext({ error, retryBackoff, poolSize: 3, attempts: 0 })), 0)
+    t.equal(policy.getDelay(buildContext({ error, retryBackoff, poolSize: 3, attempts: 1 })), 0)
+    t.equal(policy.getDelay(buildContext({ error, retryBackoff, poolSize: 3, attempts: 2 })), 2000)
+    t.same(attempts, [3])
+    t.end()
+  })
+
+  t.end()
+})
@@ -5,7 +5,9 @@
 
 import { test } from 'tap'
 import { stringify } from 'querystring'
+import { Readable } from 'node:stream'
 import { Serializer, errors } from '../..'
+import { buildArrowStream } from '../utils'
 const { SerializationError, DeserializationError } = errors
 
 test('Basic', t => {
@@ -49,6 +51,129 @@ test('ndserialize (strings)', t => {
   )
 })
 
+test('ndserializeStream', async t => {
+  const s = new Serializer()
+  async function * records (): AsyncGenerator<any> {
+    yield [{ index: { _id: '1' } }, { hello: 'world' }]
+    yield { delete: { _id: '2' } }
+    yield '{"create":{}}'
+    yield { winter: 'is coming' }
+  }
+  let ndjson = ''
+  for await (const chunk of s.ndserializeStream(records())) {
+    t.ok(Buffer.isBuffer(chunk) || typeof chunk === 'string')
+    ndjson += chunk.toString()
+  }
+  t.equal(ndjson, s.ndserialize([{ index: { _id: '1' } }, { hello: 'world' }, { delete: { _id: '2' } }, '{"create":{}}', { winter: 'is coming' }]))
+})
+
+test('ndserializeStream (serialization error)', async t => {
+  const s = new Serializer()
+  const circular: Record<string, any> = {}
+  circular.self = circular
+  const stream = s.ndserializeStream([{ index: {} }, circular])
+  await t.rejects(async () => { for await (const _ of stream) {} }, SerializationError) // eslint-disable-line
+})
+
+test('ndeserialize', async t => {
+  const s = new Serializer()
+  async function * source () {
+    yield '{"hello":"world"}\n{"winter":'
+    yield Buffer.from('"is coming"}\r\n\n')
+    yield '{"you_know":"for search"}'
+  }
+  const records = []
+  for await (const record of s.ndeserialize(source())) {
+    records.push(record)
+  }
+  t.same(records, [
+    { hello: 'world' },
+    { winter: 'is coming' },
+    { you_know: 'for search' }
+  ])
+})
+
+test('ndeserialize (multi-byte characters split across chunks)', async t => {
+  const s = new Serializer()
+  const line = Buffer.from('{"hello":"wörld"}\n')
+  async function * source () {
+    yield line.subarray(0, 13)
+    yield line.subarray(13)
+  }
+  const records = []
+  for await (const record of s.ndeserialize(source())) {
+    records.push(record)
+  }
+  t.same(records, [{ hello: 'wörld' }])
+})
+
+test('ndeserialize (line too long)', async t => {
+  const s = new Serializer()
+  async function * source () {
+    yield '{"hello":"world"}\n{"hello":'
+    yield '"a very long line"}\n'
+  }
+  const records = []
+  try {
+    for await (const record of s.ndeserialize(source(), 20)) {
+      records.push(record)
+    }
+    t.fail('Should throw')
+  } catch (err: any) {
+    t.ok(err instanceof DeserializationError)
+    t.equal(err.message, 'The ndjson line is bigger than the maximum allowed size (20)')
+    t.equal(err.data, '{"hello":"a very long line"}')
+  }
+  t.same(records, [{ hello: 'world' }])
+})
+
+test('ndeserialize (prototype poisoning protection)', async t => {
+  const s = new Serializer({ enablePrototypePoisoningProtection: true })
+  async function * source () {
+    yield '{"hello":"world"}\n{"__proto__":{"foo":"bar"}}\n'
+  }
+  const records = []
+  try {
+    for await (const record of s.ndeserialize(source())) {
+      records.push(record)
+    }
+    t.fail('Should throw')
+  } catch (err: any) {
+    t.ok(err instanceof DeserializationError)
+  }
+  t.same(records, [{ hello: 'world' }])
+})
+
+test('deserializeStream', async t => {
+  const s = new Serializer()
+  async function * source () {
+    yield '{"took":1,"hits":{"hits":[{"_id":"1"},'
+    yield Buffer.from('{"_id":"2"}]}}')
+  }
+  const hits = []
+  for await (const hit of s.deserializeStream(source(), 'hits.hits')) {
+    hits.push(hit)
+  }
+  t.same(hits, [{ _id: '1' }, { _id: '2' }])
+})
+
+test('deserializeStream (prototype poisoning protection)', async t => {
+  const s = new Serializer({ enablePrototypePoisoningProtection: true })
+  async function * source () {
+    yield '{"hits":{"hits":[{"_id":"1"},{"__proto__":{"foo":"bar"}}]}}'
+  }
+  const hits = []
+  try {
+    for await (const hit of s.deserializeStream(source(), 'hits.hits')) {
+      hits.push(hit)
+    }
+    t.fail('Should throw')
+  } catch (err: any) {
+    t.ok(err instanceof DeserializationError)
+  }
+  t.same(hits, [{ _id: '1' }])
+})
+
 test('qserialize', t => {
   t.plan(1)
   const s = new Serializer()
@@ -329,3 +454,145 @@ test('encodeFloat32Vector (roundtrip with typical embedding values)', t => {
     t.ok(Math.abs(decoded[i] - floats[i]) < 0.0001)
   }
 })
+
+test('encode and decode select the format by content type', t => {
+  const s = new Serializer()
+  const obj = { hello: 'world', count: 42, tags: ['a', 'b'] }
+
+  const json = s.encode(obj, 'application/vnd.elasticsearch+json; compatible-with=9')
+  t.equal(json, JSON.stringify(obj))
+  t.same(s.decode(json, 'application/json'), obj)
+
+  for (const contentType of ['application/cbor', 'application/vnd.elasticsearch+cbor; compatible-with=9', 'application/smile', 'application/vnd.elasticsearch+smile']) {
+    const data = s.encode(obj, contentType)
+    t.ok(Buffer.isBuffer(data), contentType)
+    t.same(s.decode(data, contentType), obj, contentType)
+  }
+  t.equal((s.encode(obj, 'application/smile') as Buffer).subarray(0, 3).toString(), ':)\n')
+  t.end()
+})
+
+test('decode (invalid binary body)', t => {
+  const s = new Serializer()
+  const data = Buffer.from([0x83, 0x01])
+  try {
+    s.decode(data, 'application/cbor')
+    t.fail('Should fail')
+  } catch (err: any) {
+    t.ok(err instanceof DeserializationError)
+    t.equal(err.data, data.toString('base64'))
+  }
+  t.end()
+})
+
+test('decode (prototype poisoning protection)', t => {
+  const s = new Serializer({ enablePrototypePoisoningProtection: true })
+  const data = new Serializer().encode(JSON.parse('{"__proto__":{"admin":true}}'), 'application/cbor')
+  t.throws(() => s.decode(data, 'application/cbor'), DeserializationError)
+  t.end()
+})
+
+test('encode (circular structure)', t => {
+  const s = new Serializer()
+  const obj: Record<string, any> = {}
+  obj.self = obj
+  t.throws(() => s.encode(obj, 'application/smile'), SerializationError)
+  t.end()
+})
+
+test('largeIntegers: bigint', t => {
+  const s = new Serializer({ largeIntegers: 'bigint' })
+  const json = '{"_seq_no":9223372036854775807,"count":-9007199254740993,"small":42,"float":12345678901234567.5,"id":"18446744073709551615"}'
+  const obj = s.deserialize<Record<string, any>>(json)
+  t.equal(obj._seq_no, BigInt('9223372036854775807'))
+  t.equal(obj.count, BigInt('-9007199254740993'))
+  t.equal(obj.small, 42)
+  t.equal(typeof obj.float, 'number')
+  t.equal(obj.id, '18446744073709551615')
+  t.equal(s.serialize(obj), json.replace('12345678901234567.5', String(12345678901234567.5)))
+  t.equal(s.serialize({ value: BigInt(1) }), '{"value":1}')
+  t.end()
+})
+
+test('largeIntegers: string', t => {
+  const s = new Serializer({ largeIntegers: 'string' })
+  const obj = s.deserialize<Record<string, any>>('{"unsigned_long":18446744073709551615,"nested":[{"n":9007199254740992}]}')
+  t.same(obj, { unsigned_long: '18446744073709551615', nested: [{ n: '9007199254740992' }] })
+  t.end()
+})
+
+test('largeIntegers: number by default', t => {
+  const s = new Serializer()
+  t.equal(s.deserialize('9223372036854775807'), 9223372036854775807)
+  t.throws(() => s.serialize({ value: BigInt(1) }), SerializationError)
+  t.end()
+})
+
+test('largeIntegers with ndeserialize and binary formats', async t => {
+  const s = new Serializer({ largeIntegers: 'bigint' })
+  const values = []
+  for await (const value of s.ndeserialize(Readable.from(['{"n":9007199254740993}\n{"n":1}\n']))) {
+    values.push(value)
+  }
+  t.same(values, [{ n: BigInt('9007199254740993') }, { n: 1 }])
+
+  const big = { n: BigInt('9007199254740993') }
+  t.same(s.decode(s.encode(big, 'application/cbor'), 'application/cbor'), big)
+  t.same(s.decode(s.encode(big, 'application/smile'), 'application/smile'), big)
+})
+
+test('largeIntegers (prototype poisoning protection)', t => {
+  const s = new Serializer({ largeIntegers: 'bigint', enablePrototypePoisoningProtection: true })
+  t.throws(() => s.deserialize('{"n":9007199254740993,"__proto__":{"admin":true}}'), DeserializationError)
+  t.throws(() => s.deserialize('{"n":9007199254740993,"constructor":{"prototype":{}}}'), DeserializationError)
+
+  const unprotected = new Serializer({ largeIntegers: 'bigint' })
+  const obj = unprotected.deserialize<Record<string, any>>('{"n":9007199254740993,"__proto__":{"admin":true}}')
+  t.equal(obj.admin, undefined)
+  t.end()
+})
+
+test('largeIntegers (invalid JSON)', t => {
+  const s = new Serializer({ largeIntegers: 'bigint' })
+  const json = '{"n":9007199254740993,'
+  try {
+    s.deserialize(json)
+    t.fail('Should fail')
+  } catch (err: any) {
+    t.ok(err instanceof DeserializationError)
+    t.equal(err.data, json)
+  }
+  t.end()
+})
+
+test('decodeArrow', t => {
+  const s = new Serializer()
+  const rows = [{ id: 1, name: 'a' }, { id: 2, name: null }]
+  const data = buildArrowStream([
+    { name: 'id', type: { name: 'Int', bitWidth: 32 } },
+    { name: 'name', type: { name: 'Utf8' } }
+  ], [rows, rows])
+  const table = s.decodeArrow(data)
+  t.equal(table.length, 4)
+  t.equal(table.batches.length, 2)
+  t.same(table.toArray(), [...rows, ...rows])
+  t.throws(() => s.decodeArrow(data.subarray(0, 20)), DeserializationError)
+  t.end()
+})
+
+test('deserializeArrowStream', async t => {
+  const s = new Serializer()
+  const rows = [{ id: 1 }, { id: 2 }]
+  const data = buildArrowStream([{ name: 'id', type: { name: 'Int', bitWidth: 32 } }], [rows, rows, rows])
+  const chunks = Array.from({ length: Math.ceil(data.length / 10) }, (_, i) => data.subarray(i * 10, i * 10 + 10))
+
+  const batches = []
+  for await (const batch of s.deserializeArrowStream(Readable.from(chunks))) {
+    batches.push(batch.toArray())
+  }
+  t.same(batches, [rows, rows, rows])
+
+  await t.rejects(async () => {
+    for await (const batch of s.deserializeArrowStream(Readable.from(chunks), 64)) {} // eslint-disable-line
+  }, DeserializationError)
+})
@@ -0,0 +1,184 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { test } from 'tap'
+import { createHash, createHmac } from 'node:crypto'
+import { Readable } from 'node:stream'
+import FakeTimers from '@sinonjs/fake-timers'
+import { signV4, sigV4Signer, hmacSigner, payloadHash, UNSIGNED_PAYLOAD } from '../../src/Signer'
+import { HttpConnection, ConnectionRequestParams } from '../../src/connection'
+import { ConfigurationError } from '../../src/errors'
+
+// https://docs.aws.amazon.com/general/latest/gr/signature-v4-test-suite.html
+const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' }
+const scope = { date: new Date('2015-08-30T12:36:00Z'), region: 'us-east-1', service: 'service' }
+const headers = { host: 'example.amazonaws.com', 'x-amz-date': '20150830T123600Z' }
+const emptyHash = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+const credential = 'Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request'
+
+test('SigV4 matches the AWS test suite', t => {
+  t.test('get-vanilla', async t => {
+    t.equal(signV4({ method: 'GET', path: '/', headers, payloadHash: emptyHash }, credentials, scope),
+      `AWS4-HMAC-SHA256 ${credential}, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31`)
+  })
+
+  t.test('get-vanilla-query-order-key-case', async t => {
+    t.equal(signV4({ method: 'GET', path: '/', querystring: 'Param2=value2&Param1=value1', headers, payloadHash: emptyHash }, credentials, scope),
+      `AWS4-HMAC-SHA256 ${credential}, SignedHeaders=host;x-amz-date, Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500`)
+  })
+
+  t.test('post-vanilla', async t => {
+    t.equal(signV4({ method: 'POST', path: '/', headers, payloadHash: emptyHash }, credentials, scope),
+      `AWS4-HMAC-SHA256 ${credential}, SignedHeaders=host;x-amz-date, Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b`)
+  })
+
+  t.test('post-x-www-form-urlencoded', async t => {
+    t.equal(signV4({
+      method: 'POST',
+      path: '/',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      payloadHash: payloadHash('Param1=value1')
+    }, credentials, scope),
+    `AWS4-HMAC-SHA256 ${credential}, SignedHeaders=content-type;host;x-amz-date, Signature=ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a`)
+  })
+
+  t.test('IAM ListUsers example', async t => {
+    t.equal(signV4({
+      method: 'GET',
+      path: '/',
+      querystring: 'Action=ListUsers&Version=2010-05-08',
+      headers: { 'content-type': 'application/x-www-form-urlencoded; charset=utf-8', host: 'iam.amazonaws.com', 'x-amz-date': '20150830T123600Z' },
+      payloadHash: emptyHash
+    }, credentials, { ...scope, service: 'iam' }),
+    'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/iam/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7')
+  })
+
+  t.end()
+})
+
+test('The canonical request ignores the order and encoding of the query parameters', async t => {
+  const sign = (querystring: string): string => signV4({ method: 'GET', path: '/', querystring, headers, payloadHash: emptyHash }, credentials, scope)
+  t.equal(sign('b=2&a=%7E1&a=0'), sign('a=0&a=~1&b=2'))
+  t.not(sign('a=1'), sign('a=2'))
+})
+
+test('payloadHash', async t => {
+  t.equal(payloadHash(undefined), emptyHash)
+  t.equal(payloadHash(''), emptyHash)
+  t.equal(payloadHash('{"a":1}'), createHash('sha256').update('{"a":1}').digest('hex'))
+  t.equal(payloadHash(Buffer.from('{"a":1}')), createHash('sha256').update('{"a":1}').digest('hex'))
+  t.equal(payloadHash(Readable.from(['{"a":1}'])), UNSIGNED_PAYLOAD)
+})
+
+test('sigV4Signer', t => {
+  const connection = new HttpConnection({ url: new URL('https://search.us-east-1.es.amazonaws.com/prefix') })
+
+  t.test('Signs the final request', async t => {
+    const clock = FakeTimers.install({ toFake: ['Date'], now: new Date('2015-08-30T12:36:00Z') })
+    t.teardown(() => clock.uninstall())
+
+    const signer = sigV4Signer({ region: 'us-east-1', credentials: { ...credentials, sessionToken: 'session' } })
+    const params: ConnectionRequestParams = {
+      method: 'POST',
+      path: '/my-index/_search',
+      querystring: 'size=1',
+      body: '{"query":{"match_all":{}}}',
+      headers: { 'content-type': 'application/json', authorization: 'ApiKey stale' }
+    }
+    await signer(params, connection)
+
+    const expected = { ...params.headers }
+    delete expected.authorization
+    t.equal(params.headers?.host, 'search.us-east-1.es.amazonaws.com')
+    t.equal(params.headers?.['x-amz-date'], '20150830T123600Z')
+    t.equal(params.headers?.['x-amz-security-token'], 'session')
+    t.equal(params.headers?.['x-amz-content-sha256'], payloadHash(params.body))
+    t.equal(params.headers?.authorization, signV4({
+      method: 'POST',
+      path: '/prefix/my-index/_search',
+      querystring: 'size=1',
+      headers: expected,
+      payloadHash: payloadHash(params.body)
+    }, { ...credentials, sessionToken: 'session' }, { date: new Date(), region: 'us-east-1', service: 'es' }))
+    t.match(params.headers?.authorization,
+      /^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20150830\/us-east-1\/es\/aws4_request, SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-security-token, Signature=[0-9a-f]{64}$/)
+  })
+
+  t.test('Signs streaming bodies with an unsigned payload', async t => {
+    const signer = sigV4Signer({ region: 'us-east-1', service: 'aoss', credentials: async () => credentials })
+    const params: ConnectionRequestParams = { method: 'POST', path: '/_bulk', body: Readable.from(['{}\n']) }
+    await signer(params, connection)
+    t.equal(params.headers?.['x-amz-content-sha256'], UNSIGNED_PAYLOAD)
+    t.match(params.headers?.authorization, /\/us-east-1\/aoss\/aws4_request, /)
+  })
+
+  t.test('Resolves the credentials on every signature', async t => {
+    let calls = 0
+    const signer = sigV4Signer({ region: 'us-east-1', credentials: async () => ({ accessKeyId: `key-${++calls}`, secretAccessKey: 'secret' }) })
+    const params: ConnectionRequestParams = { method: 'GET', path: '/' }
+    await signer(params, connection)
+    t.match(params.headers?.authorization, /Credential=key-1\//)
+    await signer(params, connection)
+    t.match(params.headers?.authorization, /Credential=key-2\//)
+    t.equal(params.headers?.['x-amz-security-token'], undefined)
+  })
+
+  t.test('Validates its options', async t => {
+    t.throws(() => sigV4Signer({ region: '', credentials }), ConfigurationError)
+    // @ts-expect-error
+    t.throws(() => sigV4Signer({ region: 'us-east-1' }), ConfigurationError)
+  })
+
+  t.end()
+})
+
+test('hmacSigner', t => {
+  const connection = new HttpConnection({ url: new URL('http://localhost:9200') })
+
+  t.test('Signs the method, path, query, headers and body', async t => {
+    const clock = FakeTimers.install({ toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z') })
+    t.teardown(() => clock.uninstall())
+
+    const signer = hmacSigner({ keyId: 'key', secret: 'secret', header: 'X-Signature' })
+    const params: ConnectionRequestParams = {
+      method: 'PUT',
+      path: '/index/_doc/1',
+      querystring: 'refresh=true',
+      body: '{"a":1}',
+      headers: { 'content-type': 'application/json', 'user-agent': 'test' }
+    }
+    await signer(params, connection)
+
+    const stringToSign = [
+      'PUT',
+      '/index/_doc/1',
+      'refresh=true',
+      'content-type:application/json\nhost:localhost:9200\nx-date:2026-01-01T00:00:00.000Z\n',
+      'content-type;host;x-date',
+      payloadHash('{"a":1}')
+    ].join('\n')
+    t.equal(params.headers?.['x-signature'],
+      `HMAC-SHA256 Credential=key, SignedHeaders=content-type;host;x-date, Signature=${createHmac('sha256', 'secret').update(stringToSign).digest('hex')}`)
+
+    // signing again replaces the previous signature
+    await signer(params, connection)
+    t.match(params.headers?.['x-signature'], /SignedHeaders=content-type;host;x-date,/)
+  })
+
+  t.test('Signs streaming bodies with an unsigned payload', async t => {
+    const signer = hmacSigner({ keyId: 'key', secret: Buffer.from('secret'), algorithm: 'sha512' })
+    const params: ConnectionRequestParams = { method: 'POST', path: '/_bulk', body: Readable.from(['{}\n']) }
+    await signer(params, connection)
+    const [, signature] = /Signature=([0-9a-f]+)$/.exec(params.headers?.authorization as string) ?? []
+    t.equal(signature.length, 128)
+    t.match(params.headers?.authorization, /^HMAC-SHA512 Credential=key, SignedHeaders=host;x-date, /)
+  })
+
+  t.test('Validates its options', async t => {
+    t.throws(() => hmacSigner({ keyId: 'key', secret: '' }), ConfigurationError)
+  })
+
+  t.end()
+})
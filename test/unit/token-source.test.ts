@@ -0,0 +1,217 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as http from 'node:http'
+import { test } from 'tap'
+import { MockAgent } from 'undici'
+import { Transport, WeightedConnectionPool, BaseConnection, ConnectionRequestParams, Diagnostic } from '../..'
+import { tokenProvider } from '../../src/TokenSource'
+import { buildServer } from '../utils'
+
+function readBody (req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new Promise(resolve => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', chunk => { body += chunk })
+    req.on('end', () => resolve(new URLSearchParams(body)))
+  })
+}
+
+test('Client credentials grant', async t => {
+  const requests: any[] = []
+  const [{ port }, server] = await buildServer(async (req, res) => {
+    const form = await readBody(req)
+    requests.push({ authorization: req.headers.authorization, form: Object.fromEntries(form) })
+    res.setHeader('content-type', 'application/json')
+    res.end(JSON.stringify({ access_token: 'token-1', token_type: 'Bearer', expires_in: 3600 }))
+  })
+  t.teardown(() => server.stop())
+
+  const events: any[] = []
+  const diagnostic = new Diagnostic()
+  diagnostic.on('token', (err, event) => events.push([err, event]))
+  const provider = tokenProvider({
+    tokenUrl: `http://localhost:${port}/oauth/token`,
+    grant: { type: 'client_credentials', clientId: 'my client', clientSecret: 's3cr3t' },
+    scope: ['read', 'write'],
+    audience: 'elasticsearch'
+  }, diagnostic)
+
+  const before = Date.now()
+  const credentials = await provider()
+  t.equal(credentials.bearer, 'token-1')
+  t.ok(credentials.expiresAt >= before + 3600 * 1000)
+  t.same(requests, [{
+    authorization: `Basic ${Buffer.from('my%20client:s3cr3t').toString('base64')}`,
+    form: { grant_type: 'client_credentials', scope: 'read write', audience: 'elasticsearch' }
+  }])
+  t.equal(events.length, 1)
+  t.equal(events[0][0], null)
+  t.match(events[0][1], {
+    tokenUrl: `http://localhost:${port}/oauth/token`,
+    grant: 'client_credentials',
+    statusCode: 200,
+    expiresIn: 3600
+  })
+  t.notMatch(JSON.stringify(events), /s3cr3t|token-1/, 'no secrets in the event')
+})
+
+test('Client credentials in the body', async t => {
+  let form: Record<string, string> = {}
+  const [{ port }, server] = await buildServer(async (req, res) => {
+    form = Object.fromEntries(await readBody(req))
+    res.end(JSON.stringify({ access_token: 'token' }))
+  })
+  t.teardown(() => server.stop())
+
+  const provider = tokenProvider({
+    tokenUrl: `http://localhost:${port}/token`,
+    grant: { type: 'client_credentials', clientId: 'id', clientSecret: 'secret', clientAuthentication: 'body' }
+  }, new Diagnostic())
+  t.same(await provider(), { bearer: 'token' }, 'no expiry without expires_in')
+  t.same(form, { grant_type: 'client_credentials', client_id: 'id', client_secret: 'secret' })
+})
+
+test('JWT bearer grant', async t => {
+  const forms: Array<Record<string, string>> = []
+  const [{ port }, server] = await buildServer(async (req, res) => {
+    forms.push(Object.fromEntries(await readBody(req)))
+    res.end(JSON.stringify({ access_token: 'token', expires_in: '60' }))
+  })
+  t.teardown(() => server.stop())
+
+  let assertions = 0
+  const provider = tokenProvider({
+    tokenUrl: `http://localhost:${port}/token`,
+    grant: { type: 'jwt_bearer', assertion: async () => `jwt-${++assertions}` }
+  }, new Diagnostic())
+  await provider()
+  await provider()
+  t.same(forms, [
+    { grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion: 'jwt-1' },
+    { grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion: 'jwt-2' }
+  ])
+})
+
+test('Failed token requests', async t => {
+  const [{ port }, server] = await buildServer((req, res) => {
+    res.setHeader('content-type', 'application/json')
+    if (req.url === '/invalid') {
+      res.statusCode = 401
+      res.end(JSON.stringify({ error: 'invalid_client', error_description: 'Unknown client' }))
+    } else {
+      res.end(JSON.stringify({ token_type: 'Bearer' }))
+    }
+  })
+  t.teardown(() => server.stop())
+
+  const events: any[] = []
+  const diagnostic = new Diagnostic()
+  diagnostic.on('token', (err, event) => events.push([err, event]))
+  const grant = { type: 'client_credentials' as const, clientId: 'id', clientSecret: 'secret' }
+
+  await t.rejects(tokenProvider({ tokenUrl: `http://localhost:${port}/invalid`, grant }, diagnostic)(), {
+    name: 'TokenRequestError',
+    message: 'Token request failed with invalid_client: Unknown client',
+    statusCode: 401,
+    body: { error: 'invalid_client' }
+  })
+  await t.rejects(tokenProvider({ tokenUrl: `http://localhost:${port}/empty`, grant }, diagnostic)(), {
+    name: 'TokenRequestError',
+    message: 'The token endpoint did not return an access token'
+  })
+  await t.rejects(tokenProvider({ tokenUrl: 'http://localhost:1/token', grant }, diagnostic)(), {
+    name: 'TokenRequestError',
+    message: /^Token request failed: /
+  })
+  t.same(events.map(([err, event]) => [err.name, event.statusCode]), [
+    ['TokenRequestError', 401],
+    ['TokenRequestError', 200],
+    ['TokenRequestError', null]
+  ])
+
+  t.throws(() => tokenProvider({ tokenUrl: 'http://localhost/token', grant: { type: 'password' } as any }, diagnostic), {
+    name: 'ConfigurationError'
+  })
+})
+
+test('Transport sends the tokens of the token endpoint', async t => {
+  let tokens = 0
+  const [{ port }, server] = await buildServer((_req, res) => {
+    res.end(JSON.stringify({ access_token: `token-${++tokens}`, expires_in: 3600 }))
+  })
+  t.teardown(() => server.stop())
+
+  const seen: string[] = []
+  class AuthConnection extends BaseConnection {
+    async request (params: ConnectionRequestParams): Promise<any> {
+      seen.push(params.headers?.authorization as string)
+      return params.headers?.authorization === 'Bearer token-2'
+        ? { body: 'ok', statusCode: 200, headers: {} }
+        : { body: '', statusCode: 401, headers: {} }
+    }
+  }
+  const pool = new WeightedConnectionPool({ Connection: AuthConnection })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({
+    connectionPool: pool,
+    auth: {
+      tokenUrl: `http://localhost:${port}/token`,
+      grant: { type: 'client_credentials', clientId: 'id', clientSecret: 'secret' }
+    }
+  })
+  const events: any[] = []
+  transport.diagnostic.on('token', (err, event) => events.push([err, event?.statusCode]))
+
+  // the first token has been revoked
+  t.equal(await transport.request({ method: 'GET', path: '/' }), 'ok')
+  t.same(seen, ['Bearer token-1', 'Bearer token-2'])
+  t.same(events, [[null, 200], [null, 200]])
+})
+
+test('Token requests go through the given dispatcher', async t => {
+  const agent = new MockAgent()
+  agent.disableNetConnect()
+  t.teardown(() => agent.close())
+  agent.get('https://auth.example.com')
+    .intercept({ path: '/token', method: 'POST' })
+    .reply(200, { access_token: 'token-1', expires_in: 3600 })
+
+  const provider = tokenProvider({
+    tokenUrl: 'https://auth.example.com/token',
+    grant: { type: 'client_credentials', clientId: 'id', clientSecret: 'secret' },
+    dispatcher: agent
+  }, new Diagnostic())
+  t.equal((await provider()).bearer, 'token-1')
+  agent.assertNoPendingInterceptors()
+})
+
+test('Token requests use the tls options of the connection pool', async t => {
+  const [{ port }, server] = await buildServer((_req, res) => {
+    res.end(JSON.stringify({ access_token: 'token-1', expires_in: 3600 }))
+  }, { secure: true })
+  t.teardown(() => server.stop())
+
+  class OkConnection extends BaseConnection {
+    async request (): Promise<any> {
+      return { body: 'ok', statusCode: 200, headers: {} }
+    }
+  }
+  const auth = {
+    tokenUrl: `https://localhost:${port}/token`,
+    grant: { type: 'client_credentials', clientId: 'id', clientSecret: 'secret' } as const
+  }
+
+  // the tests accept any certificate unless told otherwise, and the one of the test server is self-signed
+  const lenient = new WeightedConnectionPool({ Connection: OkConnection })
+  lenient.addConnection('http://localhost:9200')
+  t.equal(await new Transport({ connectionPool: lenient, auth }).request({ method: 'GET', path: '/' }), 'ok')
+
+  const strict = new WeightedConnectionPool({ Connection: OkConnection, tls: { rejectUnauthorized: true } })
+  strict.addConnection('http://localhost:9200')
+  await t.rejects(new Transport({ connectionPool: strict, auth }).request({ method: 'GET', path: '/' }), {
+    name: 'TokenRequestError'
+  })
+})
@@ -5,7 +5,7 @@
 
 import buffer from 'node:buffer'
 import { promisify } from 'node:util'
-import { gzipSync, deflateSync } from 'node:zlib'
+import zlib, { gzipSync, gunzipSync, deflateSync, brotliCompressSync } from 'node:zlib'
 import os from 'node:os'
 import { Readable } from 'node:stream'
 import * as http from 'node:http'
@@ -20,14 +20,23 @@ import {
   ClusterConnectionPool,
   ConnectionRequestParams,
   UndiciConnection,
+  HttpConnection,
+  BaseConnection,
   Connection,
   TransportRequestParams,
   TransportRequestOptions,
   events,
   SniffOptions,
+  ArrowTable,
+  RecordBatch,
+  BulkOperation,
+  MiddlewareName,
+  sigV4Signer,
+  CircuitState,
   errors
 } from '../..'
-import { connection, buildServer } from '../utils'
+import { connection, buildServer, buildArrowStream } from '../utils'
+import { ArrowTestColumn } from '../utils/buildArrowStream'
 
 const { version: transportVersion } = require('../../package.json') // eslint-disable-line
 const sleep = promisify(setTimeout)
@@ -46,7 +55,9 @@ const {
   DeserializationError,
   RequestAbortedError,
   ConfigurationError,
-  ProductNotSupportedError
+  ProductNotSupportedError,
+  DeadlineExceededError,
+  QueueTimeoutError
 } = errors
 
 test('Basic', async t => {
@@ -402,6 +413,89 @@ test('Send stream (ndjson)', async t => {
   t.equal(res.statusCode, 200)
 })
 
+test('bulkRequests splits the operations into several requests', async t => {
+  const bodies: string[] = []
+  const Conn = buildMockConnection({
+    onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      t.equal(opts.path, '/_bulk')
+      t.equal(opts.headers?.['content-type'], 'application/x-ndjson')
+      bodies.push(opts.body as string)
+      return { body: { items: bodies.length }, statusCode: 200 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({ connectionPool: pool })
+
+  async function * operations (): AsyncGenerator<BulkOperation> {
+    for (let i = 0; i < 5; i++) {
+      yield [{ index: { _id: String(i) } }, { value: 'x'.repeat(10) }]
+    }
+    yield ['{"delete":{"_id":"5"}}']
+  }
+
+  // each index operation is 43 bytes, so two fit in 100 bytes
+  const results = []
+  for await (const result of transport.bulkRequests({ method: 'POST', path: '/_bulk' }, operations(), { flushBytes: 100 })) {
+    results.push(result)
+  }
+  t.same(results, [{ items: 1 }, { items: 2 }, { items: 3 }])
+  t.same(bodies.map(body => body.split('\n').length - 1), [4, 4, 3])
+  for (const body of bodies) {
+    const lines = body.trim().split('\n').map(line => JSON.parse(line))
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].index != null) t.same(lines[++i], { value: 'x'.repeat(10) })
+    }
+  }
+
+  bodies.length = 0
+  const byCount = []
+  for await (const result of transport.bulkRequests({ method: 'POST', path: '/_bulk' }, [[{ delete: {} }], [{ delete: {} }], [{ delete: {} }]], { flushOperations: 2, meta: true })) {
+    byCount.push(result)
+  }
+  t.equal(byCount.length, 2)
+  t.same(bodies, ['{"delete":{}}\n{"delete":{}}\n', '{"delete":{}}\n'])
+})
+
+test('bulkRequests sends an operation bigger than flushBytes on its own', async t => {
+  const bodies: string[] = []
+  const Conn = buildMockConnection({
+    onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      bodies.push(opts.body as string)
+      return { body: {}, statusCode: 200 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({ connectionPool: pool })
+
+  const operations: BulkOperation[] = [
+    [{ index: {} }, { small: 1 }],
+    [{ index: {} }, { big: 'x'.repeat(100) }],
+    [{ index: {} }, { small: 2 }]
+  ]
+  for await (const _ of transport.bulkRequests({ method: 'POST', path: '/_bulk' }, operations, { flushBytes: 50 })) {} // eslint-disable-line
+  t.equal(bodies.length, 3)
+  t.match(bodies[1], /"big"/)
+})
+
+test('bulkRequests validates the operations and options', async t => {
+  const pool = new WeightedConnectionPool({ Connection: buildMockConnection({ onRequest: () => ({ body: {}, statusCode: 200 }) }) })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({ connectionPool: pool })
+
+  const drain = async (operations: any, options: any = {}): Promise<void> => {
+    for await (const _ of transport.bulkRequests({ method: 'POST', path: '/_bulk' }, operations, options)) {} // eslint-disable-line
+  }
+  await t.rejects(drain([[{ index: {} }, {}]], { flushBytes: 0 }), ConfigurationError)
+  await t.rejects(drain([[{ index: {} }, {}]], { flushOperations: 1.5 }), ConfigurationError)
+  await t.rejects(drain([{ index: {} }]), ConfigurationError)
+  await t.rejects(drain([[{ index: {} }, {}, {}]]), ConfigurationError)
+  await t.resolves(drain([]))
+})
+
 test('Not JSON payload from server', async t => {
   const Conn = buildMockConnection({
     onRequest(opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
@@ -724,6 +818,73 @@ test('Should not retry if the bulkBody is a stream', async t => {
   }
 })
 
+test('Body factories', t => {
+  // reads the whole body and fails the first attempts with a 502
+  function buildReadingConnection (received: string[], failures: number): typeof BaseConnection {
+    return class ReadingConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        const body = await new Promise<Buffer>((resolve, reject) => {
+          const chunks: Buffer[] = []
+          const stream = params.body as Readable
+          stream.on('data', chunk => chunks.push(Buffer.from(chunk)))
+          stream.on('end', () => resolve(Buffer.concat(chunks)))
+          stream.on('error', reject)
+        })
+        received.push(params.headers?.['content-encoding'] === 'gzip' ? gunzipSync(body).toString() : body.toString())
+        return {
+          body: JSON.stringify({ hello: 'world' }),
+          statusCode: received.length > failures ? 200 : 502,
+          headers: { 'content-type': 'application/json' }
+        }
+      }
+    }
+  }
+
+  t.test('Retries a request whose body is created by a factory', async t => {
+    const received: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildReadingConnection(received, 2) })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201', 'http://localhost:9202'])
+    const transport = new Transport({ connectionPool: pool })
+
+    let calls = 0
+    const res = await transport.request({
+      method: 'POST',
+      path: '/hello',
+      body: () => {
+        calls++
+        return intoStream(JSON.stringify({ hello: 'world' }))
+      }
+    }, { meta: true })
+
+    t.same(res.body, { hello: 'world' })
+    t.equal(res.meta.attempts, 2)
+    t.equal(calls, 3)
+    t.same(received, Array(3).fill('{"hello":"world"}'))
+  })
+
+  t.test('Accepts an async iterable bulk body and compresses it on every attempt', async t => {
+    const received: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildReadingConnection(received, 1) })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+    const transport = new Transport({ connectionPool: pool, compression: true })
+
+    const res = await transport.request({
+      method: 'POST',
+      path: '/_bulk',
+      bulkBody: async function * () {
+        yield '{"index":{}}\n'
+        yield Buffer.from('{"hello":"world"}\n')
+      }
+    }, { meta: true })
+
+    t.equal(res.meta.attempts, 1)
+    t.equal(res.meta.request.params.headers?.['content-type'], 'application/x-ndjson')
+    t.same(received, Array(2).fill('{"index":{}}\n{"hello":"world"}\n'))
+  })
+
+  t.end()
+})
+
 test('Should not retry on timeout error by default (retryOnTimeout is false)', async t => {
   t.plan(2)
 
@@ -807,54 +968,1588 @@ test('Override global maxRetries', async t => {
   t.equal(res.meta.attempts, 2)
 })
 
-test('Retry on connection error', async t => {
-  t.plan(2)
+test('Retry on connection error', async t => {
+  t.plan(2)
+
+  const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryBackoff: () => 0,
+  })
+
+  try {
+    const res = transport.request({
+      method: 'GET',
+      path: '/hello'
+    })
+    await res
+  } catch (err: any) {
+    t.ok(err instanceof ConnectionError)
+    t.equal(err.meta.meta.attempts, 3)
+  }
+})
+
+test('Retry on timeout error if retryOnTimeout is true', async t => {
+  t.plan(2)
+  const clock = FakeTimers.install({ toFake: ['setTimeout'] })
+  t.teardown(() => clock.uninstall())
+
+  const pool = new WeightedConnectionPool({ Connection: MockConnectionTimeout })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryOnTimeout: true,
+    retryBackoff: () => 0
+  })
+
+  try {
+    const res = transport.request({
+      method: 'GET',
+      path: '/hello'
+    })
+    clock.tick(4000)
+    await res
+  } catch (err: any) {
+    t.ok(err instanceof TimeoutError)
+    t.equal(err.meta.meta.attempts, 3)
+  }
+})
+
+test('Should not retry on 429 by default', async t => {
+  t.plan(3)
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      count++
+      return { body: { error: 'too many requests' }, statusCode: 429 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({ connectionPool: pool })
+
+  try {
+    await transport.request({ method: 'GET', path: '/hello' })
+  } catch (err: any) {
+    t.ok(err instanceof ResponseError)
+    t.equal(err.meta.meta.attempts, 0)
+    t.equal(count, 1)
+  }
+})
+
+test('Retry on 429 if retryOnTooManyRequests is true', async t => {
+  t.plan(5)
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      count++
+      return {
+        body: { hello: 'world' },
+        statusCode: count > 2 ? 200 : 429
+      }
+    }
+  })
+
+  class MyPool extends WeightedConnectionPool {
+    markDead (connection: Connection): this {
+      t.fail('should not be called')
+      return this
+    }
+  }
+
+  const pool = new MyPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const backoffAttempts: number[] = []
+  const transport = new Transport({
+    connectionPool: pool,
+    retryOnTooManyRequests: true,
+    retryBackoff: (min, max, attempt) => {
+      backoffAttempts.push(attempt)
+      return 0
+    }
+  })
+
+  const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+  t.same(res.body, { hello: 'world' })
+  t.equal(res.statusCode, 200)
+  t.equal(res.meta.attempts, 2)
+  t.equal(count, 3)
+  t.same(backoffAttempts, [1, 2])
+})
+
+test('Retry on 429 gives up after maxRetries', async t => {
+  t.plan(3)
+
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      return { body: { error: 'too many requests' }, statusCode: 429 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    maxRetries: 2,
+    retryOnTooManyRequests: true,
+    retryBackoff: () => 0
+  })
+
+  try {
+    await transport.request({ method: 'GET', path: '/hello' })
+  } catch (err: any) {
+    t.ok(err instanceof ResponseError)
+    t.equal(err.statusCode, 429)
+    t.equal(err.meta.meta.attempts, 2)
+  }
+})
+
+test('Retry on 429 honors the Retry-After header', async t => {
+  t.plan(5)
+  const clock = FakeTimers.install({ toFake: ['setTimeout'] })
+  t.teardown(() => clock.uninstall())
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number, headers?: http.IncomingHttpHeaders } {
+      count++
+      if (count === 1) {
+        return { body: { error: 'too many requests' }, statusCode: 429, headers: { 'retry-after': '3' } }
+      }
+      return { body: { hello: 'world' }, statusCode: 200 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryOnTooManyRequests: true,
+    retryBackoff: () => {
+      t.fail('should not be called')
+      return 0
+    }
+  })
+
+  const res = transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+  await clock.tickAsync(2999)
+  t.equal(count, 1)
+  await clock.tickAsync(1)
+  const { body, statusCode, meta } = await res
+  t.equal(count, 2)
+  t.same(body, { hello: 'world' })
+  t.equal(statusCode, 200)
+  t.equal(meta.attempts, 1)
+})
+
+test('Retry on 429 with an HTTP date Retry-After header', async t => {
+  t.plan(2)
+  const clock = FakeTimers.install({ toFake: ['setTimeout', 'Date'] })
+  t.teardown(() => clock.uninstall())
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number, headers?: http.IncomingHttpHeaders } {
+      count++
+      if (count === 1) {
+        const retryAfter = new Date(Date.now() + 3000).toUTCString()
+        return { body: { error: 'too many requests' }, statusCode: 429, headers: { 'retry-after': retryAfter } }
+      }
+      return { body: { hello: 'world' }, statusCode: 200 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({ connectionPool: pool, retryOnTooManyRequests: true })
+
+  const res = transport.request({ method: 'GET', path: '/hello' })
+  await clock.tickAsync(2000)
+  t.equal(count, 1)
+  await clock.tickAsync(1000)
+  t.same(await res, { hello: 'world' })
+})
+
+test('Retry on 429 caps a huge Retry-After header', async t => {
+  t.plan(2)
+  const clock = FakeTimers.install({ toFake: ['setTimeout'] })
+  t.teardown(() => clock.uninstall())
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number, headers?: http.IncomingHttpHeaders } {
+      count++
+      if (count === 1) {
+        return { body: { error: 'too many requests' }, statusCode: 429, headers: { 'retry-after': '3600' } }
+      }
+      return { body: { hello: 'world' }, statusCode: 200 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({ connectionPool: pool, retryOnTooManyRequests: true })
+
+  const res = transport.request({ method: 'GET', path: '/hello' })
+  await clock.tickAsync(4000)
+  t.equal(count, 2)
+  t.same(await res, { hello: 'world' })
+})
+
+test('retryOnTooManyRequests request option overrides the constructor', async t => {
+  t.plan(2)
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      count++
+      return { body: { hello: 'world' }, statusCode: count > 1 ? 200 : 429 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({ connectionPool: pool, retryBackoff: () => 0 })
+
+  const res = await transport.request(
+    { method: 'GET', path: '/hello' },
+    { retryOnTooManyRequests: true, meta: true }
+  )
+  t.equal(res.statusCode, 200)
+  t.equal(res.meta.attempts, 1)
+})
+
+test('Custom retry policy', async t => {
+  t.plan(6)
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      count++
+      return { body: { hello: 'world' }, statusCode: count > 1 ? 200 : 500 }
+    }
+  })
+
+  class MyPool extends WeightedConnectionPool {
+    markDead (connection: Connection): this {
+      t.pass('called')
+      return this
+    }
+  }
+
+  const pool = new MyPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryPolicy: {
+      shouldRetry: ctx => ctx.statusCode === 500,
+      shouldMarkDead: ctx => ctx.statusCode === 500,
+      getDelay: ctx => {
+        t.equal(ctx.name, 'search')
+        t.equal(ctx.attempts, 0)
+        return 0
+      }
+    }
+  })
+
+  const res = await transport.request({
+    method: 'GET',
+    path: '/hello',
+    meta: { name: 'search' }
+  }, { meta: true })
+  t.equal(res.statusCode, 200)
+  t.equal(res.meta.attempts, 1)
+  t.equal(count, 2)
+})
+
+test('Custom retry policy as request option', async t => {
+  t.plan(3)
+
+  const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({ connectionPool: pool })
+
+  try {
+    await transport.request({ method: 'GET', path: '/hello' }, {
+      retryPolicy: {
+        shouldRetry: () => false,
+        shouldMarkDead: () => false,
+        getDelay: () => {
+          t.fail('should not be called')
+          return 0
+        }
+      }
+    })
+  } catch (err: any) {
+    t.ok(err instanceof ConnectionError)
+    t.equal(err.meta.meta.attempts, 0)
+    t.equal(pool.connections[0].status, 'alive')
+  }
+})
+
+test('Custom retry policy delay', async t => {
+  t.plan(3)
+  const clock = FakeTimers.install({ toFake: ['setTimeout'] })
+  t.teardown(() => clock.uninstall())
+
+  let count = 0
+  const Conn = buildMockConnection({
+    onRequest (_opts: ConnectionRequestParams): { body: any, statusCode: number } {
+      count++
+      return { body: { hello: 'world' }, statusCode: count > 1 ? 200 : 503 }
+    }
+  })
+
+  const pool = new WeightedConnectionPool({ Connection: Conn })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryPolicy: {
+      shouldRetry: ctx => ctx.statusCode === 503,
+      shouldMarkDead: () => false,
+      getDelay: () => 1000
+    }
+  })
+
+  const res = transport.request({ method: 'GET', path: '/hello' })
+  await clock.tickAsync(999)
+  t.equal(count, 1)
+  await clock.tickAsync(1)
+  t.same(await res, { hello: 'world' })
+  t.equal(count, 2)
+})
+
+test('Phase timeouts are passed to the connection and reported in the error', async t => {
+  const seen: any[] = []
+  class PhaseConnection extends BaseConnection {
+    async request (params: ConnectionRequestParams, options: any): Promise<any> {
+      seen.push({ connectTimeout: options.connectTimeout, headersTimeout: options.headersTimeout, bodyIdleTimeout: options.bodyIdleTimeout })
+      if (params.path === '/connect') {
+        const cause = new TimeoutError('Connection timed out', undefined, undefined, 'connect')
+        throw new ConnectionError('Connection timed out', undefined, { redaction: { type: 'replace' }, cause })
+      }
+      throw new TimeoutError('Timed out waiting for the response headers', undefined, undefined, 'headers')
+    }
+  }
+
+  const pool = new WeightedConnectionPool({ Connection: PhaseConnection })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({ connectionPool: pool, maxRetries: 2 })
+
+  // a slow response is not retried without retryOnTimeout
+  await t.rejects(transport.request({ method: 'GET', path: '/headers' }, { connectTimeout: '1s', headersTimeout: 500, bodyIdleTimeout: '2s' }), {
+    name: 'TimeoutError',
+    phase: 'headers',
+    message: 'Timed out waiting for the response headers'
+  })
+  t.same(seen, [{ connectTimeout: 1000, headersTimeout: 500, bodyIdleTimeout: 2000 }])
+
+  // a connect timeout never reached the node, so it is retried
+  seen.length = 0
+  await t.rejects(transport.request({ method: 'GET', path: '/connect' }), { name: 'ConnectionError', message: 'Connection timed out' })
+  t.equal(seen.length, 3)
+  t.same(seen[0], { connectTimeout: undefined, headersTimeout: undefined, bodyIdleTimeout: undefined })
+})
+
+test('Transport.close', t => {
+  // answers after `delay` ms, or rejects as soon as the request is aborted
+  function buildSlowConnection (delay: number, closed: string[] = []): typeof BaseConnection {
+    return class SlowConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        return await new Promise((resolve, reject) => {
+          const timer = setTimeout(() => resolve({ body: '', statusCode: 200, headers: {} }), delay)
+          options.signal.addEventListener('abort', () => {
+            clearTimeout(timer)
+            reject(new RequestAbortedError('Request aborted'))
+          }, { once: true })
+        })
+      }
+
+      async close (): Promise<void> {
+        closed.push(this.id)
+      }
+    }
+  }
+
+  t.test('Rejects new requests and empties the pool', async t => {
+    const closed: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildSlowConnection(0, closed) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    await transport.close()
+    t.same(closed, ['http://localhost:9200/'])
+    t.equal(pool.size, 0)
+    await t.rejects(transport.request({ method: 'GET', path: '/hello' }), {
+      name: 'RequestAbortedError',
+      message: 'The transport has been closed'
+    })
+    // closing twice is harmless
+    await transport.close()
+    t.same(closed, ['http://localhost:9200/'])
+  })
+
+  t.test('Waits for the requests in flight', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildSlowConnection(50) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    const request = transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    await transport.close({ timeout: '1s' })
+    const result = await request
+    t.equal(result.statusCode, 200)
+  })
+
+  t.test('Aborts the requests still in flight after the timeout', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildSlowConnection(60000) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    const request = transport.request({ method: 'GET', path: '/hello' })
+    const start = Date.now()
+    await transport.close({ timeout: 50 })
+    t.ok(Date.now() - start < 1000)
+    try {
+      await request
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof RequestAbortedError)
+      t.equal(err.meta.meta.aborted, true)
+    }
+  })
+
+  t.test('Aborts the backoff delay of a retry', async t => {
+    let attempts = 0
+    class RetryConnection extends BaseConnection {
+      async request (): Promise<any> {
+        attempts++
+        return { body: '', statusCode: 503, headers: {} }
+      }
+
+      async close (): Promise<void> {}
+    }
+    const pool = new WeightedConnectionPool({ Connection: RetryConnection })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      maxRetries: 5,
+      retryPolicy: { shouldRetry: () => true, shouldMarkDead: () => false, getDelay: () => 60000 }
+    })
+
+    const request = transport.request({ method: 'GET', path: '/hello' })
+    await sleep(10)
+    await transport.close({ timeout: 0 })
+    await t.rejects(request, {
+      name: 'RequestAbortedError',
+      message: 'The transport has been closed'
+    })
+    t.equal(attempts, 1)
+  })
+
+  t.test('Rejects the requests waiting in the queue', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildSlowConnection(60000) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxConcurrentRequests: 1 })
+
+    const running = transport.request({ method: 'GET', path: '/hello' })
+    const queued = transport.request({ method: 'GET', path: '/hello' })
+    await transport.close({ timeout: 0 })
+    for (const request of [running, queued]) {
+      await t.rejects(request, {
+        name: 'RequestAbortedError',
+        message: 'The transport has been closed'
+      })
+    }
+  })
+
+  t.test('The caller signal still aborts the request', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildSlowConnection(60000) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    const controller = new AbortController()
+    const request = transport.request({ method: 'GET', path: '/hello' }, { signal: controller.signal })
+    controller.abort()
+    await t.rejects(request, { name: 'RequestAbortedError' })
+    await transport.close()
+  })
+
+  t.end()
+})
+
+test('Middleware lifecycle hooks', async t => {
+  const sent: any[] = []
+  class RecordingConnection extends BaseConnection {
+    async request (params: ConnectionRequestParams): Promise<any> {
+      sent.push({ headers: params.headers, querystring: params.querystring })
+      if (sent.length === 1) throw new ConnectionError('kaboom')
+      return { body: '{"error":true}', statusCode: 404, headers: { 'content-type': 'application/json' } }
+    }
+  }
+
+  const events: any[] = []
+  const pool = new WeightedConnectionPool({ Connection: RecordingConnection })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({
+    connectionPool: pool,
+    retryPolicy: { shouldRetry: ctx => ctx.error != null, shouldMarkDead: () => false, getDelay: () => 5 },
+    middleware: [{
+      name: 'test',
+      onRequest: async (ctx, request) => {
+        events.push(['request', ctx.meta.attempts, ctx.meta.connection?.id])
+        request.headers = { ...request.headers, 'x-attempt': String(ctx.meta.attempts) }
+        request.querystring = request.querystring === '' ? 'signed=true' : `${request.querystring as string}&signed=true`
+        return undefined
+      },
+      onRetry: async (ctx, retry) => {
+        events.push(['retry', ctx.meta.attempts, retry.error?.name, retry.delay])
+        return undefined
+      },
+      onError: async (_ctx, error: any) => {
+        events.push(['error', error.name])
+        return error.meta.statusCode === 404 ? { result: error.meta } : undefined
+      }
+    }]
+  })
+
+  const result = await transport.request({ method: 'GET', path: '/hello', querystring: { a: 1 } }, { meta: true })
+  t.equal(result.statusCode, 404)
+  t.same(result.body, { error: true })
+  t.same(events, [
+    ['request', 0, 'http://localhost:9200/'],
+    ['retry', 0, 'ConnectionError', 5],
+    ['request', 1, 'http://localhost:9200/'],
+    ['error', 'ResponseError']
+  ])
+  // the changes of one attempt do not leak into the next one
+  t.same(sent.map(s => [s.headers['x-attempt'], s.querystring]), [['0', 'a=1&signed=true'], ['1', 'a=1&signed=true']])
+})
+
+test('Custom middleware are ordered with the built-in ones', async t => {
+  const order: string[] = []
+  const pool = new WeightedConnectionPool({ Connection: MockConnection })
+  pool.addConnection('http://localhost:9200')
+  const transport = new Transport({
+    connectionPool: pool,
+    middleware: [
+      { name: 'audit', priority: 1, after: MiddlewareName.PRODUCT_CHECK, onResponse: () => { order.push('audit'); return undefined } },
+      { name: 'headers', before: 'opentelemetry', onRequest: () => { order.push('headers'); return undefined } }
+    ]
+  })
+
+  t.same(transport.middleware.names(), ['headers', 'opentelemetry', 'opentelemetry-metrics', 'product-check', 'audit'])
+  await transport.request({ method: 'GET', path: '/hello' })
+  t.same(order, ['headers', 'audit'])
+
+  t.equal(transport.middleware.unregister('audit'), true)
+  transport.middleware.replace('headers', { name: 'tracing', onResponse: () => { order.push('tracing'); return undefined } })
+  t.same(transport.middleware.names(), ['opentelemetry', 'opentelemetry-metrics', 'product-check', 'tracing'])
+  await transport.request({ method: 'GET', path: '/hello' })
+  t.same(order, ['headers', 'audit', 'tracing'])
+})
+
+test('Auth provider', t => {
+  function buildAuthConnection (seen: string[], validKey: () => string): typeof BaseConnection {
+    return class AuthConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams): Promise<any> {
+        const authorization = params.headers?.authorization as string
+        seen.push(authorization)
+        return authorization === `ApiKey ${validKey()}`
+          ? { body: 'ok', statusCode: 200, headers: {} }
+          : { body: '', statusCode: 401, headers: {} }
+      }
+    }
+  }
+
+  t.test('Resolves the credentials lazily and caches them', async t => {
+    const seen: string[] = []
+    let calls = 0
+    const pool = new WeightedConnectionPool({ Connection: buildAuthConnection(seen, () => 'key-1'), auth: { apiKey: 'static' } })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      auth: { provider: async () => ({ apiKey: `key-${++calls}` }) }
+    })
+
+    t.equal(calls, 0)
+    await transport.request({ method: 'GET', path: '/' })
+    await transport.request({ method: 'GET', path: '/' })
+    t.equal(calls, 1)
+    t.same(seen, ['ApiKey key-1', 'ApiKey key-1'])
+  })
+
+  t.test('Refreshes the credentials once on a 401', async t => {
+    const seen: string[] = []
+    let calls = 0
+    let validKey = 'key-2'
+    const pool = new WeightedConnectionPool({ Connection: buildAuthConnection(seen, () => validKey) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      maxRetries: 0,
+      auth: { provider: async () => ({ apiKey: `key-${++calls}` }) }
+    })
+
+    const result = await transport.request({ method: 'GET', path: '/' }, { meta: true })
+    t.equal(result.statusCode, 200)
+    t.equal(result.meta.attempts, 0)
+    t.same(seen, ['ApiKey key-1', 'ApiKey key-2'])
+
+    // the refreshed credentials are rejected too
+    seen.length = 0
+    validKey = 'none'
+    await t.rejects(transport.request({ method: 'GET', path: '/' }), { name: 'ResponseError', meta: { statusCode: 401 } })
+    t.same(seen, ['ApiKey key-2', 'ApiKey key-3'])
+  })
+
+  t.test('An authorization header takes precedence', async t => {
+    const seen: string[] = []
+    let calls = 0
+    const pool = new WeightedConnectionPool({ Connection: buildAuthConnection(seen, () => 'custom') })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      auth: { provider: async () => ({ apiKey: `key-${++calls}` }) }
+    })
+
+    await transport.request({ method: 'GET', path: '/' }, { headers: { authorization: 'ApiKey custom' } })
+    t.equal(calls, 0)
+    t.same(seen, ['ApiKey custom'])
+  })
+
+  t.end()
+})
+
+test('Request signer', t => {
+  t.test('Signs every attempt after the onRequest hooks', async t => {
+    const seen: Array<Record<string, any>> = []
+    class SignedConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams): Promise<any> {
+        seen.push({ ...params.headers })
+        return seen.length === 1
+          ? { body: '', statusCode: 503, headers: {} }
+          : { body: 'ok', statusCode: 200, headers: {} }
+      }
+    }
+    const pool = new WeightedConnectionPool({ Connection: SignedConnection })
+    pool.addConnection('http://localhost:9200')
+
+    let signatures = 0
+    const transport = new Transport({
+      connectionPool: pool,
+      middleware: [{
+        name: 'tenant',
+        onRequest (ctx, request) {
+          request.headers = { ...request.headers, 'x-tenant': 'blue' }
+        }
+      }],
+      signer: async (request, connection) => {
+        t.equal(connection.url.host, 'localhost:9200')
+        request.headers = { ...request.headers, 'x-signature': `${request.headers?.['x-tenant'] as string}-${++signatures}` }
+      }
+    })
+
+    const result = await transport.request({ method: 'GET', path: '/' }, { meta: true })
+    t.equal(result.statusCode, 200)
+    t.equal(result.meta.attempts, 1)
+    t.same(seen.map(headers => headers['x-signature']), ['blue-1', 'blue-2'])
+  })
+
+  t.test('A failing signer rejects the request', async t => {
+    const pool = new WeightedConnectionPool({ Connection: MockConnection })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      signer: () => { throw new ConfigurationError('No credentials') }
+    })
+    await t.rejects(transport.request({ method: 'GET', path: '/hello' }), { name: 'ConfigurationError', message: 'No credentials' })
+  })
+
+  t.test('The signer must be a function', async t => {
+    const pool = new WeightedConnectionPool({ Connection: MockConnection })
+    // @ts-expect-error
+    t.throws(() => new Transport({ connectionPool: pool, signer: 'sigv4' }), ConfigurationError)
+  })
+
+  t.test('Signs a hedged copy for the connection it is sent to', async t => {
+    const seen: Record<string, string | undefined> = {}
+    class SlowConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        seen[this.url.port] = params.headers?.['x-signed-for'] as string
+        const response = { body: 'ok', statusCode: 200, headers: {} }
+        if (this.url.port !== '9200') return response
+        return await new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, 1000, response)
+          options.signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            reject(new RequestAbortedError('Request aborted'))
+          }, { once: true })
+        })
+      }
+    }
+    const pool = new WeightedConnectionPool({ Connection: SlowConnection })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 },
+      signer: (request, connection) => {
+        request.headers = { ...request.headers, 'x-signed-for': connection.url.host }
+      }
+    })
+
+    const result = await transport.request({ method: 'GET', path: '/' }, { meta: true })
+    t.equal(result.meta.hedged, true)
+    t.equal(result.meta.connection?.url.port, '9201')
+    t.same(seen, { 9200: 'localhost:9200', 9201: 'localhost:9201' })
+  })
+
+  t.test('Sends a streamed body with an unsigned payload', async t => {
+    function handler (req: http.IncomingMessage, res: http.ServerResponse): void {
+      let body = ''
+      req.setEncoding('utf8')
+      req.on('data', chunk => { body += chunk as string })
+      req.on('end', () => {
+        res.setHeader('content-type', 'application/json;utf=8')
+        res.end(JSON.stringify({
+          body,
+          host: req.headers.host,
+          payload: req.headers['x-amz-content-sha256'],
+          authorization: req.headers.authorization
+        }))
+      })
+    }
+    const [{ port }, server] = await buildServer(handler)
+    t.teardown(() => server.stop())
+
+    const pool = new WeightedConnectionPool({ Connection: HttpConnection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({
+      connectionPool: pool,
+      signer: sigV4Signer({ region: 'eu-west-1', credentials: { accessKeyId: 'key', secretAccessKey: 'secret' } })
+    })
+
+    const body = await transport.request({ method: 'POST', path: '/_bulk', body: intoStream('{"index":{}}\n{}\n') })
+    t.equal(body.body, '{"index":{}}\n{}\n')
+    t.equal(body.host, `localhost:${port}`)
+    t.equal(body.payload, 'UNSIGNED-PAYLOAD')
+    t.match(body.authorization, /^AWS4-HMAC-SHA256 Credential=key\/\d{8}\/eu-west-1\/es\/aws4_request, SignedHeaders=[a-z0-9;-]*host;x-amz-content-sha256;x-amz-date[a-z0-9;-]*, Signature=[0-9a-f]{64}$/)
+  })
+
+  t.end()
+})
+
+test('totalTimeout caps the time spent across retries', async t => {
+  t.plan(7)
+  const clock = FakeTimers.install({ toFake: ['setTimeout', 'clearTimeout', 'Date'] })
+  t.teardown(() => clock.uninstall())
+
+  const timeouts: number[] = []
+  class SlowConnection extends BaseConnection {
+    async request (params: ConnectionRequestParams, options: any): Promise<any> {
+      timeouts.push(options.timeout)
+      return await new Promise((resolve, reject) => {
+        if (options.timeout < 100) {
+          setTimeout(() => reject(new TimeoutError('Request timed out')), options.timeout)
+        } else {
+          setTimeout(() => resolve({ body: '', statusCode: 503, headers: {} }), 100)
+        }
+      })
+    }
+  }
+
+  let markDeadCount = 0
+  class MyPool extends WeightedConnectionPool {
+    markDead (connection: Connection): this {
+      markDeadCount++
+      return this
+    }
+  }
+
+  const pool = new MyPool({ Connection: SlowConnection })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    maxRetries: 10,
+    totalTimeout: 250
+  })
+
+  const res = transport.request({ method: 'GET', path: '/hello' })
+    .then(() => t.fail('should fail'), (err: any) => err)
+  await clock.tickAsync(250)
+  const err = await res
+  t.ok(err instanceof DeadlineExceededError)
+  t.ok(err instanceof TimeoutError)
+  t.equal(err.message, 'Request did not complete within the total timeout of 250ms (3 attempts)')
+  t.equal(err.meta.meta.attempts, 2)
+  t.ok(err.cause instanceof TimeoutError)
+  t.same(timeouts, [250, 150, 50])
+  t.equal(markDeadCount, 2)
+})
+
+test('totalTimeout does not shrink a smaller requestTimeout', async t => {
+  t.plan(2)
+
+  const timeouts: number[] = []
+  class MyConnection extends BaseConnection {
+    async request (params: ConnectionRequestParams, options: any): Promise<any> {
+      timeouts.push(options.timeout)
+      return { body: '', statusCode: 200, headers: {} }
+    }
+  }
+
+  const pool = new WeightedConnectionPool({ Connection: MyConnection })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    requestTimeout: 500,
+    totalTimeout: '1m'
+  })
+
+  const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+  t.equal(res.statusCode, 200)
+  t.same(timeouts, [500])
+})
+
+test('totalTimeout fails fast when the retry backoff exceeds the deadline', async t => {
+  t.plan(4)
+
+  const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    retryBackoff: () => 10
+  })
+
+  try {
+    await transport.request({ method: 'GET', path: '/hello' }, { totalTimeout: 1000 })
+  } catch (err: any) {
+    t.ok(err instanceof DeadlineExceededError)
+    t.equal(err.message, 'Request did not complete within the total timeout of 1000ms (1 attempt)')
+    t.equal(err.meta.meta.attempts, 0)
+    t.ok(err.cause instanceof ConnectionError)
+  }
+})
+
+test('totalTimeout aborts a response that keeps trickling in', async t => {
+  function handler (req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.setHeader('content-type', 'text/plain')
+    res.write('a')
+    const interval = setInterval(() => res.write('a'), 100)
+    const timer = setTimeout(() => res.end(), 2000)
+    res.on('close', () => {
+      clearInterval(interval)
+      clearTimeout(timer)
+    })
+  }
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [HttpConnection, UndiciConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool, totalTimeout: 500 })
+
+    const start = Date.now()
+    try {
+      await transport.request({ method: 'GET', path: '/hello' })
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof DeadlineExceededError)
+      t.equal(err.message, 'Request did not complete within the total timeout of 500ms (1 attempt)')
+    }
+    t.ok(Date.now() - start < 1000)
+    await transport.close()
+  }
+})
+
+test('totalTimeout request option can disable the constructor option', async t => {
+  t.plan(1)
+
+  const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
+  pool.addConnection('http://localhost:9200')
+
+  const transport = new Transport({
+    connectionPool: pool,
+    maxRetries: 1,
+    totalTimeout: 1,
+    retryBackoff: () => 0
+  })
+
+  try {
+    await transport.request({ method: 'GET', path: '/hello' }, { totalTimeout: null })
+  } catch (err: any) {
+    t.equal(err.name, 'ConnectionError')
+  }
+})
+
+test('Hedging', t => {
+  function buildHedgingConnection (slowPort: string, aborted: string[] = []): typeof BaseConnection {
+    return class HedgingConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        const body = JSON.stringify({ port: this.url.port })
+        const response = { body, statusCode: 200, headers: { 'content-type': 'application/json' } }
+        if (this.url.port !== slowPort) return response
+        return await new Promise((resolve, reject) => {
+          const timer = setTimeout(resolve, 1000, response)
+          options.signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            aborted.push(this.url.port)
+            reject(new RequestAbortedError('Request aborted'))
+          }, { once: true })
+        })
+      }
+    }
+  }
+
+  t.test('Sends a copy of a slow GET to another connection', async t => {
+    const aborted: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9200', aborted) })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+
+    const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.same(res.body, { port: '9201' })
+    t.equal(res.meta.hedged, true)
+    t.equal(res.meta.connection?.url.port, '9201')
+    t.same(aborted, ['9200'])
+  })
+
+  t.test('Reports the connection of the request that lost the race to the pool', async t => {
+    // each port answers after `delay`, with an error if `fails` is set
+    const behaviors: Record<string, { delay: number, fails: boolean }> = {}
+    class RacingConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        const { delay, fails } = behaviors[this.url.port]
+        return await new Promise((resolve, reject) => {
+          const timer = setTimeout(() => {
+            if (fails) reject(new ConnectionError('Connection refused'))
+            else resolve({ body: JSON.stringify({ port: this.url.port }), statusCode: 200, headers: { 'content-type': 'application/json' } })
+          }, delay)
+          options.signal?.addEventListener('abort', () => {
+            clearTimeout(timer)
+            reject(new RequestAbortedError('Request aborted'))
+          }, { once: true })
+        })
+      }
+    }
+    const reported: string[] = []
+    class MyPool extends WeightedConnectionPool {
+      markDead (connection: Connection): this {
+        reported.push(`dead:${connection.url.port}`)
+        return this
+      }
+
+      markAlive (connection: Connection): this {
+        reported.push(`alive:${connection.url.port}`)
+        return this
+      }
+    }
+    const pool = new MyPool({ Connection: RacingConnection })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+    const transport = new Transport({
+      connectionPool: pool,
+      maxRetries: 0,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+
+    // the primary fails after the hedge has been sent, and the hedge wins
+    behaviors['9200'] = { delay: 40, fails: true }
+    behaviors['9201'] = { delay: 80, fails: false }
+    const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.equal(res.meta.connection?.url.port, '9201')
+    t.same(reported, ['dead:9200', 'alive:9201'])
+
+    // the hedge fails, and the primary wins
+    reported.length = 0
+    behaviors['9200'] = { delay: 80, fails: false }
+    behaviors['9201'] = { delay: 10, fails: true }
+    const res2 = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.equal(res2.meta.connection?.url.port, '9200')
+    t.same(reported, ['dead:9201', 'alive:9200'])
+
+    // both fail: the error of the primary is thrown and the hedge is reported
+    reported.length = 0
+    behaviors['9200'] = { delay: 40, fails: true }
+    behaviors['9201'] = { delay: 10, fails: true }
+    await t.rejects(transport.request({ method: 'GET', path: '/hello' }), { name: 'ConnectionError' })
+    t.same(reported, ['dead:9201', 'dead:9200'])
+  })
+
+  t.test('Releases the half-open probe of the request that lost the race', async t => {
+    const pool = new ClusterConnectionPool({
+      Connection: buildHedgingConnection('9200'),
+      circuitBreaker: { minimumRequests: 1, openTimeout: 1000 }
+    })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+    const [conn] = pool.connections
+    pool.markDead(conn, 10)
+    const circuitBreaker = pool.getCircuitBreaker(conn) as any
+    circuitBreaker.openedAt -= 1000
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+    const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.equal(res.meta.connection?.url.port, '9201')
+    // the probe taken by the cancelled request is free again
+    t.equal(circuitBreaker.state, CircuitState.HALF_OPEN)
+    t.equal(pool.getConnection({ requestId: 1, name: 'elasticsearch-js', context: null, now: Date.now(), selector: connections => connections[0] }), conn)
+  })
+
+  t.test('Does not hedge when the first connection is fast enough', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9201') })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+
+    const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.same(res.body, { port: '9200' })
+    t.equal(res.meta.hedged, undefined)
+  })
+
+  t.test('Only hedges POST requests to read-only endpoints', async t => {
+    const aborted: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9200', aborted) })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+
+    const search = await transport.request({
+      method: 'POST',
+      path: '/_search',
+      body: { query: { match_all: {} } },
+      meta: { name: 'search' }
+    }, { meta: true })
+    t.same(search.body, { port: '9201' })
+    t.equal(search.meta.hedged, true)
+
+    const index = await transport.request({
+      method: 'POST',
+      path: '/test/_doc',
+      body: { hello: 'world' },
+      meta: { name: 'index' }
+    }, { meta: true })
+    t.same(index.body, { port: '9200' })
+    t.equal(index.meta.hedged, undefined)
+  })
+
+  t.test('Can be enabled and disabled per request', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9200') })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { delay: 20 }
+    })
+
+    const disabled = await transport.request({ method: 'GET', path: '/hello' }, { hedging: false })
+    t.same(disabled, { port: '9200' })
+
+    const transport2 = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0]
+    })
+
+    const enabled = await transport2.request({ method: 'GET', path: '/hello' }, { hedging: { delay: 20 } })
+    t.same(enabled, { port: '9201' })
+  })
+
+  t.test('Does not hedge without another connection', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9200') })
+    pool.addConnection('http://localhost:9200')
+
+    const transport = new Transport({
+      connectionPool: pool,
+      hedging: { delay: 20 }
+    })
+
+    const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+    t.same(res.body, { port: '9200' })
+    t.equal(res.meta.hedged, undefined)
+  })
+
+  t.test('Uses the latency percentile once enough samples are recorded', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('none') })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      hedging: { percentile: 95, delay: 500 }
+    })
+
+    t.equal(transport.getHedgeDelay({ percentile: 95, delay: 500 }), 500)
+    t.equal(transport.getHedgeDelay({ percentile: 95 }), null)
+    for (let i = 0; i < 20; i++) {
+      await transport.request({ method: 'GET', path: '/hello' })
+    }
+    const delay = transport.getHedgeDelay({ percentile: 95, delay: 500 })
+    t.ok(delay != null && delay < 500)
+  })
+
+  t.test('Does not record the latency of a copy that won the race', async t => {
+    const pool = new WeightedConnectionPool({ Connection: buildHedgingConnection('9200') })
+    pool.addConnection(['http://localhost:9200', 'http://localhost:9201'])
+
+    const transport = new Transport({
+      connectionPool: pool,
+      nodeSelector: connections => connections[0],
+      hedging: { percentile: 95, delay: 20 }
+    })
+
+    for (let i = 0; i < 20; i++) {
+      const res = await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+      t.equal(res.meta.connection?.url.port, '9201')
+    }
+    t.equal(transport.getHedgeDelay({ percentile: 95 }), null)
+  })
+
+  t.end()
+})
+
+test('Concurrency limit', t => {
+  // every request waits until `release` is called
+  function buildGatedConnection (pending: Array<() => void>, started: { count: number }): typeof BaseConnection {
+    return class GatedConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        started.count++
+        await new Promise<void>(resolve => pending.push(resolve))
+        return { body: JSON.stringify({ path: params.path }), statusCode: 200, headers: { 'content-type': 'application/json' } }
+      }
+    }
+  }
+
+  t.test('Queues requests over the limit in FIFO order', async t => {
+    const pending: Array<() => void> = []
+    const started = { count: 0 }
+    const pool = new WeightedConnectionPool({ Connection: buildGatedConnection(pending, started) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxConcurrentRequests: 2 })
+
+    const queued: number[] = []
+    const waited: number[] = []
+    transport.diagnostic.on(events.QUEUE, (err, event) => {
+      t.error(err)
+      queued.push(event?.queued as number)
+    })
+    transport.diagnostic.on(events.DEQUEUE, (err, event) => {
+      t.error(err)
+      waited.push(event?.waitTime as number)
+    })
+
+    const order: string[] = []
+    const requests = ['/a', '/b', '/c', '/d'].map(async path => {
+      const body: any = await transport.request({ method: 'GET', path })
+      order.push(body.path)
+    })
+
+    await sleep(10)
+    t.equal(started.count, 2)
+    t.same(queued, [1, 2])
+
+    while (order.length < 4) {
+      pending.shift()?.()
+      await sleep(10)
+    }
+    await Promise.all(requests)
+
+    t.same(order, ['/a', '/b', '/c', '/d'])
+    t.equal(waited.length, 2)
+    t.ok(waited.every(time => time >= 0))
+  })
+
+  t.test('Rejects with QueueTimeoutError when waiting too long', async t => {
+    t.plan(5)
+    const pending: Array<() => void> = []
+    const started = { count: 0 }
+    const pool = new WeightedConnectionPool({ Connection: buildGatedConnection(pending, started) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxConcurrentRequests: 1, queueTimeout: 20 })
+
+    transport.diagnostic.on(events.DEQUEUE, (err, event) => {
+      t.ok(err instanceof QueueTimeoutError)
+      t.equal(event?.queued, 0)
+    })
+
+    const first = transport.request({ method: 'GET', path: '/a' })
+    try {
+      await transport.request({ method: 'GET', path: '/b' })
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof QueueTimeoutError)
+      t.equal(err.message, 'Request waited in the queue for more than 20ms')
+    }
+
+    pending.shift()?.()
+    t.same(await first, { path: '/a' })
+  })
+
+  t.test('A request aborted while queued leaves the queue', async t => {
+    const pending: Array<() => void> = []
+    const started = { count: 0 }
+    const pool = new WeightedConnectionPool({ Connection: buildGatedConnection(pending, started) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxConcurrentRequests: 1 })
+
+    const first = transport.request({ method: 'GET', path: '/a' })
+    const controller = new AbortController()
+    const second = transport.request({ method: 'GET', path: '/b' }, { signal: controller.signal, meta: true })
+    const third = transport.request({ method: 'GET', path: '/c' })
+
+    await sleep(10)
+    controller.abort()
+    try {
+      await second
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof RequestAbortedError)
+      t.equal(err.meta.meta.aborted, true)
+    }
+
+    pending.shift()?.()
+    t.same(await first, { path: '/a' })
+    await sleep(10)
+    t.equal(started.count, 2)
+    pending.shift()?.()
+    t.same(await third, { path: '/c' })
+  })
+
+  t.test('Releases the slot when the request fails', async t => {
+    const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxConcurrentRequests: 1, maxRetries: 0 })
+
+    const results = await Promise.allSettled([
+      transport.request({ method: 'GET', path: '/a' }),
+      transport.request({ method: 'GET', path: '/b' })
+    ])
+    t.same(results.map(r => r.status), ['rejected', 'rejected'])
+    t.ok((results[1] as PromiseRejectedResult).reason instanceof ConnectionError)
+  })
+
+  t.test('maxConcurrentRequests must be a positive integer', async t => {
+    const pool = new WeightedConnectionPool({ Connection: MockConnection })
+    try {
+      new Transport({ connectionPool: pool, maxConcurrentRequests: 0 }) // eslint-disable-line no-new
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof ConfigurationError)
+      t.equal(err.message, 'The maxConcurrentRequests option must be a positive integer')
+    }
+  })
+
+  t.end()
+})
+
+test('Request coalescing', t => {
+  function buildCountingConnection (calls: string[], pending: Array<() => void>): typeof BaseConnection {
+    return class CountingConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        calls.push(`${params.method} ${params.path}${params.querystring != null && params.querystring !== '' ? '?' + params.querystring : ''}`)
+        await new Promise<void>((resolve, reject) => {
+          pending.push(resolve)
+          options.signal?.addEventListener('abort', () => reject(new RequestAbortedError('Request aborted')), { once: true })
+        })
+        return { body: JSON.stringify({ calls: calls.length }), statusCode: 200, headers: { 'content-type': 'application/json' } }
+      }
+    }
+  }
+
+  function release (pending: Array<() => void>): void {
+    for (const resolve of pending.splice(0)) resolve()
+  }
+
+  t.test('Shares the result of identical GET requests', async t => {
+    const calls: string[] = []
+    const pending: Array<() => void> = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls, pending) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, coalesceRequests: true })
+
+    const requests = [
+      transport.request({ method: 'GET', path: '/_cluster/health', querystring: { a: 1, b: 2 } }),
+      transport.request({ method: 'GET', path: '/_cluster/health', querystring: { b: 2, a: 1 } }, { meta: true }),
+      transport.request({ method: 'GET', path: '/_cluster/health', querystring: { a: 2 } }),
+      transport.request({ method: 'POST', path: '/_cluster/health', querystring: { a: 1, b: 2 } })
+    ]
+    await sleep(10)
+    release(pending)
+    const [first, second, third, fourth] = await Promise.all(requests)
+
+    t.equal(calls.length, 3)
+    t.same(first, { calls: 3 })
+    t.same((second as any).body, { calls: 3 })
+    t.equal((second as any).statusCode, 200)
+    t.same(third, { calls: 3 })
+    t.same(fourth, { calls: 3 })
+
+    // once completed, the next request is sent again
+    const next = transport.request({ method: 'GET', path: '/_cluster/health', querystring: { a: 1, b: 2 } })
+    await sleep(10)
+    release(pending)
+    t.same(await next, { calls: 4 })
+  })
+
+  t.test('Does not coalesce requests with different headers', async t => {
+    const calls: string[] = []
+    const pending: Array<() => void> = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls, pending) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, coalesceRequests: true })
+
+    const requests = [
+      transport.request({ method: 'GET', path: '/_mapping' }, { headers: { 'X-Foo': 'bar' } }),
+      transport.request({ method: 'GET', path: '/_mapping' }, { headers: { 'x-foo': 'bar' } }),
+      transport.request({ method: 'GET', path: '/_mapping' }, { headers: { 'x-foo': 'baz' } })
+    ]
+    await sleep(10)
+    release(pending)
+    await Promise.all(requests)
+    t.equal(calls.length, 2)
+  })
+
+  t.test('Does not coalesce requests with options that change the result', async t => {
+    let calls = 0
+    const pending: Array<() => void> = []
+    class NotFoundConnection extends BaseConnection {
+      async request (): Promise<any> {
+        calls++
+        await new Promise<void>(resolve => pending.push(resolve))
+        return { body: '{"found":false}', statusCode: 404, headers: { 'content-type': 'application/json' } }
+      }
+    }
+    const pool = new WeightedConnectionPool({ Connection: NotFoundConnection })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, coalesceRequests: true })
+
+    const requests = [
+      transport.request({ method: 'GET', path: '/index/_doc/1' }, { ignore: [404] }),
+      transport.request({ method: 'GET', path: '/index/_doc/1' }),
+      transport.request({ method: 'GET', path: '/index/_doc/1' }, { context: { user: 'a' } }),
+      transport.request({ method: 'GET', path: '/index/_doc/1' }, { context: { user: 'a' } })
+    ]
+    await sleep(10)
+    release(pending)
+    const [ignored, failed] = await Promise.allSettled(requests)
+    t.equal(calls, 4)
+    t.same(ignored, { status: 'fulfilled', value: { found: false } })
+    t.equal(failed.status, 'rejected')
+    t.ok((failed as PromiseRejectedResult).reason instanceof ResponseError)
+  })
+
+  t.test('Uses a custom requestKey and per-request opt out', async t => {
+    const calls: string[] = []
+    const pending: Array<() => void> = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls, pending) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      coalesceRequests: true,
+      requestKey: (params) => params.path
+    })
+
+    const requests = [
+      transport.request({ method: 'POST', path: '/_search', body: { query: { match_all: {} } } }),
+      transport.request({ method: 'POST', path: '/_search', body: { size: 0 } }),
+      transport.request({ method: 'POST', path: '/_search' }, { coalesceRequests: false })
+    ]
+    await sleep(10)
+    release(pending)
+    await Promise.all(requests)
+    t.equal(calls.length, 2)
+  })
+
+  t.test('An aborted caller does not cancel the shared request', async t => {
+    const calls: string[] = []
+    const pending: Array<() => void> = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls, pending) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, coalesceRequests: true })
+
+    const controller = new AbortController()
+    const first = transport.request({ method: 'GET', path: '/hello' }, { signal: controller.signal })
+    const second = transport.request({ method: 'GET', path: '/hello' })
+
+    await sleep(10)
+    controller.abort()
+    try {
+      await first
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof RequestAbortedError)
+    }
+
+    release(pending)
+    t.same(await second, { calls: 1 })
+    t.equal(calls.length, 1)
+  })
+
+  t.test('The shared request is aborted once every caller has aborted', async t => {
+    const calls: string[] = []
+    const pending: Array<() => void> = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls, pending) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, coalesceRequests: true })
+
+    let aborted = false
+    transport.diagnostic.on(events.RESPONSE, (err, meta) => {
+      if (err instanceof RequestAbortedError && meta?.meta.aborted === true) aborted = true
+    })
+
+    const controllers = [new AbortController(), new AbortController()]
+    const requests = controllers.map(async controller => {
+      return await transport.request({ method: 'GET', path: '/hello' }, { signal: controller.signal })
+    })
+
+    await sleep(10)
+    for (const controller of controllers) controller.abort()
+    const results = await Promise.allSettled(requests)
+    t.same(results.map(r => r.status), ['rejected', 'rejected'])
+    await sleep(10)
+    t.equal(aborted, true)
+    t.equal(calls.length, 1)
+  })
+
+  t.end()
+})
+
+test('Response cache', t => {
+  function buildCountingConnection (calls: string[]): typeof BaseConnection {
+    return class CountingConnection extends BaseConnection {
+      async request (params: ConnectionRequestParams, options: any): Promise<any> {
+        calls.push(`${params.method} ${params.path}`)
+        const statusCode = params.path === '/missing' ? 404 : 200
+        return { body: JSON.stringify({ calls: calls.length }), statusCode, headers: { 'content-type': 'application/json' } }
+      }
+    }
+  }
 
-  const pool = new WeightedConnectionPool({ Connection: MockConnectionError })
-  pool.addConnection('http://localhost:9200')
+  t.test('Serves GET requests from the cache', async t => {
+    const calls: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, responseCache: { ttl: 1000 } })
 
-  const transport = new Transport({
-    connectionPool: pool,
-    retryBackoff: () => 0,
+    const responses: any[] = []
+    transport.diagnostic.on(events.RESPONSE, (err, meta) => {
+      t.error(err)
+      responses.push(meta?.meta.cached)
+    })
+
+    const first = await transport.request({ method: 'GET', path: '/_mapping', querystring: { pretty: true } }, { meta: true })
+    t.same(first.body, { calls: 1 })
+    t.equal(first.meta.cached, undefined)
+
+    const second = await transport.request({ method: 'GET', path: '/_mapping', querystring: { pretty: true } }, { meta: true })
+    t.same(second.body, { calls: 1 })
+    t.equal(second.statusCode, 200)
+    t.equal(second.headers?.['content-type'], 'application/json')
+    t.equal(second.meta.cached, true)
+    t.equal(second.meta.attempts, 0)
+
+    t.same(await transport.request({ method: 'GET', path: '/_mapping' }), { calls: 2 })
+    t.same(await transport.request({ method: 'GET', path: '/_mapping' }, { responseCache: false }), { calls: 3 })
+    t.same(await transport.request({ method: 'POST', path: '/_mapping' }), { calls: 4 })
+    t.same(await transport.request({ method: 'POST', path: '/_mapping' }), { calls: 5 })
+    t.same(responses, [undefined, true, undefined, undefined, undefined, undefined])
   })
 
-  try {
-    const res = transport.request({
-      method: 'GET',
-      path: '/hello'
+  t.test('Uses the ttl of the endpoint', async t => {
+    const clock = FakeTimers.install({ toFake: ['Date'] })
+    t.teardown(() => clock.uninstall())
+
+    const calls: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      responseCache: { ttls: { 'indices.get_alias': '1s' } }
     })
-    await res
-  } catch (err: any) {
-    t.ok(err instanceof ConnectionError)
-    t.equal(err.meta.meta.attempts, 3)
-  }
-})
 
-test('Retry on timeout error if retryOnTimeout is true', async t => {
-  t.plan(2)
-  const clock = FakeTimers.install({ toFake: ['setTimeout'] })
-  t.teardown(() => clock.uninstall())
+    const alias = { method: 'GET', path: '/_alias', meta: { name: 'indices.get_alias' } }
+    t.same(await transport.request(alias), { calls: 1 })
+    t.same(await transport.request(alias), { calls: 1 })
+    t.same(await transport.request({ method: 'GET', path: '/_cluster/health' }), { calls: 2 })
+    t.same(await transport.request({ method: 'GET', path: '/_cluster/health' }), { calls: 3 })
 
-  const pool = new WeightedConnectionPool({ Connection: MockConnectionTimeout })
-  pool.addConnection('http://localhost:9200')
+    clock.tick(1000)
+    t.same(await transport.request(alias), { calls: 4 })
+  })
 
-  const transport = new Transport({
-    connectionPool: pool,
-    retryOnTimeout: true,
-    retryBackoff: () => 0
+  t.test('Does not cache error responses', async t => {
+    const calls: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls) })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, responseCache: { ttl: 1000 } })
+
+    t.same(await transport.request({ method: 'GET', path: '/missing' }, { ignore: [404] }), { calls: 1 })
+    t.same(await transport.request({ method: 'GET', path: '/missing' }, { ignore: [404] }), { calls: 2 })
   })
 
-  try {
-    const res = transport.request({
-      method: 'GET',
-      path: '/hello'
+  t.test('Supports a custom store', async t => {
+    const calls: string[] = []
+    const pool = new WeightedConnectionPool({ Connection: buildCountingConnection(calls) })
+    pool.addConnection('http://localhost:9200')
+    const entries = new Map<string, any>()
+    const transport = new Transport({
+      connectionPool: pool,
+      responseCache: {
+        ttl: 1000,
+        store: {
+          get: async key => entries.get(key),
+          set: async (key, entry, ttl) => {
+            t.equal(ttl, 1000)
+            entries.set(key, entry)
+          },
+          delete: key => { entries.delete(key) },
+          clear: () => entries.clear()
+        }
+      }
     })
-    clock.tick(4000)
-    await res
-  } catch (err: any) {
-    t.ok(err instanceof TimeoutError)
-    t.equal(err.meta.meta.attempts, 3)
-  }
+
+    t.same(await transport.request({ method: 'GET', path: '/_settings', querystring: { flat_settings: true } }), { calls: 1 })
+    t.same([...entries.keys()], ['GET /_settings?flat_settings=true'])
+    t.same(await transport.request({ method: 'GET', path: '/_settings', querystring: { flat_settings: true } }), { calls: 1 })
+  })
+
+  t.end()
 })
 
 test('Abort a request', async t => {
@@ -1083,6 +2778,116 @@ test('Enable compression (deflate response)', async t => {
   t.equal(res.statusCode, 200)
 })
 
+test('Compression codecs', t => {
+  const codecs: Array<{ name: string, compress: (data: string) => Buffer, skip?: boolean }> = [
+    { name: 'br', compress: data => brotliCompressSync(data) },
+    // zstd is only available in node:zlib since Node.js v22.15.0
+    { name: 'zstd', compress: data => (zlib as any).zstdCompressSync(data), skip: typeof (zlib as any).zstdCompressSync !== 'function' },
+    { name: 'gzip', compress: data => gzipSync(data) }
+  ]
+
+  for (const codec of codecs) {
+    t.test(`Compresses requests and decompresses responses with ${codec.name}`, { skip: codec.skip }, async t => {
+      function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+        t.equal(req.headers['content-encoding'], codec.name)
+        t.equal(req.headers['accept-encoding'], codec.name === 'gzip' ? 'gzip,deflate' : `${codec.name},gzip,deflate`)
+        const chunks: Buffer[] = []
+        req.on('data', chunk => chunks.push(chunk))
+        req.on('end', () => {
+          t.same(Buffer.concat(chunks), codec.compress(JSON.stringify({ hello: 'world' })))
+          res.setHeader('content-type', 'application/json')
+          res.setHeader('content-encoding', codec.name)
+          res.end(codec.compress(JSON.stringify({ hello: 'world' })))
+        })
+      }
+
+      const [{ port }, server] = await buildServer(handler)
+      t.teardown(() => server.stop())
+
+      for (const Connection of [UndiciConnection, HttpConnection]) {
+        const pool = new WeightedConnectionPool({ Connection })
+        pool.addConnection(`http://localhost:${port}`)
+        const transport = new Transport({ connectionPool: pool, compression: codec.name })
+
+        const res = await transport.request({
+          method: 'POST',
+          path: '/hello',
+          body: { hello: 'world' }
+        }, { meta: true })
+        t.same(res.body, { hello: 'world' })
+        t.equal(res.headers?.['content-encoding'], codec.name)
+      }
+    })
+  }
+
+  t.test('Selects the codec per request', async t => {
+    t.plan(4)
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        t.equal(opts.headers?.['content-encoding'], 'br')
+        t.equal(opts.headers?.['accept-encoding'], 'br,gzip,deflate')
+        return {
+          body: brotliCompressSync(JSON.stringify({ hello: 'world' })),
+          statusCode: 200,
+          headers: { 'content-type': 'application/json', 'content-encoding': 'br' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, compression: true })
+
+    const res = await transport.request({
+      method: 'POST',
+      path: '/hello',
+      body: { hello: 'world' }
+    }, { meta: true, compression: 'br' })
+    t.same(res.body, { hello: 'world' })
+    t.equal(res.statusCode, 200)
+  })
+
+  t.test('Supports custom codecs', async t => {
+    const reverse = (data: string | Buffer): Buffer => Buffer.from(data).reverse()
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        t.equal(opts.headers?.['content-encoding'], 'reverse')
+        t.equal(reverse(opts.body as Buffer).toString(), '{"hello":"world"}')
+        return {
+          body: reverse('{"hello":"world"}'),
+          statusCode: 200,
+          headers: { 'content-type': 'application/json', 'content-encoding': 'reverse' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      compression: 'reverse',
+      compressionCodecs: [{
+        name: 'reverse',
+        compress: async data => reverse(data),
+        decompress: async data => reverse(data),
+        createCompressStream: () => { throw new Error('not implemented') },
+        createDecompressStream: () => { throw new Error('not implemented') }
+      }]
+    })
+
+    t.same(await transport.request({ method: 'POST', path: '/hello', body: { hello: 'world' } }), { hello: 'world' })
+  })
+
+  t.test('Unknown codecs are a configuration error', async t => {
+    const pool = new WeightedConnectionPool({ Connection: MockConnection })
+    pool.addConnection('http://localhost:9200')
+    t.throws(() => new Transport({ connectionPool: pool, compression: 'lz4' }), ConfigurationError)
+
+    const transport = new Transport({ connectionPool: pool })
+    await t.rejects(transport.request({ method: 'GET', path: '/' }, { compression: 'lz4' }), ConfigurationError)
+  })
+
+  t.end()
+})
+
 test('Retry compressed request', async t => {
   t.plan(10)
 
@@ -1988,6 +3793,101 @@ test('meta is true', async t => {
   t.same(res.body, { hello: 'world' })
 })
 
+test('CBOR and Smile bodies', t => {
+  for (const format of ['cbor', 'smile']) {
+    const contentType = `application/vnd.elasticsearch+${format}; compatible-with=9`
+
+    t.test(`Encodes the request and decodes the response as ${format}`, async t => {
+      t.plan(5)
+      const serializer = new Serializer()
+      const Conn = buildMockConnection({
+        onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+          t.equal(opts.headers?.['content-type'], contentType)
+          t.equal(opts.headers?.accept, contentType)
+          t.same(serializer.decode(opts.body as Buffer, contentType), { query: { match_all: {} } })
+          return {
+            body: serializer.encode({ hits: { hits: [{ _id: '1' }] } }, contentType),
+            statusCode: 200,
+            headers: { 'content-type': contentType }
+          }
+        }
+      })
+      const pool = new WeightedConnectionPool({ Connection: Conn })
+      pool.addConnection('http://localhost:9200')
+      const transport = new Transport({
+        connectionPool: pool,
+        vendoredHeaders: { jsonContentType: contentType, accept: contentType }
+      })
+
+      const res = await transport.request({
+        method: 'POST',
+        path: '/_search',
+        body: { query: { match_all: {} } }
+      }, { meta: true })
+      t.same(res.body, { hits: { hits: [{ _id: '1' }] } })
+      t.equal(res.statusCode, 200)
+    })
+  }
+
+  t.test('Decodes compressed error responses', async t => {
+    const serializer = new Serializer()
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        return {
+          body: gzipSync(serializer.encode({ error: { type: 'index_not_found_exception' }, status: 404 }, 'application/cbor')),
+          statusCode: 404,
+          headers: { 'content-type': 'application/cbor', 'content-encoding': 'gzip' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    try {
+      await transport.request({ method: 'GET', path: '/missing/_doc/1' }, { headers: { accept: 'application/cbor' } })
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof ResponseError)
+      t.same(err.body, { error: { type: 'index_not_found_exception' }, status: 404 })
+    }
+  })
+
+  t.test('Invalid binary bodies are a deserialization error', async t => {
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        return {
+          body: Buffer.from('not smile'),
+          statusCode: 200,
+          headers: { 'content-type': 'application/smile' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    await t.rejects(transport.request({ method: 'GET', path: '/' }, { headers: { accept: 'application/smile' } }), DeserializationError)
+  })
+
+  t.test('Binary bodies that were not asked for are returned as buffers', async t => {
+    const body = new Serializer().encode({ hello: 'world' }, 'application/cbor')
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        return { body, statusCode: 200, headers: { 'content-type': 'application/cbor' } }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool })
+
+    t.same(await transport.request({ method: 'GET', path: '/_query' }), body)
+    t.same(await transport.request({ method: 'GET', path: '/_query' }, { headers: { accept: 'application/smile' } }), body)
+  })
+
+  t.end()
+})
+
 test('Support mapbox vector tile', async t => {
    t.plan(1)
    const mvtContent = 'GoMCCgRtZXRhEikSFAAAAQACAQMBBAAFAgYDBwAIBAkAGAMiDwkAgEAagEAAAP8//z8ADxoOX3NoYXJkcy5mYWlsZWQaD19zaGFyZHMuc2tpcHBlZBoSX3NoYXJkcy5zdWNjZXNzZnVsGg1fc2hhcmRzLnRvdGFsGhlhZ2dyZWdhdGlvbnMuX2NvdW50LmNvdW50GhdhZ2dyZWdhdGlvbnMuX2NvdW50LnN1bRoTaGl0cy50b3RhbC5yZWxhdGlvbhoQaGl0cy50b3RhbC52YWx1ZRoJdGltZWRfb3V0GgR0b29rIgIwACICMAIiCRkAAAAAAAAAACIECgJlcSICOAAogCB4Ag=='
@@ -2406,6 +4306,109 @@ test('maxCompressedResponseSize constructor option override', async t => {
   }
 })
 
+test('Decompressed size limit', t => {
+  // 10MB of zeros compress to about 10KB
+  const bomb = Buffer.alloc(10 * 1024 * 1024)
+
+  for (const [name, compress] of [['gzip', gzipSync], ['deflate', deflateSync], ['br', brotliCompressSync]] as const) {
+    t.test(`Rejects a ${name} response that inflates past maxResponseSize`, async t => {
+      const Conn = buildMockConnection({
+        onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+          return {
+            body: compress(bomb),
+            statusCode: 200,
+            headers: { 'content-type': 'application/json', 'content-encoding': name }
+          }
+        }
+      })
+      const pool = new WeightedConnectionPool({ Connection: Conn })
+      pool.addConnection('http://localhost:9200')
+      const transport = new Transport({ connectionPool: pool, maxResponseSize: 1024 * 1024 })
+
+      try {
+        await transport.request({ method: 'GET', path: '/hello' }, { meta: true })
+        t.fail('Should throw')
+      } catch (err: any) {
+        t.ok(err instanceof RequestAbortedError)
+        t.equal(err.message, 'The decompressed content length is bigger than the maximum allowed string (1048576)')
+        t.equal(err.meta.meta.aborted, true)
+      }
+    })
+  }
+
+  t.test('Binary responses are limited by maxCompressedResponseSize', async t => {
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        return {
+          body: gzipSync(bomb),
+          statusCode: 200,
+          headers: { 'content-type': 'application/vnd.mapbox-vector-tile', 'content-encoding': 'gzip' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({ connectionPool: pool, maxResponseSize: 1024 })
+
+    const body = await transport.request({ method: 'GET', path: '/tile' })
+    t.equal((body as Buffer).length, bomb.length)
+
+    await t.rejects(
+      transport.request({ method: 'GET', path: '/tile' }, { maxCompressedResponseSize: 1024 }),
+      { name: 'RequestAbortedError', message: 'The decompressed content length is bigger than the maximum allowed buffer (1024)' }
+    )
+  })
+
+  t.test('Custom codecs that ignore the limit are checked afterwards', async t => {
+    const Conn = buildMockConnection({
+      onRequest (opts: ConnectionRequestParams): { body: any, statusCode: number, headers: http.IncomingHttpHeaders } {
+        return {
+          body: Buffer.from('x'),
+          statusCode: 200,
+          headers: { 'content-type': 'application/json', 'content-encoding': 'bomb' }
+        }
+      }
+    })
+    const pool = new WeightedConnectionPool({ Connection: Conn })
+    pool.addConnection('http://localhost:9200')
+    const transport = new Transport({
+      connectionPool: pool,
+      maxResponseSize: 1024,
+      compressionCodecs: [{
+        name: 'bomb',
+        compress: async data => Buffer.from(data),
+        decompress: async () => Buffer.alloc(2048),
+        createCompressStream: () => { throw new Error('not implemented') },
+        createDecompressStream: () => { throw new Error('not implemented') }
+      }]
+    })
+
+    await t.rejects(
+      transport.request({ method: 'GET', path: '/hello' }),
+      { name: 'RequestAbortedError', message: 'The decompressed content length (2048) is bigger than the maximum allowed string (1024)' }
+    )
+  })
+
+  t.test('Works through a real connection', async t => {
+    function handler (req: http.IncomingMessage, res: http.ServerResponse): void {
+      res.writeHead(200, { 'content-type': 'application/json', 'content-encoding': 'gzip' })
+      res.end(gzipSync(bomb))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    t.teardown(() => server.stop())
+
+    for (const Connection of [UndiciConnection, HttpConnection]) {
+      const pool = new WeightedConnectionPool({ Connection })
+      pool.addConnection(`http://localhost:${port}`)
+      const transport = new Transport({ connectionPool: pool, maxResponseSize: 1024 * 1024 })
+      await t.rejects(transport.request({ method: 'GET', path: '/hello' }), RequestAbortedError, Connection.name)
+    }
+  })
+
+  t.end()
+})
+
 test('Should throw on bad maxResponseSize', t => {
   const pool = new WeightedConnectionPool({ Connection: UndiciConnection })
   pool.addConnection('http://localhost:9200')
@@ -2623,6 +4626,216 @@ test('As stream', async t => {
   server.stop()
 })
 
+test('As ndjson', async t => {
+  function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+    res.setHeader('content-type', 'application/x-ndjson')
+    const body = '{"id":1}\n{"id":2}\n{"id":3}\n'
+    if (req.headers['accept-encoding'] === 'gzip') {
+      res.setHeader('content-encoding', 'gzip')
+      res.end(gzipSync(body))
+    } else {
+      res.end(body)
+    }
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [UndiciConnection, HttpConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool })
+
+    for (const compression of [false, true]) {
+      const res = await transport.request<AsyncIterable<{ id: number }>>({
+        method: 'GET',
+        path: '/_export'
+      }, {
+        meta: true,
+        asNdjson: true,
+        headers: compression ? { 'accept-encoding': 'gzip' } : {}
+      })
+      t.equal(res.statusCode, 200)
+      const ids = []
+      for await (const record of res.body) {
+        ids.push(record.id)
+      }
+      t.same(ids, [1, 2, 3])
+    }
+  }
+})
+
+test('A compressed ndjson stream fails when the socket dies mid-body', async t => {
+  let closed = 0
+  function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+    res.setHeader('content-type', 'application/x-ndjson')
+    res.setHeader('content-encoding', 'gzip')
+    res.on('close', () => closed++)
+    const gzip = zlib.createGzip()
+    gzip.pipe(res)
+    gzip.write('{"id":1}\n')
+    gzip.flush(() => {
+      if (req.url === '/_export/broken') {
+        setTimeout(() => res.destroy(), 50)
+      } else {
+        const timer = setInterval(() => gzip.write('{"id":2}\n'), 10)
+        res.on('close', () => clearInterval(timer))
+      }
+    })
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [UndiciConnection, HttpConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool })
+
+    const broken = await transport.request<AsyncIterable<{ id: number }>>({ method: 'GET', path: '/_export/broken' }, { asNdjson: true })
+    const ids = []
+    try {
+      for await (const record of broken) ids.push(record.id)
+      t.fail('Should throw')
+    } catch (err: any) {
+      t.ok(err instanceof Error)
+    }
+    t.same(ids, [1])
+
+    // breaking out early closes the response
+    const endless = await transport.request<AsyncIterable<{ id: number }>>({ method: 'GET', path: '/_export/endless' }, { asNdjson: true })
+    for await (const record of endless) {
+      t.equal(record.id, 1)
+      break
+    }
+    await sleep(50)
+    t.equal(closed, 2, 'both responses are closed')
+    closed = 0
+  }
+})
+
+test('As JSON stream', async t => {
+  const hits = Array.from({ length: 100 }, (_, i) => ({ _id: String(i), _source: { value: 'x'.repeat(100) } }))
+  function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+    res.setHeader('content-type', 'application/json')
+    res.setHeader('content-encoding', 'gzip')
+    res.end(gzipSync(JSON.stringify({ took: 1, hits: { total: { value: 100 }, hits } })))
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [UndiciConnection, HttpConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool })
+
+    // the whole body is bigger than maxResponseSize, but every hit fits
+    const res = await transport.request<AsyncIterable<any>>({
+      method: 'POST',
+      path: '/_search'
+    }, {
+      meta: true,
+      asJsonStream: 'hits.hits',
+      maxResponseSize: 1000
+    })
+    t.equal(res.statusCode, 200)
+    const received = []
+    for await (const hit of res.body) {
+      received.push(hit)
+    }
+    t.same(received, hits)
+  }
+})
+
+test('As JSON stream with an error response', async t => {
+  function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+    res.setHeader('content-type', 'application/json')
+    if (req.url === '/missing/_search') {
+      res.statusCode = 404
+      res.setHeader('content-encoding', 'gzip')
+      res.end(gzipSync(JSON.stringify({ error: { type: 'index_not_found_exception' }, status: 404 })))
+    } else {
+      res.end(JSON.stringify({ took: 1, timed_out: false }))
+    }
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [UndiciConnection, HttpConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool })
+
+    await t.rejects(transport.request({ method: 'POST', path: '/missing/_search' }, { asJsonStream: 'hits.hits' }), {
+      name: 'ResponseError',
+      statusCode: 404,
+      body: { error: { type: 'index_not_found_exception' } }
+    })
+
+    // an ignored error and a document without the path fail once iterated
+    for (const path of ['/missing/_search', '/index/_search']) {
+      const hits = await transport.request<AsyncIterable<any>>({ method: 'POST', path }, { asJsonStream: 'hits.hits', ignore: [404] })
+      await t.rejects(async () => {
+        for await (const hit of hits) t.fail(`Unexpected hit ${JSON.stringify(hit)}`)
+      }, { name: 'DeserializationError', message: "The JSON document has no array at the path 'hits.hits'" })
+    }
+  }
+})
+
+test('As Arrow', async t => {
+  const columns: ArrowTestColumn[] = [
+    { name: 'host', type: { name: 'Utf8' } },
+    { name: 'count', type: { name: 'Int', bitWidth: 32 } }
+  ]
+  const batches = Array.from({ length: 5 }, (_, i) => [{ host: `es-${i}`, count: i }, { host: null, count: -i }])
+  const arrow = buildArrowStream(columns, batches)
+
+  function handler (req: http.IncomingMessage, res: http.ServerResponse) {
+    if (req.url?.startsWith('/_error') === true) {
+      res.writeHead(400, { 'content-type': 'application/json' })
+      res.end(JSON.stringify({ error: 'bad query' }))
+      return
+    }
+    res.setHeader('content-type', 'application/vnd.apache.arrow.stream')
+    if (req.headers['accept-encoding'] === 'gzip') {
+      res.setHeader('content-encoding', 'gzip')
+      res.end(gzipSync(arrow))
+    } else {
+      res.end(arrow)
+    }
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+
+  for (const Connection of [UndiciConnection, HttpConnection]) {
+    const pool = new WeightedConnectionPool({ Connection })
+    pool.addConnection(`http://localhost:${port}`)
+    const transport = new Transport({ connectionPool: pool })
+
+    for (const compression of [false, true]) {
+      const headers = compression ? { 'accept-encoding': 'gzip' } : {}
+      const table = await transport.request<ArrowTable>({ method: 'POST', path: '/_query' }, { asArrow: true, headers })
+      t.equal(table.length, 10)
+      t.same(table.schema.fields.map(field => field.name), ['host', 'count'])
+      t.same(table.toArray(), batches.flat())
+
+      const stream = await transport.request<AsyncIterable<RecordBatch>>({ method: 'POST', path: '/_query' }, { asArrowStream: true, headers })
+      const rows = []
+      for await (const batch of stream) {
+        t.equal(batch.length, 2)
+        rows.push(...batch)
+      }
+      t.same(rows, batches.flat())
+    }
+
+    await t.rejects(transport.request({ method: 'POST', path: '/_error' }, { asArrow: true }), ResponseError)
+    t.same(await transport.request({ method: 'POST', path: '/_query' }), arrow)
+  }
+})
+
 test('Error redaction defaults', async t => {
   t.plan(1)
 
@@ -7,9 +7,10 @@ import { setTimeout } from 'node:timers/promises'
 import { URL } from 'node:url'
 import * as http from 'node:http'
 import buffer from 'node:buffer'
-import { gzipSync, deflateSync } from 'node:zlib'
+import { gzipSync, deflateSync, brotliCompressSync } from 'node:zlib'
 import { Readable } from 'node:stream'
 import { Agent } from 'undici'
+import net from 'node:net'
 import { test } from 'tap'
 import intoStream from 'into-stream'
 import FakeTimers from '@sinonjs/fake-timers'
@@ -285,6 +286,129 @@ test('Timeout support', t => {
   t.end()
 })
 
+test('Phase timeouts', t => {
+  // undici checks its timeouts with a resolution of about half a second,
+  // so the server answers long after the timeouts
+  t.test('headersTimeout', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new UndiciConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 50
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'headers',
+      message: 'Timed out waiting for the response headers'
+    })
+    server.stop()
+  })
+
+  t.test('headersTimeout per request', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new UndiciConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 5000
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, { ...options, headersTimeout: 50 }), {
+      name: 'TimeoutError',
+      phase: 'headers'
+    })
+    server.stop()
+  })
+
+  t.test('The shorter request timeout wins', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new UndiciConnection({
+      url: new URL(`http://localhost:${port}`),
+      timeout: 50,
+      headersTimeout: 5000
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'headers',
+      message: 'Request timed out'
+    })
+    server.stop()
+  })
+
+  t.test('bodyIdleTimeout', async t => {
+    function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      res.writeHead(200, { 'content-type': 'text/plain' })
+      res.write('first chunk')
+      setTimeout(2000).then(() => res.end('ok'))
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new UndiciConnection({
+      url: new URL(`http://localhost:${port}`),
+      headersTimeout: 5000,
+      bodyIdleTimeout: 50
+    })
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'TimeoutError',
+      phase: 'body',
+      message: 'Timed out waiting for the response body'
+    })
+    server.stop()
+  })
+
+  t.test('bodyIdleTimeout does not limit a body that keeps coming', async t => {
+    async function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+      res.writeHead(200, { 'content-type': 'text/plain' })
+      for (let i = 0; i < 5; i++) {
+        res.write('chunk')
+        await setTimeout(20)
+      }
+      res.end()
+    }
+
+    const [{ port }, server] = await buildServer(handler)
+    const connection = new UndiciConnection({
+      url: new URL(`http://localhost:${port}`),
+      bodyIdleTimeout: 80
+    })
+    const res = await connection.request({ path: '/hello', method: 'GET' }, options)
+    t.equal(res.body, 'chunk'.repeat(5))
+    server.stop()
+  })
+
+  t.test('connectTimeout covers the TLS handshake', async t => {
+    // accepts the TCP connection but never answers the TLS handshake
+    const sockets: net.Socket[] = []
+    const server = net.createServer(socket => { sockets.push(socket) })
+    await new Promise<void>(resolve => server.listen(0, resolve))
+    const { port } = server.address() as net.AddressInfo
+
+    const connection = new UndiciConnection({
+      url: new URL(`https://localhost:${port}`),
+      connectTimeout: 100
+    })
+    // the request was never sent, so it fails like any other connection failure
+    await t.rejects(connection.request({ path: '/hello', method: 'GET' }, options), {
+      name: 'ConnectionError',
+      message: 'Connection timed out',
+      cause: { name: 'TimeoutError', phase: 'connect' }
+    })
+    await connection.close()
+    for (const socket of sockets) socket.destroy()
+    server.close()
+  })
+
+  t.end()
+})
+
 test('Should concatenate the querystring', async t => {
   t.plan(1)
 
@@ -856,6 +980,41 @@ test('Body too big custom option (string)', async t => {
   server.stop()
 })
 
+test('Compressed body of any codec is read as a buffer', async t => {
+  const body = brotliCompressSync(JSON.stringify({ hello: 'world' }))
+  function handler (_req: http.IncomingMessage, res: http.ServerResponse) {
+    res.writeHead(200, {
+      'content-type': 'application/json;utf=8',
+      'content-encoding': 'br'
+    })
+    res.end(body)
+  }
+
+  const [{ port }, server] = await buildServer(handler)
+  t.teardown(() => server.stop())
+  const connection = new UndiciConnection({
+    url: new URL(`http://localhost:${port}`)
+  })
+
+  const res = await connection.request({
+    method: 'GET',
+    path: '/'
+  }, options)
+  t.ok(Buffer.isBuffer(res.body))
+  t.same(res.body, body)
+
+  try {
+    await connection.request({
+      method: 'GET',
+      path: '/'
+    }, { ...options, maxCompressedResponseSize: 1 })
+    t.fail('Should throw')
+  } catch (err: any) {
+    t.ok(err instanceof RequestAbortedError)
+    t.equal(err.message, `The content length (${body.length}) is bigger than the maximum allowed buffer (1)`)
+  }
+})
+
 test('Body too big custom option (buffer)', async t => {
   t.plan(2)
 
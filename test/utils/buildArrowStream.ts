@@ -0,0 +1,294 @@
+/*
+ * Copyright Elasticsearch B.V. and contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// Writes Arrow IPC streams for the tests, with a minimal FlatBuffers builder
+// that lays out every table before the tables, vectors and strings it references.
+
+type FlatField =
+  | { u8: number }
+  | { bool: boolean }
+  | { i16: number }
+  | { i32: number }
+  | { i64: number }
+  | { string: string }
+  | { table: FlatField[] }
+  | { tables: FlatField[][] }
+  | { structs: Buffer, count: number }
+  | null
+
+class FlatBuilder {
+  bytes: number[] = []
+
+  private write (buffer: Buffer): void {
+    for (const byte of buffer) this.bytes.push(byte)
+  }
+
+  private patch (position: number, target: number): void {
+    const offset = Buffer.alloc(4)
+    offset.writeUInt32LE(target - position)
+    this.bytes.splice(position, 4, ...offset)
+  }
+
+  table (fields: FlatField[]): number {
+    const vtable = this.bytes.length
+    this.write(Buffer.alloc(4 + fields.length * 2))
+    const table = this.bytes.length
+    const soffset = Buffer.alloc(4)
+    soffset.writeInt32LE(table - vtable)
+    this.write(soffset)
+
+    const offsets: number[] = []
+    const references: Array<[number, FlatField]> = []
+    for (const field of fields) {
+      if (field == null) {
+        offsets.push(0)
+        continue
+      }
+      offsets.push(this.bytes.length - table)
+      const inline = Buffer.alloc(8)
+      if ('u8' in field) this.write(Buffer.from([field.u8]))
+      else if ('bool' in field) this.write(Buffer.from([field.bool ? 1 : 0]))
+      else if ('i16' in field) { inline.writeInt16LE(field.i16); this.write(inline.subarray(0, 2)) }
+      else if ('i32' in field) { inline.writeInt32LE(field.i32); this.write(inline.subarray(0, 4)) }
+      else if ('i64' in field) { inline.writeBigInt64LE(BigInt(field.i64)); this.write(inline) }
+      else {
+        references.push([this.bytes.length, field])
+        this.write(Buffer.alloc(4))
+      }
+    }
+
+    const header = Buffer.alloc(4 + fields.length * 2)
+    header.writeUInt16LE(header.length, 0)
+    header.writeUInt16LE(this.bytes.length - table, 2)
+    offsets.forEach((offset, i) => header.writeUInt16LE(offset, 4 + i * 2))
+    this.bytes.splice(vtable, header.length, ...header)
+
+    for (const [position, field] of references) {
+      this.patch(position, this.reference(field))
+    }
+    return table
+  }
+
+  private reference (field: FlatField): number {
+    const position = this.bytes.length
+    const length = Buffer.alloc(4)
+    if (field != null && 'string' in field) {
+      const data = Buffer.from(field.string)
+      length.writeUInt32LE(data.length)
+      this.write(Buffer.concat([length, data, Buffer.from([0])]))
+    } else if (field != null && 'structs' in field) {
+      length.writeUInt32LE(field.count)
+      this.write(Buffer.concat([length, field.structs]))
+    } else if (field != null && 'tables' in field) {
+      length.writeUInt32LE(field.tables.length)
+      this.write(length)
+      const elements = field.tables.map(() => {
+        this.write(Buffer.alloc(4))
+        return this.bytes.length - 4
+      })
+      field.tables.forEach((table, i) => this.patch(elements[i], this.table(table)))
+    } else if (field != null && 'table' in field) {
+      return this.table(field.table)
+    }
+    return position
+  }
+
+  /** Writes a root table and returns the FlatBuffer. */
+  static root (fields: FlatField[]): Buffer {
+    const builder = new FlatBuilder()
+    builder.write(Buffer.alloc(4))
+    builder.patch(0, builder.table(fields))
+    return Buffer.from(builder.bytes)
+  }
+}
+
+export type ArrowTestType =
+  | { name: 'Null' }
+  | { name: 'Int', bitWidth: 32 | 64 }
+  | { name: 'Float64' }
+  | { name: 'Utf8' }
+  | { name: 'Bool' }
+  | { name: 'Timestamp' }
+  | { name: 'List', child: ArrowTestType }
+  | { name: 'Struct', children: Array<{ name: string, type: ArrowTestType }> }
+
+export interface ArrowTestColumn {
+  name: string
+  type: ArrowTestType
+  /** Dictionary encodes the values, which must be strings. */
+  dictionary?: boolean
+}
+
+const TYPE_IDS = { Null: 1, Int: 2, Float64: 3, Utf8: 5, Bool: 6, Timestamp: 10, List: 12, Struct: 13 }
+
+function typeTable (type: ArrowTestType): FlatField[] {
+  switch (type.name) {
+    case 'Int':
+      return [{ i32: type.bitWidth }, { bool: true }]
+    case 'Float64':
+      return [{ i16: 2 }]
+    case 'Timestamp':
+      return [{ i16: 1 }, { string: 'UTC' }]
+    default:
+      return []
+  }
+}
+
+function fieldTable (name: string, type: ArrowTestType, dictionaryId: number | null): FlatField[] {
+  const children = type.name === 'List'
+    ? [fieldTable('item', type.child, null)]
+    : type.name === 'Struct'
+      ? type.children.map(child => fieldTable(child.name, child.type, null))
+      : []
+  return [
+    { string: name },
+    { bool: true },
+    { u8: TYPE_IDS[type.name] },
+    { table: typeTable(type) },
+    dictionaryId == null ? null : { table: [{ i64: dictionaryId }, { table: [{ i32: 32 }, { bool: true }] }] },
+    { tables: children }
+  ]
+}
+
+function bitmap (values: boolean[]): Buffer {
+  const bytes = Buffer.alloc(Math.ceil(values.length / 8))
+  values.forEach((value, i) => { if (value) bytes[i >> 3] |= 1 << (i & 7) })
+  return bytes
+}
+
+/** Collects the field nodes and buffers of a column, depth first. */
+function encodeColumn (type: ArrowTestType, values: unknown[], nodes: Array<[number, number]>, buffers: Buffer[]): void {
+  const nullCount = values.filter(value => value == null).length
+  nodes.push([values.length, type.name === 'Null' ? values.length : nullCount])
+  if (type.name === 'Null') return
+  buffers.push(nullCount === 0 ? Buffer.alloc(0) : bitmap(values.map(value => value != null)))
+
+  switch (type.name) {
+    case 'Int': {
+      const width = type.bitWidth / 8
+      const data = Buffer.alloc(values.length * width)
+      values.forEach((value, i) => {
+        if (type.bitWidth === 64) data.writeBigInt64LE(BigInt((value as number | bigint | null) ?? 0), i * 8)
+        else data.writeInt32LE((value as number | null) ?? 0, i * 4)
+      })
+      buffers.push(data)
+      return
+    }
+    case 'Float64': {
+      const data = Buffer.alloc(values.length * 8)
+      values.forEach((value, i) => data.writeDoubleLE((value as number | null) ?? 0, i * 8))
+      buffers.push(data)
+      return
+    }
+    case 'Timestamp': {
+      const data = Buffer.alloc(values.length * 8)
+      values.forEach((value, i) => data.writeBigInt64LE(BigInt((value as Date | null)?.getTime() ?? 0), i * 8))
+      buffers.push(data)
+      return
+    }
+    case 'Bool':
+      buffers.push(bitmap(values.map(value => value === true)))
+      return
+    case 'Utf8': {
+      const strings = values.map(value => Buffer.from((value as string | null) ?? ''))
+      const offsets = Buffer.alloc((values.length + 1) * 4)
+      let offset = 0
+      strings.forEach((string, i) => {
+        offset += string.length
+        offsets.writeInt32LE(offset, (i + 1) * 4)
+      })
+      buffers.push(offsets, Buffer.concat(strings))
+      return
+    }
+    case 'List': {
+      const offsets = Buffer.alloc((values.length + 1) * 4)
+      const items: unknown[] = []
+      values.forEach((value, i) => {
+        items.push(...((value as unknown[] | null) ?? []))
+        offsets.writeInt32LE(items.length, (i + 1) * 4)
+      })
+      buffers.push(offsets)
+      encodeColumn(type.child, items, nodes, buffers)
+      return
+    }
+    case 'Struct':
+      for (const child of type.children) {
+        encodeColumn(child.type, values.map(value => (value as Record<string, unknown> | null)?.[child.name] ?? null), nodes, buffers)
+      }
+  }
+}
+
+function pad (buffer: Buffer): Buffer {
+  return Buffer.concat([buffer, Buffer.alloc((8 - (buffer.length % 8)) % 8)])
+}
+
+function message (headerType: number, header: FlatField[], body: Buffer, legacy: boolean): Buffer {
+  const metadata = pad(FlatBuilder.root([{ i16: 4 }, { u8: headerType }, { table: header }, { i64: body.length }]))
+  const prefix = Buffer.alloc(legacy ? 4 : 8)
+  if (legacy) {
+    prefix.writeInt32LE(metadata.length)
+  } else {
+    prefix.writeUInt32LE(0xffffffff)
+    prefix.writeInt32LE(metadata.length, 4)
+  }
+  return Buffer.concat([prefix, metadata, body])
+}
+
+function recordBatch (length: number, nodes: Array<[number, number]>, buffers: Buffer[]): { header: FlatField[], body: Buffer } {
+  const nodeStructs = Buffer.alloc(nodes.length * 16)
+  nodes.forEach(([nodeLength, nullCount], i) => {
+    nodeStructs.writeBigInt64LE(BigInt(nodeLength), i * 16)
+    nodeStructs.writeBigInt64LE(BigInt(nullCount), i * 16 + 8)
+  })
+  const padded = buffers.map(pad)
+  const bufferStructs = Buffer.alloc(buffers.length * 16)
+  let offset = 0
+  buffers.forEach((buffer, i) => {
+    bufferStructs.writeBigInt64LE(BigInt(offset), i * 16)
+    bufferStructs.writeBigInt64LE(BigInt(buffer.length), i * 16 + 8)
+    offset += padded[i].length
+  })
+  return {
+    header: [{ i64: length }, { structs: nodeStructs, count: nodes.length }, { structs: bufferStructs, count: buffers.length }],
+    body: Buffer.concat(padded)
+  }
+}
+
+/**
+ * Writes an Arrow IPC stream with one record batch per element of `batches`,
+ * each an array of rows. `legacy` omits the continuation markers, as Arrow < 0.15 did.
+ */
+export default function buildArrowStream (columns: ArrowTestColumn[], batches: Array<Array<Record<string, unknown>>>, legacy = false): Buffer {
+  const schema: FlatField[] = [
+    { i16: 0 },
+    { tables: columns.map((column, i) => fieldTable(column.name, column.type, column.dictionary === true ? i : null)) }
+  ]
+  const messages = [message(1, schema, Buffer.alloc(0), legacy)]
+
+  for (const rows of batches) {
+    const nodes: Array<[number, number]> = []
+    const buffers: Buffer[] = []
+    columns.forEach((column, i) => {
+      const values = rows.map(row => row[column.name] ?? null)
+      if (column.dictionary === true) {
+        // a dictionary batch of the distinct values, then their indexes
+        const dictionary = [...new Set(values.filter(value => value != null))]
+        const dictionaryNodes: Array<[number, number]> = []
+        const dictionaryBuffers: Buffer[] = []
+        encodeColumn(column.type, dictionary, dictionaryNodes, dictionaryBuffers)
+        const { header, body } = recordBatch(dictionary.length, dictionaryNodes, dictionaryBuffers)
+        messages.push(message(2, [{ i64: i }, { table: header }], body, legacy))
+        encodeColumn({ name: 'Int', bitWidth: 32 }, values.map(value => value == null ? null : dictionary.indexOf(value)), nodes, buffers)
+      } else {
+        encodeColumn(column.type, values, nodes, buffers)
+      }
+    })
+    const { header, body } = recordBatch(rows.length, nodes, buffers)
+    messages.push(message(3, header, body, legacy))
+  }
+
+  messages.push(legacy ? Buffer.alloc(4) : Buffer.from([0xff, 0xff, 0xff, 0xff, 0, 0, 0, 0]))
+  return Buffer.concat(messages)
+}
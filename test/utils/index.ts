@@ -8,11 +8,13 @@ import * as connection from './MockConnection'
 import TestClient from './TestClient'
 import buildCluster from './buildCluster'
 import * as buildProxy from './buildProxy'
+import buildArrowStream from './buildArrowStream'
 
 export {
   buildServer,
   connection,
   buildCluster,
   buildProxy,
+  buildArrowStream,
   TestClient
 }